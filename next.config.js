@@ -15,7 +15,7 @@ const nextConfig = {
     unoptimized: false,
   },
   // Serverless deployment configuration
-  serverExternalPackages: ['@google/genai'],
+  serverExternalPackages: ['@google/genai', 'better-sqlite3'],
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+/**
+ * Scheduled Cache Refresh CLI
+ *
+ * Runs the same refresh check as /api/cron/refresh outside the web server:
+ * rebuilds CEX/DEX data whose cache is missing or close to expiry and waits
+ * for the AI enrichment jobs to finish.
+ *
+ * Usage:
+ *   npm run refresh                     # check both markets once (for system cron)
+ *   npm run refresh -- --market=cex     # one market only
+ *   npm run refresh -- --force          # rebuild even if the cache is fresh
+ *   npm run refresh -- --no-wait        # exit without waiting for enrichment
+ *   npm run refresh -- --watch          # check now, then keep checking on CEX_REFRESH_CRON / DEX_REFRESH_CRON
+ *
+ * Needs a shared cache store (CACHE_STORE=file or sqlite) - the memory store
+ * is discarded when this process exits.
+ */
+
+require('dotenv').config({ path: '.env.local', quiet: true });
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const SRC_DIR = path.resolve(__dirname, '../src');
+
+// Load the app's TypeScript sources directly: transpile on require and resolve the @/ alias
+function registerTypeScript() {
+  const resolveFilename = Module._resolveFilename;
+  Module._resolveFilename = function (request, ...rest) {
+    const mapped = request.startsWith('@/') ? path.join(SRC_DIR, request.slice(2)) : request;
+    return resolveFilename.call(this, mapped, ...rest);
+  };
+
+  const compile = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+        jsx: ts.JsxEmit.ReactJSX,
+      },
+    });
+    module._compile(outputText, filename);
+  };
+  require.extensions['.ts'] = compile;
+  require.extensions['.tsx'] = compile;
+}
+
+function parseArgs(argv) {
+  const args = { force: false, wait: true, watch: false, markets: ['cex', 'dex'] };
+
+  argv.forEach(arg => {
+    if (arg === '--force') {
+      args.force = true;
+    } else if (arg === '--no-wait') {
+      args.wait = false;
+    } else if (arg === '--watch') {
+      args.watch = true;
+    } else if (arg.startsWith('--market=')) {
+      const market = arg.slice('--market='.length);
+      if (market !== 'cex' && market !== 'dex') {
+        throw new Error(`Invalid market "${market}" - use cex or dex`);
+      }
+      args.markets = [market];
+    } else {
+      throw new Error(`Unknown option "${arg}"`);
+    }
+  });
+
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  registerTypeScript();
+  const { CACHE_STORE } = require('@/config/constants');
+  const { getJob, waitForJob } = require('@/lib/jobs');
+  const { runScheduledRefresh, startRefreshScheduler } = require('@/lib/jobs/scheduler');
+
+  if (CACHE_STORE === 'memory') {
+    console.warn('⚠️ CACHE_STORE=memory - refreshed data is lost when this process exits. Use CACHE_STORE=file or sqlite.');
+  }
+
+  if (args.watch) {
+    console.log(`⏰ Refresh scheduler started for ${args.markets.join(', ').toUpperCase()}`);
+    await runScheduledRefresh({ markets: args.markets, force: args.force }); // Catch up right away
+    const stop = startRefreshScheduler(args.markets);
+    const shutdown = () => {
+      console.log('🛑 Refresh scheduler stopped');
+      stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    return;
+  }
+
+  const results = await runScheduledRefresh({ markets: args.markets, force: args.force });
+
+  if (args.wait) {
+    for (const result of results) {
+      const job = result.jobId && getJob(result.jobId);
+      if (job) {
+        console.log(`⏳ Waiting for ${result.market.toUpperCase()} enrichment job ${job.id}...`);
+        await waitForJob(job);
+        console.log(`🎉 ${result.market.toUpperCase()} enrichment job ${job.status}${job.error ? `: ${job.error}` : ''}`);
+      }
+    }
+  }
+
+  results.forEach(result => {
+    console.log(`${result.market.toUpperCase()}: ${result.status} (${result.error || result.reason})`);
+  });
+
+  process.exit(results.some(result => result.status === 'failed') ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Refresh failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
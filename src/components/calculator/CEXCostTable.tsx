@@ -0,0 +1,94 @@
+import {
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  HStack,
+  Image,
+  Badge,
+  Link,
+  Tooltip,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { CEXTradeCost } from '@/lib/types/calculator';
+import { formatAmount, formatFee } from '@/lib/utils/formatters';
+
+interface CEXCostTableProps {
+  results: CEXTradeCost[];
+  asset: string;
+}
+
+export function CEXCostTable({ results, asset }: CEXCostTableProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  if (results.length === 0) {
+    return (
+      <Text color="gray.500" textAlign="center" py={8}>
+        No exchanges have fee data for this order type yet
+      </Text>
+    );
+  }
+
+  const formatTransferFee = (fee: number | null) => (fee === null ? '-' : `${formatAmount(fee)} ${asset}`);
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>#</Th>
+            <Th>Exchange</Th>
+            <Th isNumeric>Fee Rate</Th>
+            <Th isNumeric>Trading Fees</Th>
+            <Th isNumeric>Deposit</Th>
+            <Th isNumeric>Withdrawal</Th>
+            <Th isNumeric>Total Cost</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {results.map((result, index) => (
+            <Tr key={result.exchangeId}>
+              <Td>{index + 1}</Td>
+              <Td>
+                <HStack spacing={2}>
+                  <Image
+                    src={result.logo}
+                    alt={result.exchangeName}
+                    boxSize="20px"
+                    objectFit="contain"
+                    fallbackSrc="/logos/default.svg"
+                  />
+                  <Link href={result.url} isExternal fontWeight="semibold">
+                    {result.exchangeName}
+                  </Link>
+                  {result.missingData.length > 0 && (
+                    <Tooltip label="No data for some transfer fees - total only includes known fees" hasArrow>
+                      <Badge colorScheme="yellow" fontSize="xs">Partial</Badge>
+                    </Tooltip>
+                  )}
+                </HStack>
+              </Td>
+              <Td isNumeric>{formatFee(result.feeRate)}</Td>
+              <Td isNumeric>{formatAmount(result.tradingFee)} {asset}</Td>
+              <Td isNumeric>{formatTransferFee(result.depositFee)}</Td>
+              <Td isNumeric>
+                <Text>{formatTransferFee(result.withdrawalFee)}</Text>
+                {result.withdrawalNetwork && (
+                  <Text fontSize="xs" color="gray.500">via {result.withdrawalNetwork}</Text>
+                )}
+              </Td>
+              <Td isNumeric>
+                <Text fontWeight="bold">{formatAmount(result.totalCost)} {asset}</Text>
+                <Text fontSize="xs" color="gray.500">{result.totalCostPercent.toFixed(3)}%</Text>
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
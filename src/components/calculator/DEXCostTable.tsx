@@ -0,0 +1,133 @@
+import {
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  HStack,
+  Image,
+  Badge,
+  Link,
+  Tooltip,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { DEXSwapCost, GasLevels } from '@/lib/types/calculator';
+import { formatFee, formatUSD } from '@/lib/utils/formatters';
+
+interface DEXCostTableProps {
+  results: DEXSwapCost[];
+  swapSize: number;
+}
+
+function LevelsCell({ levels }: { levels: GasLevels }) {
+  return (
+    <Tooltip label={`Low ${formatUSD(levels.low)} • High ${formatUSD(levels.high)}`} hasArrow>
+      <Box>
+        <Text fontWeight="semibold">{formatUSD(levels.average)}</Text>
+        <Text fontSize="xs" color="gray.500">
+          {formatUSD(levels.low)} - {formatUSD(levels.high)}
+        </Text>
+      </Box>
+    </Tooltip>
+  );
+}
+
+export function DEXCostTable({ results, swapSize }: DEXCostTableProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  if (results.length === 0) {
+    return (
+      <Text color="gray.500" textAlign="center" py={8}>
+        No DEXes on this chain have swap fee data yet
+      </Text>
+    );
+  }
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>#</Th>
+            <Th>DEX</Th>
+            <Th isNumeric>Swap Fee</Th>
+            <Th isNumeric>Gas (avg)</Th>
+            <Th isNumeric>Total (avg)</Th>
+            <Th isNumeric>Breakeven Size</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {results.map((result, index) => {
+            const gasDominates = result.breakevenSize !== null && swapSize < result.breakevenSize.average;
+
+            return (
+              <Tr key={result.dexId}>
+                <Td>{index + 1}</Td>
+                <Td>
+                  <HStack spacing={2}>
+                    <Image
+                      src={result.logo}
+                      alt={result.dexName}
+                      boxSize="20px"
+                      objectFit="contain"
+                      fallbackSrc="/logos/default.svg"
+                    />
+                    {result.url ? (
+                      <Link href={result.url} isExternal fontWeight="semibold">
+                        {result.dexName}
+                      </Link>
+                    ) : (
+                      <Text fontWeight="semibold">{result.dexName}</Text>
+                    )}
+                    <Badge fontSize="xs">{result.protocol}</Badge>
+                  </HStack>
+                </Td>
+                <Td isNumeric>
+                  <Text fontWeight="semibold">{formatUSD(result.swapFeeCost)}</Text>
+                  <Text fontSize="xs" color="gray.500">{formatFee(result.swapFeeRate)}</Text>
+                </Td>
+                <Td isNumeric>
+                  {result.gasCost ? (
+                    <LevelsCell levels={result.gasCost} />
+                  ) : (
+                    <Tooltip label="No gas estimate for this chain - total only includes the swap fee" hasArrow>
+                      <Badge colorScheme="yellow" fontSize="xs">Unknown</Badge>
+                    </Tooltip>
+                  )}
+                </Td>
+                <Td isNumeric>
+                  <LevelsCell levels={result.totalCost} />
+                  <Text fontSize="xs" color="gray.500">{result.totalCostPercent.toFixed(3)}%</Text>
+                </Td>
+                <Td isNumeric>
+                  {result.breakevenSize ? (
+                    <Tooltip
+                      label={gasDominates
+                        ? 'Gas is the larger part of the cost at this swap size'
+                        : 'Swap fee is the larger part of the cost at this swap size'}
+                      hasArrow
+                    >
+                      <Box>
+                        <Text fontWeight="semibold" color={gasDominates ? 'orange.500' : 'green.500'}>
+                          {formatUSD(result.breakevenSize.average)}
+                        </Text>
+                        <Text fontSize="xs" color="gray.500">
+                          {formatUSD(result.breakevenSize.low)} - {formatUSD(result.breakevenSize.high)}
+                        </Text>
+                      </Box>
+                    </Tooltip>
+                  ) : (
+                    <Text color="gray.500">-</Text>
+                  )}
+                </Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
@@ -0,0 +1,106 @@
+import {
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  HStack,
+  VStack,
+  Image,
+  Badge,
+  Link,
+  Tooltip,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { VenueRoute } from '@/lib/types/calculator';
+import { formatUSD } from '@/lib/utils/formatters';
+
+interface RouteComparisonTableProps {
+  routes: VenueRoute[];
+}
+
+export function RouteComparisonTable({ routes }: RouteComparisonTableProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+  const bestBg = useColorModeValue('green.50', 'green.900');
+
+  if (routes.length === 0) {
+    return (
+      <Text color="gray.500" textAlign="center" py={8}>
+        No venues have fee data for this route yet
+      </Text>
+    );
+  }
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>#</Th>
+            <Th>Venue</Th>
+            <Th>Cost Breakdown</Th>
+            <Th isNumeric>Total</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {routes.map((route, index) => (
+            <Tr key={`${route.venue}-${route.id}`} bg={index === 0 && !route.incomplete ? bestBg : undefined}>
+              <Td>{index + 1}</Td>
+              <Td>
+                <HStack spacing={2}>
+                  <Image
+                    src={route.logo}
+                    alt={route.name}
+                    boxSize="20px"
+                    objectFit="contain"
+                    fallbackSrc="/logos/default.svg"
+                  />
+                  {route.url ? (
+                    <Link href={route.url} isExternal fontWeight="semibold">
+                      {route.name}
+                    </Link>
+                  ) : (
+                    <Text fontWeight="semibold">{route.name}</Text>
+                  )}
+                  <Badge colorScheme={route.venue === 'cex' ? 'blue' : 'purple'} fontSize="xs">
+                    {route.venue.toUpperCase()}
+                  </Badge>
+                </HStack>
+              </Td>
+              <Td>
+                <VStack spacing={1} align="stretch">
+                  {route.breakdown.map(component => (
+                    <HStack key={component.label} spacing={2} justify="space-between">
+                      <Box>
+                        <Text fontSize="sm">{component.label}</Text>
+                        <Text fontSize="xs" color="gray.500">{component.detail}</Text>
+                      </Box>
+                      {component.amount !== null ? (
+                        <Text fontSize="sm" fontWeight="semibold">{formatUSD(component.amount)}</Text>
+                      ) : (
+                        <Badge colorScheme="yellow" fontSize="xs">Unknown</Badge>
+                      )}
+                    </HStack>
+                  ))}
+                </VStack>
+              </Td>
+              <Td isNumeric>
+                {route.incomplete ? (
+                  <Tooltip label="Some costs are unknown - total only includes the known parts" hasArrow>
+                    <Text fontWeight="semibold" color="gray.500">{formatUSD(route.totalCost)}+</Text>
+                  </Tooltip>
+                ) : (
+                  <Text fontWeight="semibold">{formatUSD(route.totalCost)}</Text>
+                )}
+                <Text fontSize="xs" color="gray.500">{route.totalCostPercent.toFixed(3)}%</Text>
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  HStack,
+  Image,
+  Badge,
+  Link,
+  Tooltip,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { WithdrawalFeeRow } from '@/lib/types/calculator';
+import { formatAmount, formatUSD } from '@/lib/utils/formatters';
+
+interface WithdrawalFeeTableProps {
+  results: WithdrawalFeeRow[];
+  coin: string;
+  network: string | null;
+}
+
+export function WithdrawalFeeTable({ results, coin, network }: WithdrawalFeeTableProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  if (results.length === 0) {
+    return (
+      <Text color="gray.500" textAlign="center" py={8}>
+        {network
+          ? `No exchanges have ${coin} withdrawal fee data on ${network} yet`
+          : `No exchanges have ${coin} withdrawal fee data yet`}
+      </Text>
+    );
+  }
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>#</Th>
+            <Th>Exchange</Th>
+            <Th isNumeric>Fee</Th>
+            <Th isNumeric>Fee (USD)</Th>
+            <Th isNumeric>Minimum</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {results.map((result, index) => (
+            <Tr key={result.exchangeId} opacity={result.enabled ? 1 : 0.6}>
+              <Td>{index + 1}</Td>
+              <Td>
+                <HStack spacing={2}>
+                  <Image
+                    src={result.logo}
+                    alt={result.exchangeName}
+                    boxSize="20px"
+                    objectFit="contain"
+                    fallbackSrc="/logos/default.svg"
+                  />
+                  <Link href={result.url} isExternal fontWeight="semibold">
+                    {result.exchangeName}
+                  </Link>
+                  {!result.enabled && (
+                    <Tooltip label={`${coin} withdrawals on ${network} are currently suspended`} hasArrow>
+                      <Badge colorScheme="red" fontSize="xs">Suspended</Badge>
+                    </Tooltip>
+                  )}
+                </HStack>
+              </Td>
+              <Td isNumeric>
+                <Text fontWeight="semibold">{formatAmount(result.fee)} {coin}</Text>
+              </Td>
+              <Td isNumeric>
+                {result.feeUSD !== null ? formatUSD(result.feeUSD) : <Text color="gray.500">-</Text>}
+              </Td>
+              <Td isNumeric>
+                {result.minWithdrawal !== null
+                  ? `${formatAmount(result.minWithdrawal)} ${coin}`
+                  : <Text color="gray.500">-</Text>}
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
@@ -0,0 +1,37 @@
+import { Button, HStack, Tag, TagCloseButton, TagLabel, Wrap, WrapItem } from '@chakra-ui/react';
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  onClear: () => void;
+}
+
+interface ActiveFilterChipsProps {
+  chips: FilterChip[];
+  onClearAll: () => void;
+}
+
+// One removable chip per active filter, plus "Clear all"
+export function ActiveFilterChips({ chips, onClearAll }: ActiveFilterChipsProps) {
+  if (chips.length === 0) return null;
+
+  return (
+    <HStack spacing={2} align="center" mb={3}>
+      <Wrap spacing={2}>
+        {chips.map(chip => (
+          <WrapItem key={chip.key}>
+            <Tag size="md" borderRadius="full" variant="subtle" colorScheme="blue">
+              <TagLabel>{chip.label}</TagLabel>
+              <TagCloseButton aria-label={`Remove filter ${chip.label}`} onClick={chip.onClear} />
+            </Tag>
+          </WrapItem>
+        ))}
+        <WrapItem>
+          <Button size="xs" variant="ghost" onClick={onClearAll}>
+            Clear all
+          </Button>
+        </WrapItem>
+      </Wrap>
+    </HStack>
+  );
+}
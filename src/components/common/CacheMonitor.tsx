@@ -11,6 +11,9 @@ import {
   Divider
 } from '@chakra-ui/react';
 import { formatRelativeTime } from '@/lib/utils/formatters';
+import { JobProgressBar, JobWithProgress } from './JobProgressBar';
+
+const JOB_POLL_INTERVAL = 2000; // Live batch progress while a job is active
 
 interface CacheStatus {
   timestamp: string;
@@ -36,8 +39,15 @@ interface CacheStatus {
   };
 }
 
+interface JobsStatus {
+  jobs: JobWithProgress[];
+  active: { cex: string | null; dex: string | null };
+}
+
 export function CacheMonitor() {
   const [cacheStatus, setCacheStatus] = useState<CacheStatus | null>(null);
+  const [jobsStatus, setJobsStatus] = useState<JobsStatus | null>(null);
+  const [cancellingJobId, setCancellingJobId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { isOpen, onToggle } = useDisclosure();
 
@@ -54,12 +64,52 @@ export function CacheMonitor() {
     }
   };
 
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      const data = await response.json();
+      setJobsStatus(data);
+    } catch (error) {
+      console.error('Failed to fetch jobs:', error);
+    }
+  };
+
+  const cancelJob = async (id: string) => {
+    setCancellingJobId(id);
+    try {
+      await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      await fetchJobs();
+    } catch (error) {
+      console.error('Failed to cancel job:', error);
+    } finally {
+      setCancellingJobId(null);
+    }
+  };
+
   useEffect(() => {
     if (isOpen) {
       fetchCacheStatus();
+      fetchJobs();
     }
   }, [isOpen]);
 
+  // Poll job progress only while a job is pending or running
+  const hasActiveJob = !!(jobsStatus?.active.cex || jobsStatus?.active.dex);
+  useEffect(() => {
+    if (!isOpen || !hasActiveJob) return;
+
+    const interval = setInterval(fetchJobs, JOB_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isOpen, hasActiveJob]);
+
+  // Active job of a market, else its most recent one
+  const jobFor = (market: 'cex' | 'dex') => {
+    const activeId = jobsStatus?.active[market];
+    return jobsStatus?.jobs.find(job => (activeId ? job.id === activeId : job.market === market)) || null;
+  };
+  const cexJob = jobFor('cex');
+  const dexJob = jobFor('dex');
+
   // Only show in development
   if (process.env.NODE_ENV !== 'development') {
     return null;
@@ -89,7 +139,10 @@ export function CacheMonitor() {
             <Text fontWeight="bold" fontSize="sm">Cache Status</Text>
             <Button 
               size="xs" 
-              onClick={fetchCacheStatus} 
+              onClick={() => {
+                fetchCacheStatus();
+                fetchJobs();
+              }} 
               isLoading={isLoading}
               colorScheme="blue"
             >
@@ -132,6 +185,16 @@ export function CacheMonitor() {
                     <Text>{cacheStatus.cacheDurations.cexHours}h</Text>
                   </HStack>
                 </VStack>
+                {cexJob && (
+                  <Box mt={2}>
+                    <Text fontSize="xs" fontWeight="semibold" mb={1}>AI Enrichment Job</Text>
+                    <JobProgressBar
+                      job={cexJob}
+                      onCancel={cancelJob}
+                      isCancelling={cancellingJobId === cexJob.id}
+                    />
+                  </Box>
+                )}
               </Box>
 
               <Divider />
@@ -169,6 +232,16 @@ export function CacheMonitor() {
                     <Text>{cacheStatus.cacheDurations.dexHours}h</Text>
                   </HStack>
                 </VStack>
+                {dexJob && (
+                  <Box mt={2}>
+                    <Text fontSize="xs" fontWeight="semibold" mb={1}>AI Enrichment Job</Text>
+                    <JobProgressBar
+                      job={dexJob}
+                      onCancel={cancelJob}
+                      isCancelling={cancellingJobId === dexJob.id}
+                    />
+                  </Box>
+                )}
               </Box>
 
               <Text fontSize="xs" color="gray.600" mt={2}>
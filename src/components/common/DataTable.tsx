@@ -0,0 +1,69 @@
+import { ReactNode } from 'react';
+import { Box, Table, Thead, Tbody, Tr, Th, Td, HStack, Text, useColorModeValue } from '@chakra-ui/react';
+import { TriangleDownIcon, TriangleUpIcon } from '@chakra-ui/icons';
+import { SortDirection } from '@/lib/types/exchange';
+
+export interface DataTableColumn<T> {
+  id: string;
+  label: string;
+  isNumeric?: boolean;
+  sortable?: boolean; // Column id is a sort option
+  render: (item: T, index: number) => ReactNode;
+}
+
+interface DataTableProps<T> {
+  items: T[];
+  rowKey: (item: T) => string;
+  columns: DataTableColumn<T>[]; // In display order
+  sortBy?: string;
+  sortDirection?: SortDirection;
+  onSort?: (columnId: string) => void;
+}
+
+// Dense table with clickable sort headers - sorting itself happens in the caller
+export function DataTable<T>({ items, rowKey, columns, sortBy, sortDirection, onSort }: DataTableProps<T>) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+  const hoverBg = useColorModeValue('gray.50', 'gray.700');
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            {columns.map(column => {
+              const canSort = column.sortable && onSort;
+              const isSorted = canSort && sortBy === column.id;
+              return (
+                <Th
+                  key={column.id}
+                  isNumeric={column.isNumeric}
+                  cursor={canSort ? 'pointer' : undefined}
+                  userSelect="none"
+                  whiteSpace="nowrap"
+                  onClick={canSort ? () => onSort(column.id) : undefined}
+                  aria-sort={isSorted ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}
+                >
+                  <HStack spacing={1} justify={column.isNumeric ? 'flex-end' : 'flex-start'}>
+                    <Text as="span">{column.label}</Text>
+                    {isSorted && (sortDirection === 'asc' ? <TriangleUpIcon boxSize={2} /> : <TriangleDownIcon boxSize={2} />)}
+                  </HStack>
+                </Th>
+              );
+            })}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {items.map((item, index) => (
+            <Tr key={rowKey(item)} _hover={{ bg: hoverBg }}>
+              {columns.map(column => (
+                <Td key={column.id} isNumeric={column.isNumeric} whiteSpace="nowrap">
+                  {column.render(item, index)}
+                </Td>
+              ))}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
@@ -0,0 +1,82 @@
+import { Badge, Box, Button, HStack, Text, Tooltip, VStack } from '@chakra-ui/react';
+import type { Job, JobBatchStatus, JobProgress } from '@/lib/jobs/types';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+
+export type JobWithProgress = Job & { progress: JobProgress };
+
+interface JobProgressBarProps {
+  job: JobWithProgress;
+  onCancel?: (id: string) => void;
+  isCancelling?: boolean;
+}
+
+const BATCH_COLORS: Record<JobBatchStatus, string> = {
+  pending: 'gray.200',
+  running: 'blue.400',
+  succeeded: 'green.400',
+  failed: 'red.400',
+  cancelled: 'gray.400',
+};
+
+const STATUS_SCHEMES: Record<Job['status'], string> = {
+  pending: 'gray',
+  running: 'blue',
+  succeeded: 'green',
+  failed: 'red',
+  cancelled: 'orange',
+};
+
+// One segment per batch, colored by batch status
+export function JobProgressBar({ job, onCancel, isCancelling = false }: JobProgressBarProps) {
+  const { progress } = job;
+  const isActive = job.status === 'pending' || job.status === 'running';
+
+  return (
+    <VStack spacing={1} align="stretch" fontSize="xs">
+      <HStack justify="space-between">
+        <HStack spacing={2}>
+          <Badge colorScheme={STATUS_SCHEMES[job.status]} fontSize="xs">
+            {job.status}
+          </Badge>
+          <Text>
+            {progress.succeeded + progress.failed + progress.cancelled}/{progress.totalBatches} batches • {progress.percent}%
+          </Text>
+        </HStack>
+        {isActive && onCancel && (
+          <Button
+            size="xs"
+            variant="ghost"
+            colorScheme="red"
+            onClick={() => onCancel(job.id)}
+            isLoading={isCancelling}
+            isDisabled={job.cancelRequested}
+          >
+            {job.cancelRequested ? 'Cancelling' : 'Cancel'}
+          </Button>
+        )}
+      </HStack>
+
+      <HStack spacing="2px" h={2} role="progressbar" aria-valuenow={progress.percent} aria-valuemin={0} aria-valuemax={100}>
+        {job.batches.map(batch => (
+          <Tooltip
+            key={batch.index}
+            label={`Batch ${batch.index}: ${batch.status}${batch.attempts > 1 ? ` (${batch.attempts} attempts)` : ''}${
+              batch.error ? ` - ${batch.error}` : ''
+            }`}
+            fontSize="xs"
+          >
+            <Box flex={1} h="100%" borderRadius="sm" bg={BATCH_COLORS[batch.status]} />
+          </Tooltip>
+        ))}
+      </HStack>
+
+      <HStack justify="space-between" color="gray.600">
+        <Text>{job.id}</Text>
+        <Text>{formatRelativeTime(job.finishedAt || job.startedAt || job.createdAt)}</Text>
+      </HStack>
+      {job.error && (
+        <Text color="red.500">{job.error}</Text>
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { NumberInput, NumberInputField, NumberInputProps } from '@chakra-ui/react';
+
+interface OptionalNumberInputProps extends Omit<NumberInputProps, 'value' | 'onChange'> {
+  value: number | null;
+  onChange: (value: number | null) => void; // null when cleared
+  placeholder?: string;
+}
+
+/**
+ * Number input for an optional filter bound
+ *
+ * Keeps the typed text locally so partial input like "0." isn't reformatted
+ * while typing, and reports null when the field is cleared.
+ */
+export function OptionalNumberInput({ value, onChange, placeholder, ...props }: OptionalNumberInputProps) {
+  const [text, setText] = useState(value === null ? '' : String(value));
+
+  // Follow outside changes (reset, chip removed, back/forward)
+  useEffect(() => {
+    setText(current => (value === null ? '' : parseFloat(current) === value ? current : String(value)));
+  }, [value]);
+
+  return (
+    <NumberInput
+      {...props}
+      value={text}
+      onChange={(valueAsString, valueAsNumber) => {
+        setText(valueAsString);
+        if (valueAsString === '') {
+          onChange(null);
+        } else if (Number.isFinite(valueAsNumber)) {
+          onChange(valueAsNumber);
+        }
+      }}
+    >
+      <NumberInputField placeholder={placeholder} />
+    </NumberInput>
+  );
+}
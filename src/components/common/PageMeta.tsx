@@ -0,0 +1,27 @@
+import Head from 'next/head';
+import { SITE_NAME, SITE_URL } from '@/config/constants';
+
+interface PageMetaProps {
+  title: string;
+  description: string;
+  path: string; // e.g. '/exchange/binance'
+}
+
+// Per-page title, description, canonical URL and social tags (site-wide defaults live in _document)
+export function PageMeta({ title, description, path }: PageMetaProps) {
+  const fullTitle = `${title} | ${SITE_NAME}`;
+  const url = `${SITE_URL}${path}`;
+
+  return (
+    <Head>
+      <title>{fullTitle}</title>
+      <meta name="description" content={description} />
+      <link rel="canonical" href={url} />
+      <meta property="og:title" content={fullTitle} />
+      <meta property="og:description" content={description} />
+      <meta property="og:url" content={url} />
+      <meta name="twitter:title" content={fullTitle} />
+      <meta name="twitter:description" content={description} />
+    </Head>
+  );
+}
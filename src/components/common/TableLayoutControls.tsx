@@ -0,0 +1,107 @@
+import {
+  HStack,
+  VStack,
+  Button,
+  ButtonGroup,
+  IconButton,
+  Checkbox,
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+  PopoverBody,
+  PopoverArrow,
+  Text,
+} from '@chakra-ui/react';
+import { ChevronDownIcon, ChevronUpIcon, SettingsIcon } from '@chakra-ui/icons';
+import { ViewMode } from '@/lib/types/exchange';
+
+interface TableLayoutControlsProps {
+  columns: readonly { id: string; label: string }[];
+  view: ViewMode;
+  onViewChange: (view: ViewMode) => void;
+  order: string[];
+  hidden: string[];
+  onToggleColumn: (id: string) => void;
+  onMoveColumn: (id: string, offset: -1 | 1) => void;
+  onResetColumns: () => void;
+}
+
+// Grid/table toggle plus the show/hide/reorder column menu for the table view
+export function TableLayoutControls({
+  columns,
+  view,
+  onViewChange,
+  order,
+  hidden,
+  onToggleColumn,
+  onMoveColumn,
+  onResetColumns,
+}: TableLayoutControlsProps) {
+  const labelOf = (id: string) => columns.find(column => column.id === id)?.label || id;
+
+  return (
+    <HStack spacing={2} justify="flex-end">
+      {view === 'table' && (
+        <Popover placement="bottom-end">
+          <PopoverTrigger>
+            <Button size="sm" variant="outline" leftIcon={<SettingsIcon />}>
+              Columns
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent maxW="280px">
+            <PopoverArrow />
+            <PopoverBody>
+              <VStack align="stretch" spacing={1}>
+                {order.map((id, index) => (
+                  <HStack key={id} justify="space-between">
+                    <Checkbox isChecked={!hidden.includes(id)} onChange={() => onToggleColumn(id)}>
+                      <Text fontSize="sm">{labelOf(id)}</Text>
+                    </Checkbox>
+                    <HStack spacing={0}>
+                      <IconButton
+                        aria-label={`Move ${labelOf(id)} left`}
+                        icon={<ChevronUpIcon />}
+                        size="xs"
+                        variant="ghost"
+                        isDisabled={index === 0}
+                        onClick={() => onMoveColumn(id, -1)}
+                      />
+                      <IconButton
+                        aria-label={`Move ${labelOf(id)} right`}
+                        icon={<ChevronDownIcon />}
+                        size="xs"
+                        variant="ghost"
+                        isDisabled={index === order.length - 1}
+                        onClick={() => onMoveColumn(id, 1)}
+                      />
+                    </HStack>
+                  </HStack>
+                ))}
+                <Button size="xs" variant="ghost" alignSelf="start" mt={2} onClick={onResetColumns}>
+                  Reset columns
+                </Button>
+              </VStack>
+            </PopoverBody>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <ButtonGroup size="sm" isAttached variant="outline">
+        <Button
+          colorScheme={view === 'grid' ? 'blue' : 'gray'}
+          variant={view === 'grid' ? 'solid' : 'outline'}
+          onClick={() => onViewChange('grid')}
+        >
+          Cards
+        </Button>
+        <Button
+          colorScheme={view === 'table' ? 'blue' : 'gray'}
+          variant={view === 'table' ? 'solid' : 'outline'}
+          onClick={() => onViewChange('table')}
+        >
+          Table
+        </Button>
+      </ButtonGroup>
+    </HStack>
+  );
+}
@@ -0,0 +1,57 @@
+import { Box, Button, HStack, Text, useColorModeValue } from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { COMPARE_MAX_ITEMS, COMPARE_MIN_ITEMS } from '@/config/constants';
+import { ComparisonType } from '@/lib/types/exchange';
+import { getCompareHref } from '@/lib/utils/compare';
+
+interface CompareBarProps {
+  type: ComparisonType;
+  selectedIds: string[];
+  onClear: () => void;
+}
+
+// Sticky bar shown while exchanges are ticked for comparison
+export function CompareBar({ type, selectedIds, onClear }: CompareBarProps) {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  if (selectedIds.length === 0) return null;
+
+  const canCompare = selectedIds.length >= COMPARE_MIN_ITEMS;
+
+  return (
+    <Box
+      position="sticky"
+      bottom={4}
+      zIndex={5}
+      bg={bgColor}
+      borderWidth="1px"
+      borderColor={borderColor}
+      borderRadius="lg"
+      boxShadow="lg"
+      p={3}
+    >
+      <HStack justify="space-between" flexWrap="wrap" spacing={3}>
+        <Text fontSize="sm">
+          {selectedIds.length} of {COMPARE_MAX_ITEMS} selected
+          {!canCompare && ` • select at least ${COMPARE_MIN_ITEMS} to compare`}
+        </Text>
+        <HStack spacing={2}>
+          <Button size="sm" variant="ghost" onClick={onClear}>
+            Clear
+          </Button>
+          <Button
+            as={NextLink}
+            href={getCompareHref(type, selectedIds)}
+            size="sm"
+            colorScheme={type === 'dex' ? 'purple' : 'blue'}
+            isDisabled={!canCompare}
+            pointerEvents={canCompare ? undefined : 'none'}
+          >
+            Compare side by side
+          </Button>
+        </HStack>
+      </HStack>
+    </Box>
+  );
+}
@@ -0,0 +1,127 @@
+import { Fragment } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  Image,
+  VStack,
+  Link,
+  Badge,
+  IconButton,
+  Tooltip,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { CloseIcon } from '@chakra-ui/icons';
+import { ComparisonRow } from '@/lib/types/exchange';
+import { getBestIndexes } from '@/lib/utils/compare';
+import { formatAmount, formatFee, formatUSD } from '@/lib/utils/formatters';
+
+export interface ComparisonColumn {
+  id: string;
+  name: string;
+  logo: string;
+  href: string;
+}
+
+interface ComparisonTableProps {
+  columns: ComparisonColumn[];
+  rows: ComparisonRow[];
+  onRemove?: (id: string) => void;
+}
+
+function formatValue(row: ComparisonRow, value: number): string {
+  switch (row.format) {
+    case 'fee': return formatFee(value);
+    case 'usd': return formatUSD(value);
+    case 'amount': return `${formatAmount(value)} ${row.unit || ''}`.trim();
+    case 'score': return `${value}/10`;
+  }
+}
+
+export function ComparisonTable({ columns, rows, onRemove }: ComparisonTableProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+  const sectionBg = useColorModeValue('gray.50', 'gray.900');
+  const bestBg = useColorModeValue('green.50', 'green.900');
+
+  const sections = Array.from(new Set(rows.map(row => row.section)));
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th minW="160px" />
+            {columns.map(column => (
+              <Th key={column.id} textAlign="center" textTransform="none" minW="140px">
+                <VStack spacing={1} position="relative">
+                  {onRemove && (
+                    <Tooltip label="Remove from comparison" hasArrow>
+                      <IconButton
+                        aria-label={`Remove ${column.name}`}
+                        icon={<CloseIcon boxSize={2} />}
+                        size="xs"
+                        variant="ghost"
+                        position="absolute"
+                        top={0}
+                        right={0}
+                        onClick={() => onRemove(column.id)}
+                      />
+                    </Tooltip>
+                  )}
+                  <Image src={column.logo} alt={column.name} boxSize="32px" objectFit="contain" fallbackSrc="/logos/default.svg" />
+                  <Link as={NextLink} href={column.href} fontSize="sm" fontWeight="bold" color="blue.500">
+                    {column.name}
+                  </Link>
+                </VStack>
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {sections.map(section => (
+            <Fragment key={section}>
+              <Tr bg={sectionBg}>
+                <Td colSpan={columns.length + 1} fontWeight="bold" fontSize="xs" textTransform="uppercase" color="gray.500">
+                  {section}
+                </Td>
+              </Tr>
+              {rows.filter(row => row.section === section).map(row => {
+                const best = getBestIndexes(row);
+                return (
+                  <Tr key={`${section}-${row.label}`}>
+                    <Td fontWeight="semibold">{row.label}</Td>
+                    {row.values.map((value, index) => {
+                      const isBest = best.includes(index);
+                      return (
+                        <Td
+                          key={columns[index].id}
+                          textAlign="center"
+                          bg={isBest ? bestBg : undefined}
+                          fontWeight={isBest ? 'bold' : undefined}
+                          color={value === null ? 'gray.500' : isBest ? 'green.500' : undefined}
+                          opacity={row.disabled?.[index] ? 0.6 : 1}
+                        >
+                          {value === null ? 'N/A' : formatValue(row, value)}
+                          {row.disabled?.[index] && <Badge ml={2} colorScheme="red" fontSize="xs">Suspended</Badge>}
+                        </Td>
+                      );
+                    })}
+                  </Tr>
+                );
+              })}
+            </Fragment>
+          ))}
+        </Tbody>
+      </Table>
+      <Text fontSize="xs" color="gray.500" p={3}>
+        Highlighted: lowest fee per row (highest for trust score, TVL and volume). N/A means no data has been collected yet.
+      </Text>
+    </Box>
+  );
+}
@@ -8,129 +8,153 @@ import {
   VStack,
   useColorModeValue,
   Tooltip,
+  Checkbox,
   Wrap,
   WrapItem,
 } from '@chakra-ui/react';
+import NextLink from 'next/link';
 import { motion } from 'framer-motion';
+import { COMPARE_MAX_ITEMS } from '@/config/constants';
 import { DEXFees } from '@/lib/types/exchange';
 import { formatFee, formatUSD } from '@/lib/utils/formatters';
+import { FeeSourceLabel } from './FeeSourceLabel';
 
 const MotionBox = motion(Box);
 
+export function getProtocolColor(protocol: string): string {
+  switch (protocol) {
+    case 'AMM': return 'green';
+    case 'Aggregator': return 'purple';
+    case 'Order Book': return 'blue';
+    default: return 'gray';
+  }
+}
+
 interface DEXCardProps {
   dex: DEXFees;
   rank?: number;
+  isSelected?: boolean;
+  compareDisabled?: boolean;
+  onToggleCompare?: () => void; // Shows the compare checkbox when set
 }
 
-export function DEXCard({ dex, rank }: DEXCardProps) {
+export function DEXCard({ dex, rank, isSelected = false, compareDisabled = false, onToggleCompare }: DEXCardProps) {
   const bgColor = useColorModeValue('white', 'gray.800');
   const borderColor = useColorModeValue('gray.200', 'gray.700');
   const hoverBg = useColorModeValue('gray.50', 'gray.700');
 
-  const getProtocolColor = (protocol: string) => {
-    switch (protocol) {
-      case 'AMM': return 'green';
-      case 'Aggregator': return 'purple';
-      case 'Order Book': return 'blue';
-      default: return 'gray';
-    }
-  };
-
   return (
-    <MotionBox
-      as={dex.url ? "a" : "div"}
-      href={dex.url || undefined}
-      target={dex.url ? "_blank" : undefined}
-      rel={dex.url ? "noopener noreferrer" : undefined}
-      bg={bgColor}
-      borderWidth="1px"
-      borderColor={borderColor}
-      borderRadius="lg"
-      p={4}
-      cursor={dex.url ? "pointer" : "default"}
-      transition="all 0.2s"
-      whileHover={dex.url ? { scale: 1.02 } : {}}
-      whileTap={dex.url ? { scale: 0.98 } : {}}
-      _hover={dex.url ? { bg: hoverBg, shadow: 'md' } : {}}
-    >
-      <Flex gap={4}>
-        {/* Logo & Rank */}
-        <VStack spacing={1}>
-          {rank && (
-            <Badge colorScheme="blue" fontSize="xs">
-              #{rank}
-            </Badge>
-          )}
-          <Image
-            src={dex.logo}
-            alt={dex.dexName}
-            boxSize="48px"
-            objectFit="contain"
-            fallbackSrc="/logos/default.svg"
-          />
-        </VStack>
+    <Box position="relative" h="100%">
+      <MotionBox
+        as={NextLink}
+        href={`/dex/${encodeURIComponent(dex.dexId)}`}
+        display="block"
+        bg={bgColor}
+        borderWidth="1px"
+        borderColor={isSelected ? 'blue.400' : borderColor}
+        borderRadius="lg"
+        p={4}
+        pr={onToggleCompare ? 10 : 4}
+        cursor="pointer"
+        transition="all 0.2s"
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        h="100%"
+        _hover={{ bg: hoverBg, shadow: 'md' }}
+      >
+        <Flex gap={4}>
+          {/* Logo & Rank */}
+          <VStack spacing={1}>
+            {rank && (
+              <Badge colorScheme="blue" fontSize="xs">
+                #{rank}
+              </Badge>
+            )}
+            <Image
+              src={dex.logo}
+              alt={dex.dexName}
+              boxSize="48px"
+              objectFit="contain"
+              fallbackSrc="/logos/default.svg"
+            />
+          </VStack>
 
-        {/* DEX Info */}
-        <VStack align="start" flex={1} spacing={2}>
-          <Text fontWeight="bold" fontSize="lg" noOfLines={1}>
-            {dex.dexName}
-          </Text>
+          {/* DEX Info */}
+          <VStack align="start" flex={1} spacing={2}>
+            <Text fontWeight="bold" fontSize="lg" noOfLines={1}>
+              {dex.dexName}
+            </Text>
           
-          <HStack spacing={4} fontSize="sm" flexWrap="wrap">
-            <Tooltip label="Swap Fee" hasArrow>
-              <Text>
-                Fee: <Text 
-                  as="span" 
-                  fontWeight="semibold" 
-                  color={dex.swapFee !== null ? "green.500" : "gray.500"}
-                  fontStyle={dex.swapFee === null ? "italic" : "normal"}
-                >
-                  {formatFee(dex.swapFee)}
+            <HStack spacing={4} fontSize="sm" flexWrap="wrap">
+              <Tooltip label={<FeeSourceLabel label="Swap Fee" source={dex.feeSources?.swapFee} />} hasArrow>
+                <Text>
+                  Fee: <Text 
+                    as="span" 
+                    fontWeight="semibold" 
+                    color={dex.swapFee !== null ? "green.500" : "gray.500"}
+                    fontStyle={dex.swapFee === null ? "italic" : "normal"}
+                  >
+                    {formatFee(dex.swapFee)}
+                  </Text>
                 </Text>
-              </Text>
-            </Tooltip>
+              </Tooltip>
             
-            <Tooltip label="Total Value Locked (Liquidity)" hasArrow>
-              <Text fontSize="xs">
-                TVL: <Text as="span" fontWeight="semibold" color="blue.500">
-                  {dex.liquidityUSD > 0 ? formatUSD(dex.liquidityUSD) : 'N/A'}
+              <Tooltip label="Total Value Locked (Liquidity)" hasArrow>
+                <Text fontSize="xs">
+                  TVL: <Text as="span" fontWeight="semibold" color="blue.500">
+                    {dex.liquidityUSD > 0 ? formatUSD(dex.liquidityUSD) : 'N/A'}
+                  </Text>
                 </Text>
-              </Text>
-            </Tooltip>
-          </HStack>
-
-          <HStack spacing={2} flexWrap="wrap">
-            <Badge colorScheme={getProtocolColor(dex.protocol)}>
-              {dex.protocol}
-            </Badge>
-            {dex.volume24h > 0 && (
-              <Tooltip label="24h Volume" hasArrow>
-                <Badge colorScheme="cyan" fontSize="xs">
-                  Vol: {formatUSD(dex.volume24h)}
-                </Badge>
               </Tooltip>
-            )}
-          </HStack>
+            </HStack>
 
-          {/* Blockchains */}
-          <Wrap spacing={1}>
-            {dex.blockchain.slice(0, 3).map((chain) => (
-              <WrapItem key={chain}>
-                <Badge size="sm" fontSize="xs" colorScheme="gray">
-                  {chain}
-                </Badge>
-              </WrapItem>
-            ))}
-            {dex.blockchain.length > 3 && (
-              <WrapItem>
-                <Badge size="sm" fontSize="xs" colorScheme="gray">
-                  +{dex.blockchain.length - 3}
-                </Badge>
-              </WrapItem>
-            )}
-          </Wrap>
-        </VStack>
-      </Flex>
-    </MotionBox>
+            <HStack spacing={2} flexWrap="wrap">
+              <Badge colorScheme={getProtocolColor(dex.protocol)}>
+                {dex.protocol}
+              </Badge>
+              {dex.volume24h > 0 && (
+                <Tooltip label="24h Volume" hasArrow>
+                  <Badge colorScheme="cyan" fontSize="xs">
+                    Vol: {formatUSD(dex.volume24h)}
+                  </Badge>
+                </Tooltip>
+              )}
+            </HStack>
+
+            {/* Blockchains */}
+            <Wrap spacing={1}>
+              {dex.blockchain.slice(0, 3).map((chain) => (
+                <WrapItem key={chain}>
+                  <Badge size="sm" fontSize="xs" colorScheme="gray">
+                    {chain}
+                  </Badge>
+                </WrapItem>
+              ))}
+              {dex.blockchain.length > 3 && (
+                <WrapItem>
+                  <Badge size="sm" fontSize="xs" colorScheme="gray">
+                    +{dex.blockchain.length - 3}
+                  </Badge>
+                </WrapItem>
+              )}
+            </Wrap>
+          </VStack>
+        </Flex>
+      </MotionBox>
+
+      {/* Outside the link so ticking the box doesn't open the detail page */}
+      {onToggleCompare && (
+        <Tooltip label={compareDisabled && !isSelected ? `Compare up to ${COMPARE_MAX_ITEMS} at a time` : 'Compare'} hasArrow>
+          <Box position="absolute" top={3} right={3} zIndex={1}>
+            <Checkbox
+              aria-label={`Compare ${dex.dexName}`}
+              isChecked={isSelected}
+              isDisabled={compareDisabled && !isSelected}
+              onChange={onToggleCompare}
+            />
+          </Box>
+        </Tooltip>
+      )}
+    </Box>
   );
 }
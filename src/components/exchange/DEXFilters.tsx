@@ -7,15 +7,38 @@ import {
   InputGroup,
   InputLeftElement,
   Text,
+  Badge,
+  Collapse,
+  Wrap,
+  WrapItem,
+  FormControl,
+  FormLabel,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuOptionGroup,
+  MenuItemOption,
+  Checkbox,
+  CheckboxGroup,
+  Switch,
+  useDisclosure,
   useColorModeValue,
 } from '@chakra-ui/react';
-import { SearchIcon } from '@chakra-ui/icons';
+import { ChevronDownIcon, SearchIcon } from '@chakra-ui/icons';
+import { ActiveFilterChips, FilterChip } from '@/components/common/ActiveFilterChips';
+import { OptionalNumberInput } from '@/components/common/OptionalNumberInput';
+import { DEX_PROTOCOLS } from '@/config/constants';
+import { DEXAdvancedFilters, DEXFees, DEXSortOption } from '@/lib/types/exchange';
+import { formatUSD } from '@/lib/utils/formatters';
 
 interface DEXFiltersProps {
   searchQuery: string;
   onSearchChange: (value: string) => void;
-  sortBy: 'name' | 'swapFee' | 'volume' | 'liquidity';
-  onSortChange: (value: 'name' | 'swapFee' | 'volume' | 'liquidity') => void;
+  sortBy: DEXSortOption;
+  onSortChange: (value: DEXSortOption) => void;
+  advancedFilters?: DEXAdvancedFilters;
+  onAdvancedFiltersChange?: (update: Partial<DEXAdvancedFilters>) => void;
+  chainOptions?: string[];
   onReset: () => void;
   totalCount?: number;
   displayedCount?: number;
@@ -26,11 +49,17 @@ export function DEXFilters({
   onSearchChange,
   sortBy,
   onSortChange,
+  advancedFilters,
+  onAdvancedFiltersChange,
+  chainOptions = [],
   onReset,
   totalCount,
   displayedCount,
 }: DEXFiltersProps) {
   const borderColor = useColorModeValue('gray.200', 'gray.700');
+  const chips = getFilterChips(searchQuery, onSearchChange, advancedFilters, onAdvancedFiltersChange);
+  const activeAdvancedCount = chips.filter(chip => chip.key !== 'search').length;
+  const { isOpen, onToggle } = useDisclosure({ defaultIsOpen: activeAdvancedCount > 0 });
 
   return (
     <Box mb={6} p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
@@ -49,7 +78,7 @@ export function DEXFilters({
         <Select
           maxW={{ base: '100%', md: '220px' }}
           value={sortBy}
-          onChange={(e) => onSortChange(e.target.value as any)}
+          onChange={(e) => onSortChange(e.target.value as DEXSortOption)}
         >
           <option value="liquidity">Liquidity (High to Low)</option>
           <option value="volume">Volume (High to Low)</option>
@@ -57,11 +86,26 @@ export function DEXFilters({
           <option value="swapFee">Swap Fee (Low to High)</option>
         </Select>
 
+        {advancedFilters && onAdvancedFiltersChange && (
+          <Button variant="ghost" rightIcon={<ChevronDownIcon />} onClick={onToggle}>
+            More filters
+            {activeAdvancedCount > 0 && <Badge ml={2} colorScheme="purple">{activeAdvancedCount}</Badge>}
+          </Button>
+        )}
+
         <Button variant="outline" onClick={onReset}>
           Reset
         </Button>
       </HStack>
 
+      {advancedFilters && onAdvancedFiltersChange && (
+        <Collapse in={isOpen} animateOpacity>
+          <AdvancedFilters filters={advancedFilters} onChange={onAdvancedFiltersChange} chainOptions={chainOptions} />
+        </Collapse>
+      )}
+
+      <ActiveFilterChips chips={chips} onClearAll={onReset} />
+
       {totalCount !== undefined && displayedCount !== undefined && (
         <Text fontSize="sm" color="gray.600">
           Showing {displayedCount} of {totalCount} DEX exchanges
@@ -70,3 +114,139 @@ export function DEXFilters({
     </Box>
   );
 }
+
+interface AdvancedFiltersProps {
+  filters: DEXAdvancedFilters;
+  onChange: (update: Partial<DEXAdvancedFilters>) => void;
+  chainOptions: string[];
+}
+
+function AdvancedFilters({ filters, onChange, chainOptions }: AdvancedFiltersProps) {
+  return (
+    <Wrap spacing={4} mb={3} align="end">
+      <WrapItem>
+        <FormControl w="180px">
+          <FormLabel fontSize="sm">Chain</FormLabel>
+          <Menu closeOnSelect={false}>
+            <MenuButton as={Button} variant="outline" rightIcon={<ChevronDownIcon />} w="100%" fontWeight="normal">
+              {filters.chains.length === 0 ? 'Any' : `${filters.chains.length} selected`}
+            </MenuButton>
+            <MenuList maxH="300px" overflowY="auto">
+              <MenuOptionGroup
+                type="checkbox"
+                value={filters.chains}
+                onChange={value => onChange({ chains: Array.isArray(value) ? value : [value] })}
+              >
+                {chainOptions.map(chain => (
+                  <MenuItemOption key={chain} value={chain}>
+                    {chain}
+                  </MenuItemOption>
+                ))}
+              </MenuOptionGroup>
+            </MenuList>
+          </Menu>
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl>
+          <FormLabel fontSize="sm">Protocol</FormLabel>
+          <CheckboxGroup
+            value={filters.protocols}
+            onChange={value => onChange({ protocols: value as DEXFees['protocol'][] })}
+          >
+            <HStack spacing={4} h={10}>
+              {DEX_PROTOCOLS.map(protocol => (
+                <Checkbox key={protocol} value={protocol}>
+                  {protocol}
+                </Checkbox>
+              ))}
+            </HStack>
+          </CheckboxGroup>
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl w="160px">
+          <FormLabel fontSize="sm">Min TVL (USD)</FormLabel>
+          <OptionalNumberInput
+            min={0}
+            step={1000000}
+            value={filters.minLiquidityUSD}
+            onChange={value => onChange({ minLiquidityUSD: value })}
+            placeholder="any"
+          />
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl w="160px">
+          <FormLabel fontSize="sm">Min 24h volume (USD)</FormLabel>
+          <OptionalNumberInput
+            min={0}
+            step={100000}
+            value={filters.minVolume24h}
+            onChange={value => onChange({ minVolume24h: value })}
+            placeholder="any"
+          />
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl display="flex" alignItems="center" h={10}>
+          <Switch
+            id="only-with-swap-fee"
+            colorScheme="purple"
+            isChecked={filters.onlyWithSwapFee}
+            onChange={e => onChange({ onlyWithSwapFee: e.target.checked })}
+            mr={2}
+          />
+          <FormLabel htmlFor="only-with-swap-fee" fontSize="sm" mb={0}>
+            Has swap fee data
+          </FormLabel>
+        </FormControl>
+      </WrapItem>
+    </Wrap>
+  );
+}
+
+// Chips for the search and every active advanced filter
+function getFilterChips(
+  searchQuery: string,
+  onSearchChange: (value: string) => void,
+  filters: DEXAdvancedFilters | undefined,
+  onChange: ((update: Partial<DEXAdvancedFilters>) => void) | undefined
+): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  if (searchQuery) {
+    chips.push({ key: 'search', label: `Search: ${searchQuery}`, onClear: () => onSearchChange('') });
+  }
+  if (!filters || !onChange) return chips;
+
+  filters.chains.forEach(chain => {
+    chips.push({
+      key: `chain-${chain}`,
+      label: chain,
+      onClear: () => onChange({ chains: filters.chains.filter(selected => selected !== chain) }),
+    });
+  });
+  filters.protocols.forEach(protocol => {
+    chips.push({
+      key: `protocol-${protocol}`,
+      label: protocol,
+      onClear: () => onChange({ protocols: filters.protocols.filter(selected => selected !== protocol) }),
+    });
+  });
+  if (filters.minLiquidityUSD !== null) {
+    chips.push({ key: 'tvl', label: `TVL ≥ ${formatUSD(filters.minLiquidityUSD)}`, onClear: () => onChange({ minLiquidityUSD: null }) });
+  }
+  if (filters.minVolume24h !== null) {
+    chips.push({ key: 'volume', label: `Volume ≥ ${formatUSD(filters.minVolume24h)}`, onClear: () => onChange({ minVolume24h: null }) });
+  }
+  if (filters.onlyWithSwapFee) {
+    chips.push({ key: 'swap-fee', label: 'Has swap fee data', onClear: () => onChange({ onlyWithSwapFee: false }) });
+  }
+
+  return chips;
+}
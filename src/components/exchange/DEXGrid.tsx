@@ -1,7 +1,8 @@
 import { SimpleGrid, Box, Text, Button, VStack, Spinner, HStack, Progress, Alert, AlertIcon } from '@chakra-ui/react';
 import { DEXCard } from './DEXCard';
+import { DEXTable } from './DEXTable';
 import { ExchangeGridSkeleton } from './ExchangeSkeleton';
-import { DEXFees } from '@/lib/types/exchange';
+import { DEXFees, DEXSortOption, SortDirection, ViewMode } from '@/lib/types/exchange';
 
 interface DEXGridProps {
   dexes: DEXFees[];
@@ -11,6 +12,14 @@ interface DEXGridProps {
   hasMore?: boolean;
   onLoadMore?: () => void;
   progress?: number;
+  selectedIds?: string[];
+  compareFull?: boolean;
+  onToggleCompare?: (id: string) => void;
+  view?: ViewMode;
+  columns?: string[]; // Visible table columns
+  sortBy?: DEXSortOption;
+  sortDirection?: SortDirection;
+  onSort?: (sortBy: DEXSortOption) => void;
 }
 
 export function DEXGrid({
@@ -21,6 +30,14 @@ export function DEXGrid({
   hasMore,
   onLoadMore,
   progress = 0,
+  selectedIds = [],
+  compareFull = false,
+  onToggleCompare,
+  view = 'grid',
+  columns = [],
+  sortBy,
+  sortDirection,
+  onSort,
 }: DEXGridProps) {
   // Show skeleton loader only on initial load
   if (isLoading && dexes.length === 0) {
@@ -50,15 +67,31 @@ export function DEXGrid({
 
   return (
     <VStack spacing={6} align="stretch">
-      <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing={6}>
-        {dexes.map((dex, index) => (
-          <DEXCard
-            key={dex.dexId}
-            dex={dex}
-            rank={index + 1}
-          />
-        ))}
-      </SimpleGrid>
+      {view === 'table' ? (
+        <DEXTable
+          dexes={dexes}
+          columns={columns}
+          sortBy={sortBy}
+          sortDirection={sortDirection}
+          onSort={onSort}
+          selectedIds={selectedIds}
+          compareFull={compareFull}
+          onToggleCompare={onToggleCompare}
+        />
+      ) : (
+        <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing={6}>
+          {dexes.map((dex, index) => (
+            <DEXCard
+              key={dex.dexId}
+              dex={dex}
+              rank={index + 1}
+              isSelected={selectedIds.includes(dex.dexId)}
+              compareDisabled={compareFull}
+              onToggleCompare={onToggleCompare && (() => onToggleCompare(dex.dexId))}
+            />
+          ))}
+        </SimpleGrid>
+      )}
 
       {/* Background AI processing indicator */}
       {backgroundLoading && (
@@ -0,0 +1,106 @@
+import NextLink from 'next/link';
+import { Badge, Checkbox, HStack, Image, Link, Text } from '@chakra-ui/react';
+import { DataTable, DataTableColumn } from '@/components/common/DataTable';
+import { COMPARE_MAX_ITEMS, DEX_TABLE_COLUMNS } from '@/config/constants';
+import { DEXFees, DEXSortOption, SortDirection } from '@/lib/types/exchange';
+import { formatFee, formatUSD } from '@/lib/utils/formatters';
+import { getProtocolColor } from './DEXCard';
+
+interface DEXTableProps {
+  dexes: DEXFees[];
+  columns: string[]; // Visible DEX_TABLE_COLUMNS ids in display order
+  sortBy?: DEXSortOption;
+  sortDirection?: SortDirection;
+  onSort?: (sortBy: DEXSortOption) => void;
+  selectedIds?: string[];
+  compareFull?: boolean;
+  onToggleCompare?: (id: string) => void;
+}
+
+const RENDERERS: Record<string, Omit<DataTableColumn<DEXFees>, 'id' | 'label'>> = {
+  swapFee: {
+    isNumeric: true,
+    sortable: true,
+    render: d => (
+      <Text as="span" color={d.swapFee === null ? 'gray.500' : undefined} fontStyle={d.swapFee === null ? 'italic' : 'normal'}>
+        {formatFee(d.swapFee)}
+      </Text>
+    ),
+  },
+  protocol: { render: d => <Badge colorScheme={getProtocolColor(d.protocol)}>{d.protocol}</Badge> },
+  chains: {
+    render: d => (
+      <Text as="span" fontSize="xs" title={d.blockchain.join(', ')}>
+        {d.blockchain.slice(0, 3).join(', ')}
+        {d.blockchain.length > 3 && ` +${d.blockchain.length - 3}`}
+      </Text>
+    ),
+  },
+  liquidity: { isNumeric: true, sortable: true, render: d => (d.liquidityUSD > 0 ? formatUSD(d.liquidityUSD) : 'N/A') },
+  volume: { isNumeric: true, sortable: true, render: d => (d.volume24h > 0 ? formatUSD(d.volume24h) : 'N/A') },
+};
+
+export function DEXTable({
+  dexes,
+  columns,
+  sortBy,
+  sortDirection,
+  onSort,
+  selectedIds = [],
+  compareFull = false,
+  onToggleCompare,
+}: DEXTableProps) {
+  const tableColumns: DataTableColumn<DEXFees>[] = [];
+
+  if (onToggleCompare) {
+    tableColumns.push({
+      id: 'compare',
+      label: '',
+      render: d => {
+        const isSelected = selectedIds.includes(d.dexId);
+        return (
+          <Checkbox
+            aria-label={`Compare ${d.dexName}`}
+            title={compareFull && !isSelected ? `Compare up to ${COMPARE_MAX_ITEMS} at a time` : 'Compare'}
+            isChecked={isSelected}
+            isDisabled={compareFull && !isSelected}
+            onChange={() => onToggleCompare(d.dexId)}
+          />
+        );
+      },
+    });
+  }
+
+  tableColumns.push({
+    id: 'name',
+    label: 'DEX',
+    sortable: true,
+    render: (d, index) => (
+      <HStack spacing={2}>
+        <Text as="span" fontSize="xs" color="gray.500" minW="24px">#{index + 1}</Text>
+        <Image src={d.logo} alt={d.dexName} boxSize="20px" objectFit="contain" fallbackSrc="/logos/default.svg" />
+        <Link as={NextLink} href={`/dex/${encodeURIComponent(d.dexId)}`} fontWeight="semibold">
+          {d.dexName}
+        </Link>
+      </HStack>
+    ),
+  });
+
+  columns.forEach(id => {
+    const column = DEX_TABLE_COLUMNS.find(c => c.id === id);
+    if (column && RENDERERS[id]) {
+      tableColumns.push({ id, label: column.label, ...RENDERERS[id] });
+    }
+  });
+
+  return (
+    <DataTable
+      items={dexes}
+      rowKey={d => d.dexId}
+      columns={tableColumns}
+      sortBy={sortBy}
+      sortDirection={sortDirection}
+      onSort={onSort && (id => onSort(id as DEXSortOption))}
+    />
+  );
+}
@@ -8,110 +8,184 @@ import {
   VStack,
   useColorModeValue,
   Tooltip,
+  Checkbox,
 } from '@chakra-ui/react';
+import NextLink from 'next/link';
 import { motion } from 'framer-motion';
-import { CEXFees } from '@/lib/types/exchange';
+import { COMPARE_MAX_ITEMS } from '@/config/constants';
+import { CEXFees, MarketType } from '@/lib/types/exchange';
 import { formatFee, formatVolume } from '@/lib/utils/formatters';
+import { getMarketCEXFees } from '@/lib/utils/fee-tiers';
+import { FeeSourceLabel } from './FeeSourceLabel';
+import { FeeTierList } from './FeeTierList';
 
 const MotionBox = motion(Box);
 
 interface ExchangeCardProps {
   exchange: CEXFees;
   rank?: number;
+  marketType?: MarketType;
+  monthlyVolume?: number; // 30-day volume in USD - spot fees shown for the tier reached
+  useTokenDiscount?: boolean; // Spot fees shown with the exchange-token discount
+  isSelected?: boolean;
+  compareDisabled?: boolean;
+  onToggleCompare?: () => void; // Shows the compare checkbox when set
 }
 
-export function ExchangeCard({ exchange, rank }: ExchangeCardProps) {
+export function ExchangeCard({
+  exchange,
+  rank,
+  marketType = 'spot',
+  monthlyVolume = 0,
+  useTokenDiscount = false,
+  isSelected = false,
+  compareDisabled = false,
+  onToggleCompare,
+}: ExchangeCardProps) {
   const bgColor = useColorModeValue('white', 'gray.800');
   const borderColor = useColorModeValue('gray.200', 'gray.700');
   const hoverBg = useColorModeValue('gray.50', 'gray.700');
 
+  const isFutures = marketType === 'futures';
+  const { makerFee, takerFee, tier, tokenDiscount } = getMarketCEXFees(exchange, marketType, monthlyVolume, useTokenDiscount);
+  const feeTiers = isFutures ? [] : exchange.feeTiers || [];
+  const sources = exchange.feeSources;
+  // Tier fees come from the tier schedule source
+  const makerSource = isFutures ? sources?.futuresMakerFee : tier?.makerFee != null ? sources?.feeTiers : sources?.makerFee;
+  const takerSource = isFutures ? sources?.futuresTakerFee : tier?.takerFee != null ? sources?.feeTiers : sources?.takerFee;
+  const feeLabel = isFutures ? 'Futures ' : '';
+
   return (
-    <MotionBox
-      as="a"
-      href={exchange.url}
-      target="_blank"
-      rel="noopener noreferrer"
-      bg={bgColor}
-      borderWidth="1px"
-      borderColor={borderColor}
-      borderRadius="lg"
-      p={4}
-      cursor="pointer"
-      transition="all 0.2s"
-      whileHover={{ scale: 1.02 }}
-      whileTap={{ scale: 0.98 }}
-      _hover={{ bg: hoverBg, shadow: 'md' }}
-    >
-      <Flex gap={4}>
-        {/* Logo & Rank */}
-        <VStack spacing={1}>
-          {rank && (
-            <Badge colorScheme="blue" fontSize="xs">
-              #{rank}
-            </Badge>
-          )}
-          <Image
-            src={exchange.logo}
-            alt={exchange.exchangeName}
-            boxSize="48px"
-            objectFit="contain"
-            fallbackSrc="/logos/default.svg"
-          />
-        </VStack>
+    <Box position="relative" h="100%">
+      <MotionBox
+        as={NextLink}
+        href={`/exchange/${encodeURIComponent(exchange.exchangeId)}`}
+        display="block"
+        bg={bgColor}
+        borderWidth="1px"
+        borderColor={isSelected ? 'blue.400' : borderColor}
+        borderRadius="lg"
+        p={4}
+        pr={onToggleCompare ? 10 : 4}
+        cursor="pointer"
+        transition="all 0.2s"
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        h="100%"
+        _hover={{ bg: hoverBg, shadow: 'md' }}
+      >
+        <Flex gap={4}>
+          {/* Logo & Rank */}
+          <VStack spacing={1}>
+            {rank && (
+              <Badge colorScheme="blue" fontSize="xs">
+                #{rank}
+              </Badge>
+            )}
+            <Image
+              src={exchange.logo}
+              alt={exchange.exchangeName}
+              boxSize="48px"
+              objectFit="contain"
+              fallbackSrc="/logos/default.svg"
+            />
+          </VStack>
 
-        {/* Exchange Info */}
-        <VStack align="start" flex={1} spacing={2}>
-          <Text fontWeight="bold" fontSize="lg" noOfLines={1}>
-            {exchange.exchangeName}
-          </Text>
+          {/* Exchange Info */}
+          <VStack align="start" flex={1} spacing={2}>
+            <Text fontWeight="bold" fontSize="lg" noOfLines={1}>
+              {exchange.exchangeName}
+            </Text>
           
-          <HStack spacing={4} fontSize="sm" flexWrap="wrap">
-            <Tooltip label="Maker Fee" hasArrow>
-              <Text>
-                Maker: <Text 
-                  as="span" 
-                  fontWeight="semibold" 
-                  color={exchange.makerFee !== null ? "green.500" : "gray.500"}
-                  fontStyle={exchange.makerFee === null ? "italic" : "normal"}
-                >
-                  {formatFee(exchange.makerFee)}
+            <HStack spacing={4} fontSize="sm" flexWrap="wrap">
+              <Tooltip label={<FeeSourceLabel label={`${feeLabel}Maker Fee`} source={makerSource} />} hasArrow>
+                <Text>
+                  Maker: <Text 
+                    as="span" 
+                    fontWeight="semibold" 
+                    color={makerFee !== null ? "green.500" : "gray.500"}
+                    fontStyle={makerFee === null ? "italic" : "normal"}
+                  >
+                    {formatFee(makerFee)}
+                  </Text>
                 </Text>
-              </Text>
-            </Tooltip>
+              </Tooltip>
             
-            <Tooltip label="Taker Fee" hasArrow>
-              <Text>
-                Taker: <Text 
-                  as="span" 
-                  fontWeight="semibold" 
-                  color={exchange.takerFee !== null ? "blue.500" : "gray.500"}
-                  fontStyle={exchange.takerFee === null ? "italic" : "normal"}
-                >
-                  {formatFee(exchange.takerFee)}
+              <Tooltip label={<FeeSourceLabel label={`${feeLabel}Taker Fee`} source={takerSource} />} hasArrow>
+                <Text>
+                  Taker: <Text 
+                    as="span" 
+                    fontWeight="semibold" 
+                    color={takerFee !== null ? "blue.500" : "gray.500"}
+                    fontStyle={takerFee === null ? "italic" : "normal"}
+                  >
+                    {formatFee(takerFee)}
+                  </Text>
                 </Text>
-              </Text>
-            </Tooltip>
-          </HStack>
+              </Tooltip>
 
-          <HStack spacing={2} flexWrap="wrap">
-            <Tooltip label={`Trust Score: ${exchange.trustScore}/10`} hasArrow>
-              <Badge colorScheme="purple">
-                Trust: {exchange.trustScore}/10
-              </Badge>
-            </Tooltip>
-            {exchange.country && exchange.country !== 'Unknown' && (
-              <Badge colorScheme="gray">{exchange.country}</Badge>
+              {feeTiers.length > 0 && (
+                <Tooltip label={<FeeTierList tiers={feeTiers} current={tier} />} hasArrow>
+                  <Badge colorScheme={tier && tier.minVolume30d > 0 ? 'orange' : 'gray'} fontSize="xs">
+                    {tier ? tier.name || 'VIP' : `${feeTiers.length} tiers`}
+                  </Badge>
+                </Tooltip>
+              )}
+
+              {tokenDiscount !== null && (
+                <Tooltip label={`Fees include the ${tokenDiscount}% discount for paying with the exchange token`} hasArrow>
+                  <Badge colorScheme="purple" fontSize="xs">
+                    -{tokenDiscount}% token
+                  </Badge>
+                </Tooltip>
+              )}
+            </HStack>
+
+            {isFutures && (
+              <HStack spacing={4} fontSize="xs" color="gray.500" flexWrap="wrap">
+                <Tooltip label={<FeeSourceLabel label="Funding Rate (per 8h)" source={sources?.fundingRate} />} hasArrow>
+                  <Text>Funding: {formatFee(exchange.fundingRate ?? null)}/8h</Text>
+                </Tooltip>
+                <Tooltip label={<FeeSourceLabel label="Margin Borrow Rate (USDT, annualized)" source={sources?.marginBorrowRate} />} hasArrow>
+                  <Text>Borrow: {formatFee(exchange.marginBorrowRate ?? null)}/yr</Text>
+                </Tooltip>
+              </HStack>
             )}
-            {exchange.volume24h > 0 && (
-              <Tooltip label="24h Volume" hasArrow>
-                <Badge colorScheme="cyan" fontSize="xs">
-                  {formatVolume(exchange.volume24h)}
+
+            <HStack spacing={2} flexWrap="wrap">
+              <Tooltip label={`Trust Score: ${exchange.trustScore}/10`} hasArrow>
+                <Badge colorScheme="purple">
+                  Trust: {exchange.trustScore}/10
                 </Badge>
               </Tooltip>
-            )}
-          </HStack>
-        </VStack>
-      </Flex>
-    </MotionBox>
+              {exchange.country && exchange.country !== 'Unknown' && (
+                <Badge colorScheme="gray">{exchange.country}</Badge>
+              )}
+              {exchange.volume24h > 0 && (
+                <Tooltip label="24h Volume" hasArrow>
+                  <Badge colorScheme="cyan" fontSize="xs">
+                    {formatVolume(exchange.volume24h)}
+                  </Badge>
+                </Tooltip>
+              )}
+            </HStack>
+          </VStack>
+        </Flex>
+      </MotionBox>
+
+      {/* Outside the link so ticking the box doesn't open the detail page */}
+      {onToggleCompare && (
+        <Tooltip label={compareDisabled && !isSelected ? `Compare up to ${COMPARE_MAX_ITEMS} at a time` : 'Compare'} hasArrow>
+          <Box position="absolute" top={3} right={3} zIndex={1}>
+            <Checkbox
+              aria-label={`Compare ${exchange.exchangeName}`}
+              isChecked={isSelected}
+              isDisabled={compareDisabled && !isSelected}
+              onChange={onToggleCompare}
+            />
+          </Box>
+        </Tooltip>
+      )}
+    </Box>
   );
 }
@@ -4,19 +4,53 @@ import {
   Input,
   Select,
   Button,
+  ButtonGroup,
   InputGroup,
   InputLeftElement,
+  NumberInput,
+  NumberInputField,
+  Tooltip,
   Text,
+  Badge,
+  Collapse,
+  Wrap,
+  WrapItem,
+  FormControl,
+  FormLabel,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuOptionGroup,
+  MenuItemOption,
+  Slider,
+  SliderTrack,
+  SliderFilledTrack,
+  SliderThumb,
+  Switch,
+  useDisclosure,
   useColorModeValue,
 } from '@chakra-ui/react';
-import { SearchIcon } from '@chakra-ui/icons';
-import { SortOption } from '@/lib/types/exchange';
+import { ChevronDownIcon, SearchIcon } from '@chakra-ui/icons';
+import { useEffect, useState } from 'react';
+import { ActiveFilterChips, FilterChip } from '@/components/common/ActiveFilterChips';
+import { OptionalNumberInput } from '@/components/common/OptionalNumberInput';
+import { CEXAdvancedFilters, MarketType, SortOption } from '@/lib/types/exchange';
+import { DEFAULT_CEX_ADVANCED_FILTERS } from '@/lib/utils/filter-params';
 
 interface ExchangeFiltersProps {
   searchQuery: string;
   onSearchChange: (value: string) => void;
   sortBy: SortOption;
   onSortChange: (value: SortOption) => void;
+  marketType?: MarketType;
+  onMarketTypeChange?: (value: MarketType) => void;
+  monthlyVolume?: number;
+  onMonthlyVolumeChange?: (value: number) => void;
+  useTokenDiscount?: boolean;
+  onUseTokenDiscountChange?: (value: boolean) => void;
+  advancedFilters?: CEXAdvancedFilters;
+  onAdvancedFiltersChange?: (update: Partial<CEXAdvancedFilters>) => void;
+  countryOptions?: string[];
   onReset: () => void;
   totalCount?: number;
   displayedCount?: number;
@@ -27,11 +61,23 @@ export function ExchangeFilters({
   onSearchChange,
   sortBy,
   onSortChange,
+  marketType = 'spot',
+  onMarketTypeChange,
+  monthlyVolume,
+  onMonthlyVolumeChange,
+  useTokenDiscount = false,
+  onUseTokenDiscountChange,
+  advancedFilters,
+  onAdvancedFiltersChange,
+  countryOptions = [],
   onReset,
   totalCount,
   displayedCount,
 }: ExchangeFiltersProps) {
   const borderColor = useColorModeValue('gray.200', 'gray.700');
+  const chips = getFilterChips(searchQuery, onSearchChange, advancedFilters, onAdvancedFiltersChange);
+  const activeAdvancedCount = chips.filter(chip => chip.key !== 'search').length;
+  const { isOpen, onToggle } = useDisclosure({ defaultIsOpen: activeAdvancedCount > 0 });
 
   return (
     <Box mb={6} p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
@@ -57,13 +103,86 @@ export function ExchangeFilters({
           <option value="makerFee">Maker Fee (Low to High)</option>
           <option value="takerFee">Taker Fee (Low to High)</option>
           <option value="volume">Volume (High to Low)</option>
+          <option value="country">Country (A-Z)</option>
+          <option value="withdrawalBTC">BTC Withdrawal (Low to High)</option>
+          <option value="withdrawalETH">ETH Withdrawal (Low to High)</option>
+          <option value="withdrawalUSDT">USDT Withdrawal (Low to High)</option>
         </Select>
 
+        {onMarketTypeChange && (
+          <ButtonGroup size="md" isAttached variant="outline">
+            <Button
+              colorScheme={marketType === 'spot' ? 'blue' : 'gray'}
+              variant={marketType === 'spot' ? 'solid' : 'outline'}
+              onClick={() => onMarketTypeChange('spot')}
+            >
+              Spot
+            </Button>
+            <Button
+              colorScheme={marketType === 'futures' ? 'blue' : 'gray'}
+              variant={marketType === 'futures' ? 'solid' : 'outline'}
+              onClick={() => onMarketTypeChange('futures')}
+            >
+              Futures
+            </Button>
+          </ButtonGroup>
+        )}
+
+        {onMonthlyVolumeChange && marketType === 'spot' && (
+          <Tooltip label="Your 30-day trading volume in USD - fees shown for the VIP tier you reach" hasArrow>
+            <NumberInput
+              maxW={{ base: '100%', md: '220px' }}
+              min={0}
+              step={10000}
+              value={monthlyVolume || ''}
+              onChange={(_, value) => onMonthlyVolumeChange(Number.isFinite(value) ? value : 0)}
+            >
+              <NumberInputField placeholder="Monthly volume (USD)" />
+            </NumberInput>
+          </Tooltip>
+        )}
+
+        {onUseTokenDiscountChange && marketType === 'spot' && (
+          <Tooltip label="Apply each exchange's discount for holding or paying fees with its own token, where known" hasArrow>
+            <FormControl display="flex" alignItems="center" w="auto">
+              <Switch
+                id="use-token-discount"
+                isChecked={useTokenDiscount}
+                onChange={e => onUseTokenDiscountChange(e.target.checked)}
+                mr={2}
+              />
+              <FormLabel htmlFor="use-token-discount" fontSize="sm" mb={0}>
+                Pay with exchange token
+              </FormLabel>
+            </FormControl>
+          </Tooltip>
+        )}
+
+        {advancedFilters && onAdvancedFiltersChange && (
+          <Button variant="ghost" rightIcon={<ChevronDownIcon />} onClick={onToggle}>
+            More filters
+            {activeAdvancedCount > 0 && <Badge ml={2} colorScheme="blue">{activeAdvancedCount}</Badge>}
+          </Button>
+        )}
+
         <Button variant="outline" onClick={onReset}>
           Reset
         </Button>
       </HStack>
 
+      {advancedFilters && onAdvancedFiltersChange && (
+        <Collapse in={isOpen} animateOpacity>
+          <AdvancedFilters
+            filters={advancedFilters}
+            onChange={onAdvancedFiltersChange}
+            countryOptions={countryOptions}
+            marketType={marketType}
+          />
+        </Collapse>
+      )}
+
+      <ActiveFilterChips chips={chips} onClearAll={onReset} />
+
       {totalCount !== undefined && displayedCount !== undefined && (
         <Text fontSize="sm" color="gray.600">
           Showing {displayedCount} of {totalCount} exchanges
@@ -72,3 +191,180 @@ export function ExchangeFilters({
     </Box>
   );
 }
+
+interface AdvancedFiltersProps {
+  filters: CEXAdvancedFilters;
+  onChange: (update: Partial<CEXAdvancedFilters>) => void;
+  countryOptions: string[];
+  marketType: MarketType;
+}
+
+function AdvancedFilters({ filters, onChange, countryOptions, marketType }: AdvancedFiltersProps) {
+  // Slider position while dragging - committed on release so dragging doesn't flood the URL history
+  const [trustDraft, setTrustDraft] = useState(filters.minTrustScore);
+  useEffect(() => setTrustDraft(filters.minTrustScore), [filters.minTrustScore]);
+
+  const feeLabel = marketType === 'futures' ? 'futures ' : '';
+
+  return (
+    <Wrap spacing={4} mb={3} align="end">
+      <WrapItem>
+        <FormControl w="200px">
+          <FormLabel fontSize="sm">Min trust score: {trustDraft > 0 ? `${trustDraft}/10` : 'any'}</FormLabel>
+          <Slider
+            min={0}
+            max={10}
+            step={1}
+            value={trustDraft}
+            onChange={setTrustDraft}
+            onChangeEnd={value => onChange({ minTrustScore: value })}
+            aria-label="Minimum trust score"
+          >
+            <SliderTrack>
+              <SliderFilledTrack />
+            </SliderTrack>
+            <SliderThumb />
+          </Slider>
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl w="140px">
+          <FormLabel fontSize="sm">Max {feeLabel}maker %</FormLabel>
+          <OptionalNumberInput
+            min={0}
+            step={0.01}
+            value={filters.maxMakerFee}
+            onChange={value => onChange({ maxMakerFee: value })}
+            placeholder="any"
+          />
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl w="140px">
+          <FormLabel fontSize="sm">Max {feeLabel}taker %</FormLabel>
+          <OptionalNumberInput
+            min={0}
+            step={0.01}
+            value={filters.maxTakerFee}
+            onChange={value => onChange({ maxTakerFee: value })}
+            placeholder="any"
+          />
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl w="180px">
+          <FormLabel fontSize="sm">Country</FormLabel>
+          <Menu closeOnSelect={false}>
+            <MenuButton as={Button} variant="outline" rightIcon={<ChevronDownIcon />} w="100%" fontWeight="normal">
+              {filters.countries.length === 0 ? 'Any' : `${filters.countries.length} selected`}
+            </MenuButton>
+            <MenuList maxH="300px" overflowY="auto">
+              <MenuOptionGroup
+                type="checkbox"
+                value={filters.countries}
+                onChange={value => onChange({ countries: Array.isArray(value) ? value : [value] })}
+              >
+                {countryOptions.map(country => (
+                  <MenuItemOption key={country} value={country}>
+                    {country}
+                  </MenuItemOption>
+                ))}
+              </MenuOptionGroup>
+            </MenuList>
+          </Menu>
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl w="110px">
+          <FormLabel fontSize="sm">Est. from</FormLabel>
+          <OptionalNumberInput
+            min={1990}
+            max={2100}
+            value={filters.minYearEstablished}
+            onChange={value => onChange({ minYearEstablished: value })}
+            placeholder="year"
+          />
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl w="110px">
+          <FormLabel fontSize="sm">Est. to</FormLabel>
+          <OptionalNumberInput
+            min={1990}
+            max={2100}
+            value={filters.maxYearEstablished}
+            onChange={value => onChange({ maxYearEstablished: value })}
+            placeholder="year"
+          />
+        </FormControl>
+      </WrapItem>
+
+      <WrapItem>
+        <FormControl display="flex" alignItems="center" h={10}>
+          <Switch
+            id="only-with-fee-data"
+            isChecked={filters.onlyWithFeeData}
+            onChange={e => onChange({ onlyWithFeeData: e.target.checked })}
+            mr={2}
+          />
+          <FormLabel htmlFor="only-with-fee-data" fontSize="sm" mb={0}>
+            Only with fee data
+          </FormLabel>
+        </FormControl>
+      </WrapItem>
+    </Wrap>
+  );
+}
+
+// Chips for the search and every active advanced filter
+function getFilterChips(
+  searchQuery: string,
+  onSearchChange: (value: string) => void,
+  filters: CEXAdvancedFilters | undefined,
+  onChange: ((update: Partial<CEXAdvancedFilters>) => void) | undefined
+): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  if (searchQuery) {
+    chips.push({ key: 'search', label: `Search: ${searchQuery}`, onClear: () => onSearchChange('') });
+  }
+  if (!filters || !onChange) return chips;
+
+  const clear = (update: Partial<CEXAdvancedFilters>) => () => onChange(update);
+  const defaults = DEFAULT_CEX_ADVANCED_FILTERS;
+
+  if (filters.minTrustScore > 0) {
+    chips.push({ key: 'trust', label: `Trust ≥ ${filters.minTrustScore}`, onClear: clear({ minTrustScore: defaults.minTrustScore }) });
+  }
+  if (filters.maxMakerFee !== null) {
+    chips.push({ key: 'maker', label: `Maker ≤ ${filters.maxMakerFee}%`, onClear: clear({ maxMakerFee: null }) });
+  }
+  if (filters.maxTakerFee !== null) {
+    chips.push({ key: 'taker', label: `Taker ≤ ${filters.maxTakerFee}%`, onClear: clear({ maxTakerFee: null }) });
+  }
+  filters.countries.forEach(country => {
+    chips.push({
+      key: `country-${country}`,
+      label: country,
+      onClear: clear({ countries: filters.countries.filter(selected => selected !== country) }),
+    });
+  });
+  if (filters.onlyWithFeeData) {
+    chips.push({ key: 'fee-data', label: 'With fee data', onClear: clear({ onlyWithFeeData: false }) });
+  }
+  if (filters.minYearEstablished !== null || filters.maxYearEstablished !== null) {
+    const label = filters.minYearEstablished !== null && filters.maxYearEstablished !== null
+      ? `Est. ${filters.minYearEstablished}–${filters.maxYearEstablished}`
+      : filters.minYearEstablished !== null
+        ? `Est. ${filters.minYearEstablished} or later`
+        : `Est. ${filters.maxYearEstablished} or earlier`;
+    chips.push({ key: 'year', label, onClear: clear({ minYearEstablished: null, maxYearEstablished: null }) });
+  }
+
+  return chips;
+}
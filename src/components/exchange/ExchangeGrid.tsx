@@ -1,26 +1,49 @@
 import { SimpleGrid, Box, Text, Button, VStack, Spinner, HStack, Progress, Alert, AlertIcon } from '@chakra-ui/react';
 import { ExchangeCard } from './ExchangeCard';
+import { ExchangeTable } from './ExchangeTable';
 import { ExchangeGridSkeleton } from './ExchangeSkeleton';
-import { CEXFees } from '@/lib/types/exchange';
+import { CEXFees, MarketType, SortDirection, SortOption, ViewMode } from '@/lib/types/exchange';
 
 interface ExchangeGridProps {
   exchanges: CEXFees[];
+  marketType?: MarketType;
+  monthlyVolume?: number;
+  useTokenDiscount?: boolean;
   isLoading?: boolean;
   backgroundLoading?: boolean;
   emptyMessage?: string;
   hasMore?: boolean;
   onLoadMore?: () => void;
   progress?: number;
+  selectedIds?: string[];
+  compareFull?: boolean;
+  onToggleCompare?: (id: string) => void;
+  view?: ViewMode;
+  columns?: string[]; // Visible table columns
+  sortBy?: SortOption;
+  sortDirection?: SortDirection;
+  onSort?: (sortBy: SortOption) => void;
 }
 
 export function ExchangeGrid({
   exchanges,
+  marketType,
+  monthlyVolume,
+  useTokenDiscount,
   isLoading,
   backgroundLoading,
   emptyMessage = 'No exchanges found',
   hasMore,
   onLoadMore,
   progress = 0,
+  selectedIds = [],
+  compareFull = false,
+  onToggleCompare,
+  view = 'grid',
+  columns = [],
+  sortBy,
+  sortDirection,
+  onSort,
 }: ExchangeGridProps) {
   // Show skeleton loader only on initial load
   if (isLoading && exchanges.length === 0) {
@@ -50,15 +73,37 @@ export function ExchangeGrid({
 
   return (
     <VStack spacing={6} align="stretch">
-      <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing={6}>
-        {exchanges.map((exchange, index) => (
-          <ExchangeCard
-            key={exchange.exchangeId}
-            exchange={exchange}
-            rank={index + 1}
-          />
-        ))}
-      </SimpleGrid>
+      {view === 'table' ? (
+        <ExchangeTable
+          exchanges={exchanges}
+          columns={columns}
+          marketType={marketType}
+          monthlyVolume={monthlyVolume}
+          useTokenDiscount={useTokenDiscount}
+          sortBy={sortBy}
+          sortDirection={sortDirection}
+          onSort={onSort}
+          selectedIds={selectedIds}
+          compareFull={compareFull}
+          onToggleCompare={onToggleCompare}
+        />
+      ) : (
+        <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing={6}>
+          {exchanges.map((exchange, index) => (
+            <ExchangeCard
+              key={exchange.exchangeId}
+              exchange={exchange}
+              rank={index + 1}
+              marketType={marketType}
+              monthlyVolume={monthlyVolume}
+              useTokenDiscount={useTokenDiscount}
+              isSelected={selectedIds.includes(exchange.exchangeId)}
+              compareDisabled={compareFull}
+              onToggleCompare={onToggleCompare && (() => onToggleCompare(exchange.exchangeId))}
+            />
+          ))}
+        </SimpleGrid>
+      )}
 
       {/* Background AI processing indicator */}
       {backgroundLoading && (
@@ -0,0 +1,123 @@
+import NextLink from 'next/link';
+import { Checkbox, HStack, Image, Link, Text } from '@chakra-ui/react';
+import { DataTable, DataTableColumn } from '@/components/common/DataTable';
+import { CEX_TABLE_COLUMNS, COMPARE_MAX_ITEMS } from '@/config/constants';
+import { CEXFees, MarketType, SortDirection, SortOption } from '@/lib/types/exchange';
+import { getMarketCEXFees } from '@/lib/utils/fee-tiers';
+import { getCheapestWithdrawal } from '@/lib/utils/withdrawal-fees';
+import { formatAmount, formatFee, formatVolume } from '@/lib/utils/formatters';
+
+interface ExchangeTableProps {
+  exchanges: CEXFees[];
+  columns: string[]; // Visible CEX_TABLE_COLUMNS ids in display order
+  marketType?: MarketType;
+  monthlyVolume?: number;
+  useTokenDiscount?: boolean;
+  sortBy?: SortOption;
+  sortDirection?: SortDirection;
+  onSort?: (sortBy: SortOption) => void;
+  selectedIds?: string[];
+  compareFull?: boolean;
+  onToggleCompare?: (id: string) => void;
+}
+
+function FeeCell({ fee }: { fee: number | null }) {
+  return (
+    <Text as="span" color={fee === null ? 'gray.500' : undefined} fontStyle={fee === null ? 'italic' : 'normal'}>
+      {formatFee(fee)}
+    </Text>
+  );
+}
+
+function WithdrawalCell({ exchange, coin }: { exchange: CEXFees; coin: string }) {
+  const cheapest = getCheapestWithdrawal(exchange, coin);
+  if (!cheapest) return <Text as="span" color="gray.500">-</Text>;
+  return (
+    <Text as="span">
+      {formatAmount(cheapest.fee.fee)} <Text as="span" fontSize="xs" color="gray.500">{cheapest.network}</Text>
+    </Text>
+  );
+}
+
+export function ExchangeTable({
+  exchanges,
+  columns,
+  marketType = 'spot',
+  monthlyVolume = 0,
+  useTokenDiscount = false,
+  sortBy,
+  sortDirection,
+  onSort,
+  selectedIds = [],
+  compareFull = false,
+  onToggleCompare,
+}: ExchangeTableProps) {
+  const isFutures = marketType === 'futures';
+  const feesOf = (exchange: CEXFees) => getMarketCEXFees(exchange, marketType, monthlyVolume, useTokenDiscount);
+
+  const renderers: Record<string, Omit<DataTableColumn<CEXFees>, 'id' | 'label'>> = {
+    makerFee: { isNumeric: true, sortable: true, render: e => <FeeCell fee={feesOf(e).makerFee} /> },
+    takerFee: { isNumeric: true, sortable: true, render: e => <FeeCell fee={feesOf(e).takerFee} /> },
+    withdrawalBTC: { isNumeric: true, sortable: true, render: e => <WithdrawalCell exchange={e} coin="BTC" /> },
+    withdrawalETH: { isNumeric: true, sortable: true, render: e => <WithdrawalCell exchange={e} coin="ETH" /> },
+    withdrawalUSDT: { isNumeric: true, sortable: true, render: e => <WithdrawalCell exchange={e} coin="USDT" /> },
+    trustScore: { isNumeric: true, sortable: true, render: e => `${e.trustScore}/10` },
+    country: { sortable: true, render: e => (e.country && e.country !== 'Unknown' ? e.country : '-') },
+    volume: { isNumeric: true, sortable: true, render: e => formatVolume(e.volume24h) },
+  };
+
+  const tableColumns: DataTableColumn<CEXFees>[] = [];
+
+  if (onToggleCompare) {
+    tableColumns.push({
+      id: 'compare',
+      label: '',
+      render: e => {
+        const isSelected = selectedIds.includes(e.exchangeId);
+        return (
+          <Checkbox
+            aria-label={`Compare ${e.exchangeName}`}
+            title={compareFull && !isSelected ? `Compare up to ${COMPARE_MAX_ITEMS} at a time` : 'Compare'}
+            isChecked={isSelected}
+            isDisabled={compareFull && !isSelected}
+            onChange={() => onToggleCompare(e.exchangeId)}
+          />
+        );
+      },
+    });
+  }
+
+  tableColumns.push({
+    id: 'name',
+    label: 'Exchange',
+    sortable: true,
+    render: (e, index) => (
+      <HStack spacing={2}>
+        <Text as="span" fontSize="xs" color="gray.500" minW="24px">#{index + 1}</Text>
+        <Image src={e.logo} alt={e.exchangeName} boxSize="20px" objectFit="contain" fallbackSrc="/logos/default.svg" />
+        <Link as={NextLink} href={`/exchange/${encodeURIComponent(e.exchangeId)}`} fontWeight="semibold">
+          {e.exchangeName}
+        </Link>
+      </HStack>
+    ),
+  });
+
+  columns.forEach(id => {
+    const column = CEX_TABLE_COLUMNS.find(c => c.id === id);
+    if (!column || !renderers[id]) return;
+    // Maker/taker show the selected market's fees
+    const label = isFutures && (id === 'makerFee' || id === 'takerFee') ? `Futures ${column.label}` : column.label;
+    tableColumns.push({ id, label, ...renderers[id] });
+  });
+
+  return (
+    <DataTable
+      items={exchanges}
+      rowKey={e => e.exchangeId}
+      columns={tableColumns}
+      sortBy={sortBy}
+      sortDirection={sortDirection}
+      onSort={onSort && (id => onSort(id as SortOption))}
+    />
+  );
+}
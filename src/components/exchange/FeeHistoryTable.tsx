@@ -0,0 +1,45 @@
+import { Box, Table, Thead, Tbody, Tr, Th, Td, Text, useColorModeValue } from '@chakra-ui/react';
+import { formatDate, formatFee } from '@/lib/utils/formatters';
+
+interface FeeHistoryTableProps<T extends { recordedAt: string }> {
+  snapshots: T[]; // Oldest first, as stored
+  columns: { label: string; value: (snapshot: T) => number | null }[];
+}
+
+// Recorded fee changes, newest first
+export function FeeHistoryTable<T extends { recordedAt: string }>({ snapshots, columns }: FeeHistoryTableProps<T>) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  if (snapshots.length === 0) {
+    return (
+      <Text color="gray.500" fontSize="sm">
+        No fee history recorded yet - changes are tracked from the first AI-enhanced refresh.
+      </Text>
+    );
+  }
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>Recorded</Th>
+            {columns.map(column => (
+              <Th key={column.label} isNumeric>{column.label}</Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {[...snapshots].reverse().map(snapshot => (
+            <Tr key={snapshot.recordedAt}>
+              <Td suppressHydrationWarning>{formatDate(snapshot.recordedAt)}</Td>
+              {columns.map(column => (
+                <Td key={column.label} isNumeric>{formatFee(column.value(snapshot))}</Td>
+              ))}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
@@ -0,0 +1,58 @@
+import { Box, Table, Thead, Tbody, Tr, Th, Td, Text, Link, useColorModeValue } from '@chakra-ui/react';
+import { FeeFieldSource } from '@/lib/types/exchange';
+import { formatConfidence, formatDate, formatFeeProvider, truncate } from '@/lib/utils/formatters';
+
+interface FeeProvenanceTableProps {
+  sources: Partial<Record<string, FeeFieldSource>> | undefined;
+  labels: Record<string, string>; // Field -> display label, in display order
+}
+
+// Where each fee field came from - one row per field
+export function FeeProvenanceTable({ sources, labels }: FeeProvenanceTableProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  return (
+    <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>Field</Th>
+            <Th>Source</Th>
+            <Th>Confidence</Th>
+            <Th>Fetched</Th>
+            <Th>Cited</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {Object.entries(labels).map(([field, label]) => {
+            const source = sources?.[field];
+            return (
+              <Tr key={field}>
+                <Td fontWeight="semibold">{label}</Td>
+                {source ? (
+                  <>
+                    <Td>
+                      {formatFeeProvider(source.provider)}
+                      {source.note && <Text fontSize="xs" color="gray.500">{source.note}</Text>}
+                    </Td>
+                    <Td>{formatConfidence(source.confidence)}</Td>
+                    <Td suppressHydrationWarning>{formatDate(source.fetchedAt)}</Td>
+                    <Td>
+                      {source.sourceUrl ? (
+                        <Link href={source.sourceUrl} isExternal color="blue.500" wordBreak="break-all">
+                          {truncate(source.sourceUrl, 40)}
+                        </Link>
+                      ) : '-'}
+                    </Td>
+                  </>
+                ) : (
+                  <Td colSpan={4} color="gray.500">Not available</Td>
+                )}
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+}
@@ -0,0 +1,30 @@
+import { Box, Text } from '@chakra-ui/react';
+import { FeeFieldSource } from '@/lib/types/exchange';
+import { formatConfidence, formatDate, formatFeeProvider, truncate } from '@/lib/utils/formatters';
+
+interface FeeSourceLabelProps {
+  label: string;
+  source?: FeeFieldSource;
+}
+
+// Tooltip content showing where a fee value came from
+export function FeeSourceLabel({ label, source }: FeeSourceLabelProps) {
+  return (
+    <Box fontSize="xs">
+      <Text fontWeight="bold">{label}</Text>
+      {source ? (
+        <>
+          <Text>Source: {formatFeeProvider(source.provider)}</Text>
+          <Text>Confidence: {formatConfidence(source.confidence)}</Text>
+          <Text>Fetched: {formatDate(source.fetchedAt)}</Text>
+          {source.note && <Text>Note: {source.note}</Text>}
+          {source.sourceUrl && (
+            <Text wordBreak="break-all">Cited: {truncate(source.sourceUrl, 60)}</Text>
+          )}
+        </>
+      ) : (
+        <Text>Source: not available</Text>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,23 @@
+import { Box, Text } from '@chakra-ui/react';
+import { CEXFeeTier } from '@/lib/types/exchange';
+import { formatFee, formatUSD } from '@/lib/utils/formatters';
+
+interface FeeTierListProps {
+  tiers: CEXFeeTier[];
+  current: CEXFeeTier | null;
+}
+
+// Tooltip content listing an exchange's volume tiers, highlighting the one reached
+export function FeeTierList({ tiers, current }: FeeTierListProps) {
+  return (
+    <Box fontSize="xs">
+      <Text fontWeight="bold">Volume Tiers (30d)</Text>
+      {tiers.map((tier, index) => (
+        <Text key={tier.minVolume30d} fontWeight={tier === current ? 'bold' : 'normal'}>
+          {tier.name || `Tier ${index + 1}`} • {formatUSD(tier.minVolume30d)}+ • Maker {formatFee(tier.makerFee)} / Taker {formatFee(tier.takerFee)}
+          {tier.tokenDiscount !== null && ` • -${tier.tokenDiscount}% with exchange token`}
+        </Text>
+      ))}
+    </Box>
+  );
+}
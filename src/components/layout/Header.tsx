@@ -54,6 +54,9 @@ export function Header() {
               <Link as={NextLink} href="/dex" _hover={{ color: 'blue.500' }}>
                 DEX Fees
               </Link>
+              <Link as={NextLink} href="/calculator" _hover={{ color: 'blue.500' }}>
+                Calculator
+              </Link>
               <Link as={NextLink} href="/about" _hover={{ color: 'blue.500' }}>
                 About
               </Link>
@@ -87,6 +90,9 @@ export function Header() {
                 <MenuItem as={NextLink} href="/dex">
                   DEX Fees
                 </MenuItem>
+                <MenuItem as={NextLink} href="/calculator">
+                  Calculator
+                </MenuItem>
                 <MenuItem as={NextLink} href="/about">
                   About
                 </MenuItem>
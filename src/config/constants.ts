@@ -11,10 +11,54 @@ export const DEX_CACHE_DURATION_SECONDS = DEX_CACHE_HOURS * 60 * 60; // DEX cach
 export const CACHE_DURATION = CEX_CACHE_DURATION;
 export const CACHE_DURATION_SECONDS = CEX_CACHE_DURATION_SECONDS;
 
+// Cache store backend - 'memory' (default), 'file' or 'sqlite'
+export const CACHE_STORE = process.env.CACHE_STORE || 'memory';
+export const CACHE_DIR = process.env.CACHE_DIR || '.cache';
+export const CACHE_SQLITE_PATH = process.env.CACHE_SQLITE_PATH || `${CACHE_DIR}/cache.db`;
+
 // API configuration
 export const COINGECKO_BASE_URL = 'https://api.coingecko.com/api/v3';
 export const COINGECKO_RATE_LIMIT = 50; // requests per minute
 export const COINGECKO_RATE_WINDOW = 60000; // 1 minute in ms
+export const DEFILLAMA_PROTOCOL_URL = 'https://defillama.com/protocol'; // + /<slug>
+
+// LLM backends - primary backend, others are used as failover when configured
+export const LLM_BACKEND = process.env.LLM_BACKEND || 'gemini';
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+export const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+export const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+export const OPENAI_TIMEOUT_MS = parseInt(process.env.OPENAI_TIMEOUT_MS || '120000', 10); // Local models can be slow - fail over after this
+// Collect perpetual futures / margin fees with a second AI prompt per CEX batch (opt-in: doubles CEX token spend)
+export const AI_DERIVATIVES_FEES = process.env.AI_DERIVATIVES_FEES === 'true';
+
+// Background AI enrichment jobs - records per batch, pause between batches, retries per failed batch
+export const AI_BATCH_SIZE = parseInt(process.env.AI_BATCH_SIZE || '10', 10);
+export const CEX_AI_BATCH_DELAY_MS = parseInt(process.env.CEX_AI_BATCH_DELAY_MS || '15000', 10);
+export const DEX_AI_BATCH_DELAY_MS = parseInt(process.env.DEX_AI_BATCH_DELAY_MS || '18000', 10); // DEX prompts hit the API harder
+export const AI_BATCH_MAX_RETRIES = parseInt(process.env.AI_BATCH_MAX_RETRIES || '2', 10);
+export const MAX_FINISHED_JOBS = 20; // Finished jobs kept for /api/jobs
+
+// Scheduled cache refresh (npm run refresh, /api/cron/refresh) - when to check each market, cron syntax in UTC
+export const CEX_REFRESH_CRON = process.env.CEX_REFRESH_CRON || '0 * * * *';
+export const DEX_REFRESH_CRON = process.env.DEX_REFRESH_CRON || '0 * * * *';
+export const REFRESH_LEAD_HOURS = parseFloat(process.env.REFRESH_LEAD_HOURS || '6'); // Rebuild when the cache expires within this window
+
+// Fee providers - comma-separated provider names, highest priority first
+// Providers not listed run after the listed ones in registration order
+export const FEE_PROVIDER_PRIORITY = (process.env.FEE_PROVIDER_PRIORITY || 'static,ai')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+export const STATIC_FEES_FILE = process.env.STATIC_FEES_FILE || 'data/static-fees.json';
+
+// Manual fee overrides (applied after provider merge) and admin API access
+export const FEE_OVERRIDES_FILE = process.env.FEE_OVERRIDES_FILE || 'data/fee-overrides.json';
+
+// AI response validation - plausible trading fee range in percent
+export const MIN_PLAUSIBLE_FEE_PERCENT = 0;
+export const MAX_PLAUSIBLE_FEE_PERCENT = 5;
+export const MAX_PLAUSIBLE_FUNDING_RATE_PERCENT = 1;   // Absolute, per 8h
+export const MAX_PLAUSIBLE_BORROW_RATE_PERCENT = 100; // Annualized
 
 // Pagination - Updated for 10-item incremental loading
 export const DEFAULT_PAGE_SIZE = 10; // Show 10 items initially
@@ -36,6 +80,40 @@ export const SORT_OPTIONS = [
   { value: 'trustScore', label: 'Trust Score (High to Low)' },
 ] as const;
 
+// DEX protocol types (protocol filter)
+export const DEX_PROTOCOLS = ['AMM', 'Order Book', 'Aggregator'] as const;
+
+// Table view columns - the name column is always shown first. Ids double as sort options where sortable.
+export const CEX_TABLE_COLUMNS = [
+  { id: 'makerFee', label: 'Maker' },
+  { id: 'takerFee', label: 'Taker' },
+  { id: 'withdrawalBTC', label: 'BTC Withdrawal' },
+  { id: 'withdrawalETH', label: 'ETH Withdrawal' },
+  { id: 'withdrawalUSDT', label: 'USDT Withdrawal' },
+  { id: 'trustScore', label: 'Trust' },
+  { id: 'country', label: 'Country' },
+  { id: 'volume', label: '24h Volume' },
+] as const;
+
+export const DEX_TABLE_COLUMNS = [
+  { id: 'swapFee', label: 'Swap Fee' },
+  { id: 'protocol', label: 'Protocol' },
+  { id: 'chains', label: 'Chains' },
+  { id: 'liquidity', label: 'TVL' },
+  { id: 'volume', label: '24h Volume' },
+] as const;
+
+// localStorage keys for the remembered grid/table layout
+export const CEX_TABLE_LAYOUT_KEY = 'cryptofees:cex-table-layout';
+export const DEX_TABLE_LAYOUT_KEY = 'cryptofees:dex-table-layout';
+
+// Trade cost calculator - coins the CEX fee prompt collects per-network withdrawal fees for
+export const CALCULATOR_ASSETS = ['BTC', 'ETH', 'USDT'] as const;
+
+// Side-by-side comparison (/compare?ids=a,b,c)
+export const COMPARE_MIN_ITEMS = 2;
+export const COMPARE_MAX_ITEMS = 4;
+
 // Default values
 export const DEFAULT_SORT = 'rank';
 export const DEFAULT_TRUST_SCORE = 0;
@@ -48,3 +126,8 @@ export const TWITTER_URL = 'https://twitter.com';
 export const SITE_NAME = 'CryptoFees';
 export const SITE_DESCRIPTION = 'Compare cryptocurrency exchange fees across CEX and DEX platforms';
 export const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://cryptofees.com';
+
+// Exchange/DEX detail pages - regenerated in the background (ISR), top records prerendered from the cache
+export const DETAIL_PAGE_REVALIDATE_SECONDS = 60 * 60;
+export const DETAIL_PAGE_PRERENDER_COUNT = 20;
+export const DETAIL_PAGE_HISTORY_LIMIT = 20;
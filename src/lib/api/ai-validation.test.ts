@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { validateCEXFeeData, validateDEXFeeData } from './ai-validation';
+
+describe('validateCEXFeeData', () => {
+  const requested = ['binance', 'kraken'];
+
+  it('accepts plausible records', () => {
+    const result = validateCEXFeeData([{ exchangeId: 'binance', makerFee: 0.1, takerFee: 0.1 }], requested);
+
+    expect(result.rejected).toHaveLength(0);
+    expect(result.accepted).toHaveLength(1);
+    expect(result.accepted[0]).toMatchObject({ exchangeId: 'binance', makerFee: 0.1, takerFee: 0.1 });
+  });
+
+  it('rejects a response that is not an array', () => {
+    const result = validateCEXFeeData({ exchangeId: 'binance' }, requested);
+
+    expect(result.accepted).toHaveLength(0);
+    expect(result.rejected[0].issues[0].reason).toBe('invalid_shape');
+  });
+
+  it('rejects unknown and duplicate ids', () => {
+    const result = validateCEXFeeData([
+      { exchangeId: 'binance', makerFee: 0.1, takerFee: 0.1 },
+      { exchangeId: 'binance', makerFee: 0.1, takerFee: 0.1 },
+      { exchangeId: 'unlisted', makerFee: 0.1, takerFee: 0.1 },
+    ], requested);
+
+    expect(result.accepted).toHaveLength(1);
+    expect(result.rejected.map(error => error.issues[0].reason)).toEqual(['duplicate_id', 'unknown_id']);
+  });
+
+  it('rejects non-numeric and out-of-range fees', () => {
+    const result = validateCEXFeeData([
+      { exchangeId: 'binance', makerFee: '0.1', takerFee: 0.1 },
+      { exchangeId: 'kraken', makerFee: 0.1, takerFee: 25 },
+    ], requested);
+
+    expect(result.accepted).toHaveLength(0);
+    expect(result.rejected.map(error => error.issues[0].reason)).toEqual(['not_a_number', 'out_of_range']);
+  });
+
+  it('rejects a maker fee above the taker fee', () => {
+    const result = validateCEXFeeData([{ exchangeId: 'binance', makerFee: 0.2, takerFee: 0.1 }], requested);
+
+    expect(result.rejected[0].recordId).toBe('binance');
+    expect(result.rejected[0].issues[0].reason).toBe('maker_exceeds_taker');
+  });
+
+  it('drops invalid sub-fields without rejecting the record', () => {
+    const result = validateCEXFeeData([{
+      exchangeId: 'binance',
+      makerFee: 0.1,
+      takerFee: 0.1,
+      withdrawalFees: { btc: { bitcoin: { fee: 0.0002 }, lightning: { fee: -1 } } },
+      depositFees: { BTC: 0, ETH: 'free' },
+      feeTiers: [
+        { minVolume30d: 1000000, makerFee: 0.08, takerFee: 0.09 },
+        { minVolume30d: 0, makerFee: 0.1, takerFee: 0.1, tokenDiscount: 25 },
+        { minVolume30d: 5000000, makerFee: 0.09, takerFee: 0.05 },
+      ],
+      futuresMakerFee: 0.05,
+      futuresTakerFee: 0.02,
+      fundingRate: 3,
+      confidence: 2,
+      sourceUrl: 'ftp://example.com/fees',
+    }], requested);
+
+    expect(result.rejected).toHaveLength(0);
+    const [record] = result.accepted;
+    expect(Object.keys(record.withdrawalFees.BTC)).toHaveLength(1);
+    expect(record.depositFees).toEqual({ BTC: 0 });
+    expect(record.feeTiers?.map(tier => tier.minVolume30d)).toEqual([0, 1000000]);
+    expect(record.feeTiers?.[0].tokenDiscount).toBe(25);
+    expect(record.futuresMakerFee).toBeNull();
+    expect(record.futuresTakerFee).toBeNull();
+    expect(record.fundingRate).toBeNull();
+    expect(record.confidence).toBeNull();
+    expect(record.sourceUrl).toBeNull();
+    expect(result.sanitized.map(issue => issue.field)).toEqual(expect.arrayContaining([
+      'withdrawalFees.btc.lightning',
+      'depositFees.ETH',
+      'feeTiers.2',
+      'futuresMakerFee',
+      'fundingRate',
+      'confidence',
+      'sourceUrl',
+    ]));
+  });
+
+  it('keeps plausible derivatives fees, including negative funding rates', () => {
+    const result = validateCEXFeeData([{
+      exchangeId: 'binance',
+      makerFee: null,
+      takerFee: null,
+      futuresMakerFee: 0.02,
+      futuresTakerFee: 0.05,
+      fundingRate: -0.0125,
+      marginBorrowRate: 12.5,
+    }], requested);
+
+    expect(result.sanitized).toHaveLength(0);
+    expect(result.accepted[0]).toMatchObject({
+      futuresMakerFee: 0.02,
+      futuresTakerFee: 0.05,
+      fundingRate: -0.0125,
+      marginBorrowRate: 12.5,
+    });
+  });
+
+  it('drops swapped futures fees and out-of-range rates', () => {
+    const result = validateCEXFeeData([{
+      exchangeId: 'binance',
+      makerFee: null,
+      takerFee: null,
+      futuresMakerFee: 0.05,
+      futuresTakerFee: 0.02,
+      fundingRate: -2,
+      marginBorrowRate: 150,
+    }], requested);
+
+    expect(result.rejected).toHaveLength(0);
+    expect(result.accepted[0]).toMatchObject({
+      futuresMakerFee: null,
+      futuresTakerFee: null,
+      fundingRate: null,
+      marginBorrowRate: null,
+    });
+    expect(result.sanitized.map(issue => issue.reason)).toEqual(['maker_exceeds_taker', 'out_of_range', 'out_of_range']);
+  });
+});
+
+describe('validateDEXFeeData', () => {
+  const requested = [{ dexId: 'uniswap', blockchain: ['Ethereum', 'Arbitrum'] }];
+
+  it('keeps gas estimates only for listed chains with ordered values', () => {
+    const result = validateDEXFeeData([{
+      dexId: 'uniswap',
+      swapFee: 0.3,
+      gasFeeEstimate: {
+        ethereum: { low: 1, average: 2, high: 3 },
+        arbitrum: { low: 3, average: 2, high: 1 },
+        solana: { low: 0.01, average: 0.02, high: 0.03 },
+      },
+    }], requested);
+
+    expect(result.accepted[0].gasFeeEstimate).toEqual({ ethereum: { low: 1, average: 2, high: 3 } });
+    expect(result.sanitized.map(issue => issue.reason)).toEqual(['invalid_gas_estimate', 'unsupported_chain']);
+  });
+
+  it('rejects implausible swap fees', () => {
+    const result = validateDEXFeeData([{ dexId: 'uniswap', swapFee: 30 }], requested);
+
+    expect(result.accepted).toHaveLength(0);
+    expect(result.rejected[0].issues[0].reason).toBe('out_of_range');
+  });
+});
@@ -0,0 +1,527 @@
+import {
+  MIN_PLAUSIBLE_FEE_PERCENT,
+  MAX_PLAUSIBLE_FEE_PERCENT,
+  MAX_PLAUSIBLE_FUNDING_RATE_PERCENT,
+  MAX_PLAUSIBLE_BORROW_RATE_PERCENT,
+} from '@/config/constants';
+import { CEXFeeData, DEXFeeData } from '@/lib/types/api';
+import { CEXFeeTier, WithdrawalFees } from '@/lib/types/exchange';
+import { normalizeNetwork } from '@/lib/utils/withdrawal-fees';
+
+/**
+ * AI Response Validation
+ *
+ * Checks parsed AI records before they reach mergeCEXFeeData/mergeDEXFeeData:
+ * - the record id must match one of the requested exchanges
+ * - fees must be numbers (or null) within the plausible range
+ * - maker fee must not exceed taker fee (catches swapped fields)
+ *
+ * Records failing any core check are rejected with per-field reasons.
+ * Invalid withdrawal/deposit/gas entries, fee tiers, derivatives fees,
+ * confidence scores and source URLs are dropped without rejecting the record.
+ */
+
+export type ValidationReason =
+  | 'invalid_shape'
+  | 'unknown_id'
+  | 'duplicate_id'
+  | 'not_a_number'
+  | 'out_of_range'
+  | 'maker_exceeds_taker'
+  | 'invalid_gas_estimate'
+  | 'unsupported_chain'
+  | 'invalid_fee_tier'
+  | 'invalid_source';
+
+export interface FieldIssue {
+  field: string;
+  reason: ValidationReason;
+  value: unknown;
+  message: string;
+}
+
+export class AIValidationError extends Error {
+  constructor(
+    public recordId: string | null,
+    public issues: FieldIssue[]
+  ) {
+    super(`AI record ${recordId ?? '(unknown)'} rejected: ${issues.map(issue => `${issue.field} ${issue.reason}`).join(', ')}`);
+    this.name = 'AIValidationError';
+  }
+}
+
+export interface ValidationResult<T> {
+  accepted: T[];
+  rejected: AIValidationError[];
+  sanitized: FieldIssue[]; // Dropped sub-fields on accepted records
+}
+
+// Per-type validation counters exposed through /api/ai-status
+export interface ValidationStats {
+  acceptedRecords: number;
+  rejectedRecords: number;
+  sanitizedFields: number;
+  rejectionReasons: Partial<Record<ValidationReason, number>>;
+  recentRejections: { recordId: string | null; issues: FieldIssue[]; rejectedAt: string }[];
+  lastValidatedAt: string | null;
+}
+
+declare global {
+  var aiValidationStats: { cex: ValidationStats; dex: ValidationStats } | undefined;
+}
+
+const MAX_RECENT_REJECTIONS = 20;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkFee(field: string, value: unknown): FieldIssue | null {
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return { field, reason: 'not_a_number', value, message: `${field} must be a number or null` };
+  }
+
+  if (value < MIN_PLAUSIBLE_FEE_PERCENT || value > MAX_PLAUSIBLE_FEE_PERCENT) {
+    return {
+      field,
+      reason: 'out_of_range',
+      value,
+      message: `${field} must be between ${MIN_PLAUSIBLE_FEE_PERCENT}% and ${MAX_PLAUSIBLE_FEE_PERCENT}%`,
+    };
+  }
+
+  return null;
+}
+
+function checkRecordId(
+  field: string,
+  value: unknown,
+  requestedIds: Set<string>,
+  seenIds: Set<string>
+): FieldIssue | null {
+  if (typeof value !== 'string' || !requestedIds.has(value)) {
+    return { field, reason: 'unknown_id', value, message: `${field} does not match any requested exchange` };
+  }
+
+  if (seenIds.has(value)) {
+    return { field, reason: 'duplicate_id', value, message: `${field} appears more than once in the response` };
+  }
+
+  return null;
+}
+
+// Keep only non-negative numeric amounts, reporting dropped coins
+function sanitizeCoinAmounts(
+  field: string,
+  value: unknown,
+  issues: FieldIssue[]
+): { [coin: string]: number } {
+  if (!isRecord(value)) {
+    return {};
+  }
+
+  const amounts: { [coin: string]: number } = {};
+  Object.entries(value).forEach(([coin, amount]) => {
+    if (amount === null || amount === undefined) {
+      return;
+    }
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      issues.push({ field: `${field}.${coin}`, reason: 'not_a_number', value: amount, message: `${field}.${coin} must be a non-negative number` });
+      return;
+    }
+    amounts[coin] = amount;
+  });
+
+  return amounts;
+}
+
+// Keep coin -> network entries with a non-negative fee, network names normalized
+function sanitizeWithdrawalFees(value: unknown, issues: FieldIssue[]): WithdrawalFees {
+  if (!isRecord(value)) {
+    return {};
+  }
+
+  const fees: WithdrawalFees = {};
+  Object.entries(value).forEach(([coin, networks]) => {
+    if (networks === null || networks === undefined) {
+      return;
+    }
+    if (!isRecord(networks)) {
+      issues.push({ field: `withdrawalFees.${coin}`, reason: 'invalid_shape', value: networks, message: `withdrawalFees.${coin} must map networks to fees` });
+      return;
+    }
+
+    Object.entries(networks).forEach(([network, entry]) => {
+      const field = `withdrawalFees.${coin}.${network}`;
+      if (entry === null || entry === undefined) {
+        return;
+      }
+
+      const fee = isRecord(entry) ? entry.fee : undefined;
+      const minWithdrawal = isRecord(entry) ? entry.minWithdrawal ?? null : null;
+      const enabled = isRecord(entry) ? entry.enabled ?? true : true;
+      const validFee = typeof fee === 'number' && Number.isFinite(fee) && fee >= 0;
+      const validMinimum = minWithdrawal === null || (typeof minWithdrawal === 'number' && Number.isFinite(minWithdrawal) && minWithdrawal >= 0);
+
+      if (!validFee || !validMinimum || typeof enabled !== 'boolean') {
+        issues.push({ field, reason: 'not_a_number', value: entry, message: `${field} must have a non-negative fee, optional minWithdrawal and enabled flag` });
+        return;
+      }
+
+      const coinKey = coin.trim().toUpperCase();
+      fees[coinKey] = {
+        ...fees[coinKey],
+        [normalizeNetwork(network)]: { fee: fee as number, minWithdrawal: minWithdrawal as number | null, enabled },
+      };
+    });
+  });
+
+  return fees;
+}
+
+// Keep tiers with a volume threshold, plausible fees and maker <= taker, ordered by threshold
+function sanitizeFeeTiers(value: unknown, issues: FieldIssue[]): CEXFeeTier[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const tiers: CEXFeeTier[] = [];
+  value.forEach((tier, index) => {
+    const field = `feeTiers.${index}`;
+    const reject = (message: string) => issues.push({ field, reason: 'invalid_fee_tier', value: tier, message });
+
+    if (!isRecord(tier)) {
+      reject(`${field} must be an object`);
+      return;
+    }
+
+    const minVolume30d = tier.minVolume30d;
+    if (typeof minVolume30d !== 'number' || !Number.isFinite(minVolume30d) || minVolume30d < 0) {
+      reject(`${field}.minVolume30d must be a non-negative number`);
+      return;
+    }
+
+    const makerFee = tier.makerFee ?? null;
+    const takerFee = tier.takerFee ?? null;
+    if (checkFee(`${field}.makerFee`, makerFee) || checkFee(`${field}.takerFee`, takerFee)) {
+      reject(`${field} fees must be numbers or null within the plausible range`);
+      return;
+    }
+    if (makerFee === null && takerFee === null) {
+      reject(`${field} has no maker or taker fee`);
+      return;
+    }
+    if (typeof makerFee === 'number' && typeof takerFee === 'number' && makerFee > takerFee) {
+      reject(`${field} maker fee is higher than taker fee`);
+      return;
+    }
+    if (tiers.some(existing => existing.minVolume30d === minVolume30d)) {
+      reject(`${field} repeats volume threshold ${minVolume30d}`);
+      return;
+    }
+
+    const tokenDiscount = tier.tokenDiscount ?? null;
+    const validDiscount = typeof tokenDiscount === 'number' && tokenDiscount > 0 && tokenDiscount < 100;
+    if (tokenDiscount !== null && !validDiscount) {
+      issues.push({ field: `${field}.tokenDiscount`, reason: 'invalid_fee_tier', value: tokenDiscount, message: `${field}.tokenDiscount must be a percentage between 0 and 100` });
+    }
+
+    tiers.push({
+      name: typeof tier.name === 'string' && tier.name.trim() ? tier.name.trim() : null,
+      minVolume30d,
+      makerFee: makerFee as number | null,
+      takerFee: takerFee as number | null,
+      tokenDiscount: validDiscount ? tokenDiscount as number : null,
+    });
+  });
+
+  return tiers.sort((a, b) => a.minVolume30d - b.minVolume30d);
+}
+
+// Keep futures fees within the plausible range (maker <= taker), funding and borrow rates within their own ranges
+function sanitizeDerivativesFees(
+  record: Record<string, unknown>,
+  issues: FieldIssue[]
+): Pick<CEXFeeData, 'futuresMakerFee' | 'futuresTakerFee' | 'fundingRate' | 'marginBorrowRate'> {
+  const keepFee = (field: string): number | null => {
+    const value = record[field] ?? null;
+    const issue = checkFee(field, value);
+    if (issue) {
+      issues.push(issue);
+      return null;
+    }
+    return value as number | null;
+  };
+
+  const keepRate = (field: string, min: number, max: number): number | null => {
+    const value = record[field] ?? null;
+    if (value === null) {
+      return null;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      issues.push({ field, reason: 'out_of_range', value, message: `${field} must be a number between ${min}% and ${max}%` });
+      return null;
+    }
+    return value;
+  };
+
+  let futuresMakerFee = keepFee('futuresMakerFee');
+  let futuresTakerFee = keepFee('futuresTakerFee');
+  if (futuresMakerFee !== null && futuresTakerFee !== null && futuresMakerFee > futuresTakerFee) {
+    issues.push({
+      field: 'futuresMakerFee',
+      reason: 'maker_exceeds_taker',
+      value: { futuresMakerFee, futuresTakerFee },
+      message: 'Futures maker fee is higher than taker fee - fields are likely swapped',
+    });
+    futuresMakerFee = null;
+    futuresTakerFee = null;
+  }
+
+  return {
+    futuresMakerFee,
+    futuresTakerFee,
+    fundingRate: keepRate('fundingRate', -MAX_PLAUSIBLE_FUNDING_RATE_PERCENT, MAX_PLAUSIBLE_FUNDING_RATE_PERCENT),
+    marginBorrowRate: keepRate('marginBorrowRate', 0, MAX_PLAUSIBLE_BORROW_RATE_PERCENT),
+  };
+}
+
+// Keep confidence only in 0-1 and source URLs only when http(s)
+function sanitizeSource(
+  record: Record<string, unknown>,
+  issues: FieldIssue[]
+): { confidence: number | null; sourceUrl: string | null } {
+  let confidence: number | null = null;
+  let sourceUrl: string | null = null;
+
+  if (record.confidence !== undefined && record.confidence !== null) {
+    if (typeof record.confidence === 'number' && record.confidence >= 0 && record.confidence <= 1) {
+      confidence = record.confidence;
+    } else {
+      issues.push({ field: 'confidence', reason: 'invalid_source', value: record.confidence, message: 'confidence must be a number between 0 and 1' });
+    }
+  }
+
+  if (record.sourceUrl !== undefined && record.sourceUrl !== null) {
+    try {
+      const url = new URL(String(record.sourceUrl));
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error('Unsupported protocol');
+      }
+      sourceUrl = url.toString();
+    } catch {
+      issues.push({ field: 'sourceUrl', reason: 'invalid_source', value: record.sourceUrl, message: 'sourceUrl must be an http(s) URL' });
+    }
+  }
+
+  return { confidence, sourceUrl };
+}
+
+/**
+ * Validate parsed CEX records against the exchanges that were requested
+ */
+export function validateCEXFeeData(
+  records: unknown,
+  requestedIds: string[]
+): ValidationResult<CEXFeeData> {
+  const result: ValidationResult<CEXFeeData> = { accepted: [], rejected: [], sanitized: [] };
+
+  if (!Array.isArray(records)) {
+    result.rejected.push(new AIValidationError(null, [
+      { field: 'root', reason: 'invalid_shape', value: typeof records, message: 'Response must be a JSON array' },
+    ]));
+    return result;
+  }
+
+  const requested = new Set(requestedIds);
+  const seen = new Set<string>();
+
+  records.forEach(record => {
+    if (!isRecord(record)) {
+      result.rejected.push(new AIValidationError(null, [
+        { field: 'record', reason: 'invalid_shape', value: record, message: 'Record must be an object' },
+      ]));
+      return;
+    }
+
+    const issues = [
+      checkRecordId('exchangeId', record.exchangeId, requested, seen),
+      checkFee('makerFee', record.makerFee ?? null),
+      checkFee('takerFee', record.takerFee ?? null),
+    ].filter((issue): issue is FieldIssue => issue !== null);
+
+    const makerFee = record.makerFee ?? null;
+    const takerFee = record.takerFee ?? null;
+    if (issues.length === 0 && typeof makerFee === 'number' && typeof takerFee === 'number' && makerFee > takerFee) {
+      issues.push({
+        field: 'makerFee',
+        reason: 'maker_exceeds_taker',
+        value: { makerFee, takerFee },
+        message: 'Maker fee is higher than taker fee - fields are likely swapped',
+      });
+    }
+
+    const recordId = typeof record.exchangeId === 'string' ? record.exchangeId : null;
+
+    if (issues.length > 0) {
+      result.rejected.push(new AIValidationError(recordId, issues));
+      return;
+    }
+
+    seen.add(recordId as string);
+    result.accepted.push({
+      exchangeId: recordId as string,
+      makerFee: makerFee as number | null,
+      takerFee: takerFee as number | null,
+      withdrawalFees: sanitizeWithdrawalFees(record.withdrawalFees, result.sanitized),
+      depositFees: sanitizeCoinAmounts('depositFees', record.depositFees, result.sanitized),
+      feeTiers: sanitizeFeeTiers(record.feeTiers, result.sanitized),
+      ...sanitizeDerivativesFees(record, result.sanitized),
+      ...sanitizeSource(record, result.sanitized),
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Validate parsed DEX records against the DEXes that were requested
+ * Gas estimates are only kept for chains the DEX is listed on
+ */
+export function validateDEXFeeData(
+  records: unknown,
+  requested: { dexId: string; blockchain: string[] }[]
+): ValidationResult<DEXFeeData> {
+  const result: ValidationResult<DEXFeeData> = { accepted: [], rejected: [], sanitized: [] };
+
+  if (!Array.isArray(records)) {
+    result.rejected.push(new AIValidationError(null, [
+      { field: 'root', reason: 'invalid_shape', value: typeof records, message: 'Response must be a JSON array' },
+    ]));
+    return result;
+  }
+
+  const requestedIds = new Set(requested.map(dex => dex.dexId));
+  const chainsById = new Map(requested.map(dex => [dex.dexId, dex.blockchain.map(chain => chain.toLowerCase())]));
+  const seen = new Set<string>();
+
+  records.forEach(record => {
+    if (!isRecord(record)) {
+      result.rejected.push(new AIValidationError(null, [
+        { field: 'record', reason: 'invalid_shape', value: record, message: 'Record must be an object' },
+      ]));
+      return;
+    }
+
+    const issues = [
+      checkRecordId('dexId', record.dexId, requestedIds, seen),
+      checkFee('swapFee', record.swapFee ?? null),
+    ].filter((issue): issue is FieldIssue => issue !== null);
+
+    const recordId = typeof record.dexId === 'string' ? record.dexId : null;
+
+    if (issues.length > 0) {
+      result.rejected.push(new AIValidationError(recordId, issues));
+      return;
+    }
+
+    seen.add(recordId as string);
+
+    const supportedChains = chainsById.get(recordId as string) || [];
+    const gasFeeEstimate: DEXFeeData['gasFeeEstimate'] = {};
+
+    if (isRecord(record.gasFeeEstimate)) {
+      Object.entries(record.gasFeeEstimate).forEach(([chain, estimate]) => {
+        const field = `gasFeeEstimate.${chain}`;
+
+        if (supportedChains.length > 0 && !supportedChains.includes(chain.toLowerCase())) {
+          result.sanitized.push({ field, reason: 'unsupported_chain', value: chain, message: `${chain} is not listed for this DEX` });
+          return;
+        }
+
+        const values = isRecord(estimate) ? [estimate.low, estimate.average, estimate.high] : [];
+        const valid = values.length === 3
+          && values.every(value => typeof value === 'number' && Number.isFinite(value) && value >= 0)
+          && (values[0] as number) <= (values[1] as number)
+          && (values[1] as number) <= (values[2] as number);
+
+        if (!valid) {
+          result.sanitized.push({ field, reason: 'invalid_gas_estimate', value: estimate, message: `${field} must have numeric low <= average <= high` });
+          return;
+        }
+
+        gasFeeEstimate[chain] = {
+          low: values[0] as number,
+          average: values[1] as number,
+          high: values[2] as number,
+        };
+      });
+    }
+
+    result.accepted.push({
+      dexId: recordId as string,
+      swapFee: (record.swapFee ?? null) as number | null,
+      gasFeeEstimate,
+      ...sanitizeSource(record, result.sanitized),
+    });
+  });
+
+  return result;
+}
+
+function emptyStats(): ValidationStats {
+  return {
+    acceptedRecords: 0,
+    rejectedRecords: 0,
+    sanitizedFields: 0,
+    rejectionReasons: {},
+    recentRejections: [],
+    lastValidatedAt: null,
+  };
+}
+
+/**
+ * Get validation counters for CEX and DEX AI responses (per process)
+ */
+export function getValidationStats(): { cex: ValidationStats; dex: ValidationStats } {
+  if (!global.aiValidationStats) {
+    global.aiValidationStats = { cex: emptyStats(), dex: emptyStats() };
+  }
+  return global.aiValidationStats;
+}
+
+/**
+ * Add a validation result to the counters and log rejections
+ */
+export function recordValidationResult(type: 'cex' | 'dex', result: ValidationResult<unknown>): void {
+  const stats = getValidationStats()[type];
+  const now = new Date().toISOString();
+
+  stats.acceptedRecords += result.accepted.length;
+  stats.rejectedRecords += result.rejected.length;
+  stats.sanitizedFields += result.sanitized.length;
+  stats.lastValidatedAt = now;
+
+  result.rejected.forEach(error => {
+    error.issues.forEach(issue => {
+      stats.rejectionReasons[issue.reason] = (stats.rejectionReasons[issue.reason] || 0) + 1;
+    });
+    stats.recentRejections.push({ recordId: error.recordId, issues: error.issues, rejectedAt: now });
+    console.warn(`⚠️ ${error.message}`);
+  });
+
+  stats.recentRejections = stats.recentRejections.slice(-MAX_RECENT_REJECTIONS);
+}
+
+/**
+ * Reset validation counters (used when clearing AI state)
+ */
+export function resetValidationStats(type?: 'cex' | 'dex'): void {
+  const stats = getValidationStats();
+  if (!type || type === 'cex') stats.cex = emptyStats();
+  if (!type || type === 'dex') stats.dex = emptyStats();
+}
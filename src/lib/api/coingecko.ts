@@ -3,6 +3,8 @@ import { CoinGeckoExchange } from '@/lib/types/api';
 import { fetchWithRetry } from './error-handler';
 import { fetchWithRateLimit } from './rate-limiter';
 
+const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY;
+
 export async function fetchExchanges(perPage: number = 100): Promise<CoinGeckoExchange[]> {
   const url = `${COINGECKO_BASE_URL}/exchanges?per_page=${perPage}`;
   
@@ -28,3 +30,29 @@ export async function fetchExchangeTickers(exchangeId: string, page: number = 1)
   const response = await fetchWithRetry(url);
   return response.json();
 }
+
+/**
+ * Fetch the USD price of a coin by ticker symbol (e.g. "ETH")
+ * Returns null when CoinGecko has no price for the symbol
+ */
+export async function fetchUSDPriceBySymbol(symbol: string): Promise<number | null> {
+  const url = `${COINGECKO_BASE_URL}/simple/price?vs_currencies=usd&symbols=${encodeURIComponent(symbol.toLowerCase())}`;
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+  };
+
+  if (COINGECKO_API_KEY) {
+    headers['x-cg-demo-api-key'] = COINGECKO_API_KEY;
+  }
+
+  const response = await fetchWithRateLimit(url, { headers });
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  }
+
+  const prices = await response.json();
+  const price = prices?.[symbol.toLowerCase()]?.usd;
+  return typeof price === 'number' && price > 0 ? price : null;
+}
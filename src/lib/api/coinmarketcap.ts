@@ -384,6 +384,7 @@ export async function fetchCombinedDEXData(): Promise<any[]> {
       return {
         id: dex.name?.toLowerCase().replace(/\s+/g, '-') || '',
         name: dex.name || 'Unknown DEX',
+        slug: dex.slug || null, // DeFiLlama protocol slug for linking back to the source
         // Use real data from DeFiLlama API
         volume24h: dex.total24h || 0,
         volume7d: dex.total7d || 0,
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CEXFees } from '@/lib/types/exchange';
+import { CEXFeeData } from '@/lib/types/api';
+import { mergeCEXFeeData } from './gemini';
+
+vi.mock('./llm', () => ({ callLLM: vi.fn() }));
+
+const aiSource = { provider: 'ai:gemini', fetchedAt: '2024-01-01T00:00:00.000Z', confidence: null, sourceUrl: null };
+
+function exchange(fields: Partial<CEXFees>): CEXFees {
+  return {
+    exchangeId: 'binance',
+    exchangeName: 'Binance',
+    logo: '',
+    makerFee: 0.1,
+    takerFee: 0.1,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: 0.02,
+    futuresTakerFee: 0.05,
+    fundingRate: 0.01,
+    marginBorrowRate: 8,
+    feeTiers: [{ name: null, minVolume30d: 0, makerFee: 0.1, takerFee: 0.1, tokenDiscount: null }],
+    feeSources: { futuresMakerFee: aiSource, fundingRate: aiSource },
+    ...fields,
+  };
+}
+
+function feeData(fields: Partial<CEXFeeData>): CEXFeeData {
+  return {
+    exchangeId: 'binance',
+    makerFee: null,
+    takerFee: null,
+    withdrawalFees: {},
+    depositFees: {},
+    ...fields,
+  };
+}
+
+describe('mergeCEXFeeData', () => {
+  it('overwrites fields the providers returned', () => {
+    const source = { ...aiSource, provider: 'static', fetchedAt: '2024-02-01T00:00:00.000Z' };
+    const [merged] = mergeCEXFeeData([exchange({})], [feeData({
+      makerFee: 0.08,
+      takerFee: 0.09,
+      futuresMakerFee: 0.01,
+      fundingRate: -0.005,
+      feeSources: { makerFee: source, futuresMakerFee: source },
+    })]);
+
+    expect(merged).toMatchObject({ makerFee: 0.08, takerFee: 0.09, futuresMakerFee: 0.01, fundingRate: -0.005 });
+    expect(merged.feeSources?.futuresMakerFee).toEqual(source);
+  });
+
+  it('keeps existing values and their sources when the providers return null', () => {
+    const existing = exchange({});
+    const [merged] = mergeCEXFeeData([existing], [feeData({ futuresMakerFee: null, fundingRate: null, feeTiers: [] })]);
+
+    expect(merged).toMatchObject({
+      makerFee: 0.1,
+      takerFee: 0.1,
+      futuresMakerFee: 0.02,
+      futuresTakerFee: 0.05,
+      fundingRate: 0.01,
+      marginBorrowRate: 8,
+    });
+    expect(merged.feeTiers).toEqual(existing.feeTiers);
+    expect(merged.feeSources).toEqual(existing.feeSources);
+  });
+
+  it('leaves exchanges without provider data untouched', () => {
+    const existing = exchange({ exchangeId: 'kraken' });
+
+    expect(mergeCEXFeeData([existing], [feeData({ makerFee: 0.2 })])).toEqual([existing]);
+  });
+});
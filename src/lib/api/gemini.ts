@@ -1,33 +1,17 @@
-import { GoogleGenAI } from '@google/genai';
+import { CALCULATOR_ASSETS } from '@/config/constants';
 import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { CEXFeeData, DEXFeeData } from '@/lib/types/api';
+import { validateCEXFeeData, validateDEXFeeData, recordValidationResult } from './ai-validation';
+import { callLLM } from './llm';
 
 /**
- * Google Gemini API Client for AI-powered fee data collection
+ * AI-powered fee data collection
  * 
- * Uses official @google/genai SDK with Gemini 2.5 Flash model
+ * Prompts are sent through callLLM (see llm.ts) - Gemini by default,
+ * failing over to other configured LLM backends
  * Provides structured JSON responses with actual trading fees
  */
 
-interface CEXFeeData {
-  exchangeId: string;
-  makerFee: number | null;
-  takerFee: number | null;
-  withdrawalFees: { [coin: string]: number };
-  depositFees: { [coin: string]: number };
-}
-
-interface DEXFeeData {
-  dexId: string;
-  swapFee: number | null;
-  gasFeeEstimate: {
-    [blockchain: string]: {
-      low: number;
-      average: number;
-      high: number;
-    };
-  };
-}
-
 /**
  * Generate dynamic prompt for CEX fee data collection
  */
@@ -72,6 +56,8 @@ function generateCEXPrompt(exchanges: CEXFees[]): string {
   const exchangeList = exchanges.map(ex => `| ${ex.exchangeId} | **${ex.exchangeName}** | `).join('\n');
   
   return `**Find and Retrieve** the current, *lowest-tier* or *lowest-level* specificaly SPOT TRADING maker and taker fees (as a percentage, e.g., 0.1 for 0.1%) from the official SPOT TRADING fee page for each exchange listed below search only by identical "Exchange Name" provided.
+**Also list** the full published SPOT volume tier (VIP) schedule for each exchange in "feeTiers" - "makerFee"/"takerFee" stay the lowest-tier fees.
+**Also list** the withdrawal fee per network for ${CALCULATOR_ASSETS.join(', ')} from the official withdrawal fee page in "withdrawalFees".
 **Format** the verified data into the specified JSON structure and Return only the JSON array, no additional text or explanation.
 
  **List of Exchanges to Check:**
@@ -84,7 +70,62 @@ function generateCEXPrompt(exchanges: CEXFees[]): string {
     "exchangeId": "string (use the ID provided above)",
     "exchange_name": "Binance",
     "makerFee": number | null (percentage, e.g., 0.1 for 0.1%),
-    "takerFee": number | null (percentage, e.g., 0.1 for 0.1%)
+    "takerFee": number | null (percentage, e.g., 0.1 for 0.1%),
+    "feeTiers": [
+      {
+        "name": "string | null (tier name as shown on the fee page, e.g. VIP 1)",
+        "minVolume30d": number (30-day trading volume in USD required for this tier, 0 for the base tier),
+        "makerFee": number | null (percentage),
+        "takerFee": number | null (percentage),
+        "tokenDiscount": number | null (percent off fees when holding or paying with the exchange token, e.g. 25 for 25%)
+      }
+      // ... every published SPOT volume tier, lowest volume first; [] when the exchange publishes no tiers
+    ],
+    "withdrawalFees": {
+      "<COIN>": {
+        "<NETWORK>": {
+          "fee": number (absolute amount in the coin),
+          "minWithdrawal": number | null (minimum withdrawal amount in the coin),
+          "enabled": boolean (false when withdrawals on this network are suspended)
+        }
+        // ... one entry per network the exchange supports for the coin, e.g. ERC20, TRC20, BEP20, Solana
+      }
+      // ... for coins ${CALCULATOR_ASSETS.join(', ')}
+    },
+    "sourceUrl": "string | null (URL of the official fee page you took the fees from)",
+    "confidence": number (0 to 1, how certain you are that these fees are current)
+  },
+  // ... continue for all listed exchanges
+]
+`;
+}
+
+/**
+ * Generate prompt for CEX derivatives (perpetual futures / margin) fee collection
+ */
+function generateCEXDerivativesPrompt(exchanges: CEXFees[]): string {
+  const exchangeList = exchanges.map(ex => `| ${ex.exchangeId} | **${ex.exchangeName}** | `).join('\n');
+
+  return `**Find and Retrieve** the current, *lowest-tier* USDT-margined PERPETUAL FUTURES maker and taker fees (as a percentage, e.g., 0.02 for 0.02%) from the official DERIVATIVES / FUTURES fee page for each exchange listed below search only by identical "Exchange Name" provided.
+Also give the typical BTCUSDT perpetual funding rate per 8 hours and the USDT margin borrow rate (annualized) when the exchange publishes them.
+Use null for any exchange that does not offer perpetual futures or margin trading, or for values you cannot verify.
+**Format** the verified data into the specified JSON structure and Return only the JSON array, no additional text or explanation.
+
+ **List of Exchanges to Check:**
+| Exchange ID | Exchange Name |
+ ${exchangeList}
+
+**Required Output Schema (return this data in JSON array format):**
+[
+  {
+    "exchangeId": "string (use the ID provided above)",
+    "exchange_name": "Binance",
+    "futuresMakerFee": number | null (percentage, e.g., 0.02 for 0.02%),
+    "futuresTakerFee": number | null (percentage, e.g., 0.05 for 0.05%),
+    "fundingRate": number | null (percentage per 8 hours, can be negative, e.g., 0.01 for 0.01%),
+    "marginBorrowRate": number | null (annualized percentage for borrowing USDT on margin, e.g., 8 for 8%),
+    "sourceUrl": "string | null (URL of the official derivatives fee page you took the fees from)",
+    "confidence": number (0 to 1, how certain you are that these fees are current)
   },
   // ... continue for all listed exchanges
 ]
@@ -129,7 +170,9 @@ Please return a JSON array with the following structure for each DEX:
       "average": number | null (USD),
       "high": number | null (USD)
     }
-  }
+  },
+  "sourceUrl": "string | null (URL of the official fee documentation you took the swap fee from)",
+  "confidence": number (0 to 1, how certain you are that these fees are current)
 }
 
 Only include gas estimates for blockchains that the DEX actually operates on.
@@ -137,59 +180,12 @@ Return only the JSON array, no additional text or explanation.`;
 }
 
 /**
- * Call Gemini API using official SDK
+ * Parse JSON response from the LLM, handling potential formatting issues
+ * Records are untyped here - run them through ai-validation before use
  */
-async function callGeminiAPI(prompt: string): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is required');
-  }
-
-  const ai = new GoogleGenAI({
-    apiKey: apiKey,
-  });
-
-  const model = 'gemini-2.5-flash';
-  
-  const contents = [{
-    role: 'user' as const,
-    parts: [{
-      text: prompt,
-    }],
-  }];
+function parseAIJSON(responseText: string): unknown[] {
+  let parsed: unknown;
 
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents,
-    });
-
-    if (!response || !response.text) {
-      throw new Error('No response from Gemini API');
-    }
-
-    return response.text;
-  } catch (error: any) {
-    // Handle specific Gemini API errors
-    if (error.message?.includes('503') || error.message?.includes('overloaded')) {
-      throw new Error('Gemini API is temporarily overloaded. Please try again in a few minutes.');
-    }
-    if (error.message?.includes('429') || error.message?.includes('quota')) {
-      throw new Error('Gemini API rate limit exceeded. Please try again later.');
-    }
-    if (error.message?.includes('401') || error.message?.includes('unauthorized')) {
-      throw new Error('Invalid Gemini API key. Please check your configuration.');
-    }
-    
-    throw new Error(`Gemini API error: ${error.message}`);
-  }
-}
-
-/**
- * Parse JSON response from Gemini, handling potential formatting issues
- */
-function parseGeminiJSON<T>(responseText: string): T[] {
   try {
     // Remove any markdown code blocks or extra formatting
     const cleanedText = responseText
@@ -197,79 +193,87 @@ function parseGeminiJSON<T>(responseText: string): T[] {
       .replace(/```\n?/g, '')
       .trim();
     
-    return JSON.parse(cleanedText);
+    parsed = JSON.parse(cleanedText);
   } catch (error) {
-    console.error('Failed to parse Gemini response:', responseText);
+    console.error('Failed to parse AI response:', responseText);
     throw new Error(`Failed to parse AI response as JSON: ${error}`);
   }
+
+  if (!Array.isArray(parsed)) {
+    console.error('AI response is not a JSON array:', responseText);
+    throw new Error('AI response is not a JSON array');
+  }
+
+  return parsed;
 }
 
 /**
- * Fetch CEX fee data using Gemini AI with retry logic
+ * Fetch CEX fee data using the LLM backends
+ * Errors are thrown - the enrichment job runner retries failed batches and trips the circuit breaker
  */
 export async function fetchCEXFeesFromAI(exchanges: CEXFees[]): Promise<CEXFeeData[]> {
   if (exchanges.length === 0) {
     return [];
   }
 
-  const maxRetries = 3;
-  let lastError: Error | null = null;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const prompt = generateCEXPrompt(exchanges);
-      const responseText = await callGeminiAPI(prompt);
-      const feeData = parseGeminiJSON<CEXFeeData>(responseText);
-      
-      console.log(`✓ Successfully fetched AI fee data for ${feeData.length} CEX exchanges (attempt ${attempt})`);
-      return feeData;
-    } catch (error) {
-      lastError = error as Error;
-      console.error(`❌ AI attempt ${attempt}/${maxRetries} failed:`, error instanceof Error ? error.message : error);
-      
-      // Don't retry on authentication errors
-      if (error instanceof Error && error.message.includes('Invalid Gemini API key')) {
-        break;
-      }
-      
-      // Wait before retrying (much longer delays for overloaded API)
-      if (attempt < maxRetries) {
-        const waitTime = Math.pow(4, attempt) * 5000; // 20s, 80s, 320s (much longer waits)
-        console.log(`⏳ Waiting ${waitTime/1000}s before retry...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-    }
+  const prompt = generateCEXPrompt(exchanges);
+  const { text: responseText, backend } = await callLLM(prompt);
+  const records = parseAIJSON(responseText);
+
+  // Reject records with unknown ids, implausible or swapped fees
+  const validation = validateCEXFeeData(records, exchanges.map(ex => ex.exchangeId));
+  recordValidationResult('cex', validation);
+  const feeData = validation.accepted.map(record => ({ ...record, provider: `ai:${backend}` }));
+
+  console.log(`✓ Successfully fetched AI fee data for ${feeData.length} CEX exchanges (${validation.rejected.length} rejected)`);
+  return feeData;
+}
+
+/**
+ * Fetch CEX derivatives fee data using the LLM backends
+ * Records only carry the futures/margin fields - the provider registry merges them with the spot records
+ */
+export async function fetchCEXDerivativesFeesFromAI(exchanges: CEXFees[]): Promise<CEXFeeData[]> {
+  if (exchanges.length === 0) {
+    return [];
   }
 
-  console.error(`❌ All AI attempts failed. Last error:`, lastError?.message);
-  // Return empty array on error - don't break the main API
-  return [];
+  const prompt = generateCEXDerivativesPrompt(exchanges);
+  const { text: responseText, backend } = await callLLM(prompt);
+  const records = parseAIJSON(responseText);
+
+  const validation = validateCEXFeeData(records, exchanges.map(ex => ex.exchangeId));
+  recordValidationResult('cex', validation);
+  const feeData = validation.accepted.map(record => ({ ...record, provider: `ai:${backend}` }));
+
+  console.log(`✓ Successfully fetched AI derivatives fee data for ${feeData.length} CEX exchanges (${validation.rejected.length} rejected)`);
+  return feeData;
 }
 
 /**
- * Fetch DEX fee data using Gemini AI
+ * Fetch DEX fee data using the LLM backends
  */
 export async function fetchDEXFeesFromAI(dexes: DEXFees[]): Promise<DEXFeeData[]> {
   if (dexes.length === 0) {
     return [];
   }
 
-  try {
-    const prompt = generateDEXPrompt(dexes);
-    const responseText = await callGeminiAPI(prompt);
-    const feeData = parseGeminiJSON<DEXFeeData>(responseText);
-    
-    console.log(`Successfully fetched AI fee data for ${feeData.length} DEX exchanges`);
-    return feeData;
-  } catch (error) {
-    console.error('Error fetching DEX fees from AI:', error);
-    // Return empty array on error - don't break the main API
-    return [];
-  }
+  const prompt = generateDEXPrompt(dexes);
+  const { text: responseText, backend } = await callLLM(prompt);
+  const records = parseAIJSON(responseText);
+
+  // Reject records with unknown ids or implausible fees, drop gas estimates for unlisted chains
+  const validation = validateDEXFeeData(records, dexes);
+  recordValidationResult('dex', validation);
+  const feeData = validation.accepted.map(record => ({ ...record, provider: `ai:${backend}` }));
+
+  console.log(`Successfully fetched AI fee data for ${feeData.length} DEX exchanges (${validation.rejected.length} rejected)`);
+  return feeData;
 }
 
 /**
  * Merge AI fee data with existing exchange data
+ * A null from the providers keeps the existing (e.g. carried-forward) value and its source
  */
 export function mergeCEXFeeData(exchanges: CEXFees[], aiData: CEXFeeData[]): CEXFees[] {
   const feeMap = new Map(aiData.map(fee => [fee.exchangeId, fee]));
@@ -280,10 +284,16 @@ export function mergeCEXFeeData(exchanges: CEXFees[], aiData: CEXFeeData[]): CEX
     if (aiFeesData) {
       return {
         ...exchange,
-        makerFee: aiFeesData.makerFee,
-        takerFee: aiFeesData.takerFee,
+        makerFee: aiFeesData.makerFee ?? exchange.makerFee,
+        takerFee: aiFeesData.takerFee ?? exchange.takerFee,
         withdrawalFees: aiFeesData.withdrawalFees,
         depositFees: aiFeesData.depositFees,
+        feeTiers: aiFeesData.feeTiers?.length ? aiFeesData.feeTiers : exchange.feeTiers ?? [],
+        futuresMakerFee: aiFeesData.futuresMakerFee ?? exchange.futuresMakerFee ?? null,
+        futuresTakerFee: aiFeesData.futuresTakerFee ?? exchange.futuresTakerFee ?? null,
+        fundingRate: aiFeesData.fundingRate ?? exchange.fundingRate ?? null,
+        marginBorrowRate: aiFeesData.marginBorrowRate ?? exchange.marginBorrowRate ?? null,
+        feeSources: { ...exchange.feeSources, ...aiFeesData.feeSources },
         lastUpdated: new Date().toISOString(),
       };
     }
@@ -306,6 +316,7 @@ export function mergeDEXFeeData(dexes: DEXFees[], aiData: DEXFeeData[]): DEXFees
         ...dex,
         swapFee: aiFeesData.swapFee,
         gasFeeEstimate: aiFeesData.gasFeeEstimate,
+        feeSources: aiFeesData.feeSources,
         lastUpdated: new Date().toISOString(),
       };
     }
@@ -0,0 +1,61 @@
+import { GoogleGenAI } from '@google/genai';
+import { GEMINI_MODEL } from '@/config/constants';
+import { LLMBackend } from './llm';
+
+/**
+ * Google Gemini LLM Backend
+ *
+ * Uses official @google/genai SDK (GEMINI_MODEL, default gemini-2.5-flash)
+ */
+export const geminiBackend: LLMBackend = {
+  name: 'gemini',
+
+  isConfigured() {
+    return !!process.env.GEMINI_API_KEY;
+  },
+
+  async generate(prompt: string): Promise<string> {
+    const apiKey = process.env.GEMINI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+
+    const ai = new GoogleGenAI({
+      apiKey: apiKey,
+    });
+
+    const contents = [{
+      role: 'user' as const,
+      parts: [{
+        text: prompt,
+      }],
+    }];
+
+    try {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents,
+      });
+
+      if (!response || !response.text) {
+        throw new Error('No response from Gemini API');
+      }
+
+      return response.text;
+    } catch (error: any) {
+      // Handle specific Gemini API errors
+      if (error.message?.includes('503') || error.message?.includes('overloaded')) {
+        throw new Error('Gemini API is temporarily overloaded. Please try again in a few minutes.');
+      }
+      if (error.message?.includes('429') || error.message?.includes('quota')) {
+        throw new Error('Gemini API rate limit exceeded. Please try again later.');
+      }
+      if (error.message?.includes('401') || error.message?.includes('unauthorized')) {
+        throw new Error('Invalid Gemini API key. Please check your configuration.');
+      }
+
+      throw new Error(`Gemini API error: ${error.message}`);
+    }
+  },
+};
@@ -0,0 +1,82 @@
+import { OPENAI_BASE_URL, OPENAI_MODEL, OPENAI_TIMEOUT_MS } from '@/config/constants';
+import { LLMBackend } from './llm';
+
+/**
+ * OpenAI-compatible LLM Backend
+ *
+ * Calls POST {OPENAI_BASE_URL}/chat/completions, so it also works with local
+ * servers exposing the same API (Ollama: http://localhost:11434/v1, llama.cpp server).
+ * OPENAI_API_KEY is optional for local servers. Requests are aborted after
+ * OPENAI_TIMEOUT_MS so a hung server fails over instead of stalling enrichment.
+ */
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+export const openAICompatibleBackend: LLMBackend = {
+  name: 'openai',
+
+  isConfigured() {
+    return !!process.env.OPENAI_API_KEY || !!process.env.OPENAI_BASE_URL;
+  },
+
+  async generate(prompt: string): Promise<string> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    const url = `${OPENAI_BASE_URL.replace(/\/+$/, '')}/chat/completions`;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), OPENAI_TIMEOUT_MS);
+
+    let body: ChatCompletionResponse;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: OPENAI_MODEL,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0,
+        }),
+        signal: controller.signal,
+      });
+
+      if (response.status === 503 || response.status === 502) {
+        throw new Error('OpenAI-compatible API is temporarily overloaded. Please try again in a few minutes.');
+      }
+      if (response.status === 429) {
+        throw new Error('OpenAI-compatible API rate limit exceeded. Please try again later.');
+      }
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('Invalid OpenAI-compatible API key. Please check your configuration.');
+      }
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible API error: HTTP ${response.status} ${response.statusText}`);
+      }
+
+      body = await response.json() as ChatCompletionResponse;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`OpenAI-compatible API request timed out after ${OPENAI_TIMEOUT_MS / 1000}s`);
+      }
+      if (error instanceof TypeError) {
+        // Connection refused / DNS failures mean the server is unavailable
+        throw new Error(`OpenAI-compatible API is temporarily overloaded or unreachable: ${error.message}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const text = body.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new Error('No response from OpenAI-compatible API');
+    }
+
+    return text;
+  },
+};
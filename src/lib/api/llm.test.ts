@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { callLLM, hasAvailableLLMBackend, LLMRateLimitError, resetLLMCircuitBreakers } from './llm';
+
+const backends = vi.hoisted(() => {
+  const fakeBackend = (name: string) => ({
+    name,
+    configured: true,
+    isConfigured() {
+      return this.configured;
+    },
+    generate: vi.fn<(prompt: string) => Promise<string>>(),
+  });
+  return { gemini: fakeBackend('gemini'), openai: fakeBackend('openai') };
+});
+
+vi.mock('./llm-gemini', () => ({ geminiBackend: backends.gemini }));
+vi.mock('./llm-openai', () => ({ openAICompatibleBackend: backends.openai }));
+
+beforeEach(() => {
+  backends.gemini.configured = true;
+  backends.openai.configured = true;
+  backends.gemini.generate.mockReset();
+  backends.openai.generate.mockReset();
+  resetLLMCircuitBreakers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('callLLM', () => {
+  it('uses the primary backend first', async () => {
+    backends.gemini.generate.mockResolvedValue('[]');
+
+    expect(await callLLM('prompt')).toEqual({ text: '[]', backend: 'gemini' });
+    expect(backends.openai.generate).not.toHaveBeenCalled();
+  });
+
+  it('fails over on any error from the primary backend', async () => {
+    backends.gemini.generate.mockRejectedValue(new Error('Invalid Gemini API key. Please check your configuration.'));
+    backends.openai.generate.mockResolvedValue('[]');
+
+    expect(await callLLM('prompt')).toEqual({ text: '[]', backend: 'openai' });
+    expect(hasAvailableLLMBackend()).toBe(true);
+  });
+
+  it('circuit-breaks an overloaded backend and skips it on later calls', async () => {
+    backends.gemini.generate.mockRejectedValue(new Error('Gemini API is temporarily overloaded.'));
+    backends.openai.generate.mockResolvedValue('[]');
+
+    await callLLM('prompt');
+    await callLLM('prompt');
+
+    expect(backends.gemini.generate).toHaveBeenCalledTimes(1);
+    expect(backends.openai.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws a rate-limit error when a backend is only rate-limited', async () => {
+    backends.gemini.generate.mockRejectedValue(new Error('Gemini API rate limit exceeded.'));
+    backends.openai.generate.mockRejectedValue(new Error('OpenAI-compatible API is temporarily overloaded.'));
+
+    const error = await callLLM('prompt').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMRateLimitError);
+    expect(error.message).not.toContain('overloaded');
+    expect(hasAvailableLLMBackend()).toBe(true); // Rate limits don't trip a breaker
+  });
+
+  it('rethrows the first other error when no backend answers', async () => {
+    backends.gemini.generate.mockRejectedValue(new Error('Invalid Gemini API key.'));
+    backends.openai.generate.mockRejectedValue(new Error('OpenAI-compatible API request timed out after 120s'));
+
+    await expect(callLLM('prompt')).rejects.toThrow('Invalid Gemini API key.');
+  });
+
+  it('reports every backend overloaded once all are circuit-broken', async () => {
+    backends.gemini.generate.mockRejectedValue(new Error('HTTP 503'));
+    backends.openai.generate.mockRejectedValue(new Error('OpenAI-compatible API request timed out after 120s'));
+
+    await expect(callLLM('prompt')).rejects.toThrow(/overloaded/);
+    expect(hasAvailableLLMBackend()).toBe(false);
+
+    await expect(callLLM('prompt')).rejects.toThrow(/overloaded/);
+    expect(backends.gemini.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('only calls configured backends', async () => {
+    backends.gemini.configured = false;
+    backends.openai.configured = false;
+
+    await expect(callLLM('prompt')).rejects.toThrow(/No LLM backend configured/);
+  });
+});
@@ -0,0 +1,154 @@
+import { LLM_BACKEND } from '@/config/constants';
+import { geminiBackend } from './llm-gemini';
+import { openAICompatibleBackend } from './llm-openai';
+
+/**
+ * LLM Backend Abstraction
+ *
+ * Fee prompts are sent through callLLM(), which tries the LLM_BACKEND first and
+ * then every other configured backend. A backend that reports itself overloaded
+ * or times out gets its own 30-minute circuit breaker; any other error (rate limit,
+ * bad key, empty response) only skips the backend for this call.
+ *
+ * Backends:
+ * - gemini: Google Gemini via @google/genai (GEMINI_API_KEY)
+ * - openai: any OpenAI-compatible chat completions API (OpenAI, Ollama, llama.cpp)
+ */
+
+export interface LLMBackend {
+  readonly name: string;
+  isConfigured(): boolean;
+  generate(prompt: string): Promise<string>;
+}
+
+export interface LLMResponse {
+  text: string;
+  backend: string; // Name of the backend that answered
+}
+
+export interface LLMBackendStatus {
+  name: string;
+  configured: boolean;
+  primary: boolean;
+  circuitBreaker: { blocked: boolean; until: number } | null;
+}
+
+declare global {
+  var llmCircuitBreakers: { [backend: string]: { blocked: boolean; until: number } } | undefined;
+}
+
+const CIRCUIT_BREAKER_DURATION = 30 * 60 * 1000; // 30 minutes
+
+// Every backend that was tried is rate-limited - callers should back off and retry
+export class LLMRateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMRateLimitError';
+  }
+}
+
+const backends: LLMBackend[] = [geminiBackend, openAICompatibleBackend];
+
+function getCircuitBreakers() {
+  if (!global.llmCircuitBreakers) {
+    global.llmCircuitBreakers = {};
+  }
+  return global.llmCircuitBreakers;
+}
+
+function isCircuitBreakerActive(name: string): boolean {
+  const breaker = getCircuitBreakers()[name];
+  return !!breaker && breaker.blocked && Date.now() < breaker.until;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Overloaded, unreachable or hung - worth circuit-breaking the backend
+function isOverloadError(error: unknown): boolean {
+  const message = errorMessage(error);
+  return message.includes('overloaded') || message.includes('503') || message.includes('timed out');
+}
+
+function isRateLimitError(error: unknown): boolean {
+  const message = errorMessage(error);
+  return message.includes('rate limit') || message.includes('429');
+}
+
+/**
+ * Configured backends in call order: LLM_BACKEND first, then the rest in registration order
+ */
+function getOrderedBackends(): LLMBackend[] {
+  return backends
+    .filter(backend => backend.isConfigured())
+    .sort((a, b) => Number(b.name === LLM_BACKEND) - Number(a.name === LLM_BACKEND));
+}
+
+/**
+ * Whether any backend is configured and not circuit-broken
+ */
+export function hasAvailableLLMBackend(): boolean {
+  return getOrderedBackends().some(backend => !isCircuitBreakerActive(backend.name));
+}
+
+export function getLLMBackendStatus(): LLMBackendStatus[] {
+  return backends.map(backend => ({
+    name: backend.name,
+    configured: backend.isConfigured(),
+    primary: backend.name === LLM_BACKEND,
+    circuitBreaker: getCircuitBreakers()[backend.name] || null,
+  }));
+}
+
+export function resetLLMCircuitBreakers(): void {
+  global.llmCircuitBreakers = {};
+}
+
+/**
+ * Send a prompt to the first available backend, failing over to the next one on any error
+ *
+ * Throws LLMRateLimitError when a backend that was tried is rate-limited, otherwise
+ * the first non-overload error (e.g. an invalid API key), or an "overloaded" error
+ * when every backend is overloaded or circuit-broken.
+ */
+export async function callLLM(prompt: string): Promise<LLMResponse> {
+  const configured = getOrderedBackends();
+
+  if (configured.length === 0) {
+    throw new Error('No LLM backend configured. Set GEMINI_API_KEY or OPENAI_API_KEY/OPENAI_BASE_URL.');
+  }
+
+  const errors: unknown[] = [];
+
+  for (const backend of configured.filter(item => !isCircuitBreakerActive(item.name))) {
+    try {
+      return { text: await backend.generate(prompt), backend: backend.name };
+    } catch (error) {
+      errors.push(error);
+
+      if (isRateLimitError(error)) {
+        console.log(`⏳ ${backend.name} LLM backend is rate-limited - failing over`);
+      } else if (isOverloadError(error)) {
+        getCircuitBreakers()[backend.name] = {
+          blocked: true,
+          until: Date.now() + CIRCUIT_BREAKER_DURATION,
+        };
+        console.log(`🚫 Circuit breaker activated for ${backend.name} LLM backend (${errorMessage(error)}) - failing over for 30 minutes`);
+      } else {
+        console.error(`❌ ${backend.name} LLM backend failed (${errorMessage(error)}) - failing over`);
+      }
+    }
+  }
+
+  if (errors.some(isRateLimitError)) {
+    throw new LLMRateLimitError('All available LLM backends are rate-limited or failing - try again shortly');
+  }
+  const otherError = errors.find(error => !isOverloadError(error));
+  if (otherError) {
+    throw otherError;
+  }
+
+  // Message keeps "overloaded" so the enrichment job runner trips the AI circuit breaker and stops the job
+  throw new Error('All LLM backends are overloaded or circuit-broken');
+}
@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheEntry, CacheStore } from './types';
+
+/**
+ * Local Filesystem Cache Store
+ *
+ * Writes one JSON file per key into the cache directory.
+ * Writes go to a temp file first and are renamed into place so readers
+ * on other instances never see a partially written file.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly type = 'file' as const;
+
+  constructor(private directory: string) {}
+
+  private filePath(key: string): string {
+    // Keys are internal (e.g. "cex-fees") but sanitize anyway to stay inside the directory
+    const safeKey = key.replace(/[^a-zA-Z0-9._-]/g, '_');
+    return path.join(this.directory, `${safeKey}.json`);
+  }
+
+  async get<T = any>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const contents = await fs.readFile(this.filePath(key), 'utf8');
+      return JSON.parse(contents) as CacheEntry<T>;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      console.error(`Failed to read cache file for "${key}":`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  async set<T = any>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const target = this.filePath(key);
+    const tempFile = `${target}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.writeFile(tempFile, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempFile, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.filePath(key));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
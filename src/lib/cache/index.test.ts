@@ -0,0 +1,146 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCacheStatus } from '@/lib/utils/cache-optimizer';
+import { FileCacheStore } from './file-store';
+import { MemoryCacheStore } from './memory-store';
+import { CacheStore } from './types';
+
+const storeType = vi.hoisted(() => ({ value: 'memory' }));
+
+vi.mock('@/config/constants', async importOriginal => ({
+  ...await importOriginal<typeof import('@/config/constants')>(),
+  get CACHE_STORE() {
+    return storeType.value;
+  },
+}));
+
+vi.mock('./sqlite-store', () => ({
+  SQLiteCacheStore: class {
+    constructor() {
+      throw new Error('Could not locate the bindings file');
+    }
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+function sqliteAvailable(): boolean {
+  try {
+    const Database = createRequire(import.meta.url)('better-sqlite3');
+    new Database(':memory:').close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function describeStore(name: string, createStore: () => CacheStore) {
+  describe(name, () => {
+    it('round-trips entries', async () => {
+      const store = createStore();
+      const entry = { data: [{ exchangeId: 'binance', makerFee: 0.1 }], timestamp: 1700000000000 };
+
+      await store.set('cex-fees', entry);
+
+      expect(await store.get('cex-fees')).toEqual(entry);
+      expect(await store.get('dex-fees')).toBeNull();
+    });
+
+    it('keeps the write time so old entries read back as stale or expired', async () => {
+      const store = createStore();
+      await store.set('cex-fees', { data: [], timestamp: Date.now() - 5 * HOUR });
+
+      const entry = await store.get('cex-fees');
+
+      expect(getCacheStatus(entry!.timestamp, 2 * HOUR).status).toBe('expired');
+      expect(getCacheStatus(entry!.timestamp, 3 * HOUR).status).toBe('stale');
+      expect(getCacheStatus(entry!.timestamp, 6 * HOUR).status).toBe('fresh');
+    });
+
+    it('clears entries and ignores missing keys', async () => {
+      const store = createStore();
+      await store.set('cex-fees', { data: [1], timestamp: 1 });
+
+      await store.delete('cex-fees');
+      await store.delete('cex-fees');
+
+      expect(await store.get('cex-fees')).toBeNull();
+    });
+  });
+}
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(os.tmpdir(), 'cache-store-'));
+  global.memoryCacheEntries = undefined;
+  global.cacheStorePromise = undefined;
+  storeType.value = 'memory';
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describeStore('MemoryCacheStore', () => new MemoryCacheStore());
+describeStore('FileCacheStore', () => new FileCacheStore(path.join(directory, 'cache')));
+
+describe.skipIf(!sqliteAvailable())('SQLiteCacheStore', () => {
+  it('round-trips and clears entries', async () => {
+    const { SQLiteCacheStore } = await vi.importActual<typeof import('./sqlite-store')>('./sqlite-store');
+    const store = new SQLiteCacheStore(path.join(directory, 'cache.db'));
+
+    await store.set('cex-fees', { data: [1], timestamp: 2 });
+    expect(await store.get('cex-fees')).toEqual({ data: [1], timestamp: 2 });
+
+    await store.delete('cex-fees');
+    expect(await store.get('cex-fees')).toBeNull();
+  });
+});
+
+describe('FileCacheStore files', () => {
+  it('keeps keys inside the directory and leaves no temp files', async () => {
+    const cacheDir = path.join(directory, 'cache');
+    const store = new FileCacheStore(cacheDir);
+
+    await store.set('../outside', { data: [], timestamp: 1 });
+
+    expect(readdirSync(cacheDir)).toEqual(['.._outside.json']);
+  });
+
+  it('reads a corrupt file as a miss', async () => {
+    const cacheDir = path.join(directory, 'cache');
+    const store = new FileCacheStore(cacheDir);
+    await store.set('cex-fees', { data: [], timestamp: 1 });
+    writeFileSync(path.join(cacheDir, 'cex-fees.json'), '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await store.get('cex-fees')).toBeNull();
+  });
+});
+
+describe('getCacheStore', () => {
+  it('creates the configured store once per process', async () => {
+    const { getCacheStore } = await import('./index');
+
+    const store = await getCacheStore();
+
+    expect(store.type).toBe('memory');
+    expect(await getCacheStore()).toBe(store);
+  });
+
+  it('falls back to the memory store when the backend fails to load', async () => {
+    storeType.value = 'sqlite';
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { getCacheStore } = await import('./index');
+
+    const store = await getCacheStore();
+
+    expect(store.type).toBe('memory');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('falling back to memory'), 'Could not locate the bindings file');
+  });
+});
@@ -0,0 +1,60 @@
+import path from 'path';
+import { CACHE_DIR, CACHE_SQLITE_PATH, CACHE_STORE } from '@/config/constants';
+import { MemoryCacheStore } from './memory-store';
+import { CacheStore, CacheStoreType } from './types';
+
+export type { CacheEntry, CacheStore, CacheStoreType } from './types';
+
+/**
+ * Cache Store Factory
+ *
+ * Selects the backend from CACHE_STORE:
+ * - memory: per-process Map (lost on cold start)
+ * - file:   JSON files in CACHE_DIR
+ * - sqlite: single database at CACHE_SQLITE_PATH
+ *
+ * File and SQLite stores are loaded lazily so their Node-only
+ * dependencies are never pulled in when running in memory mode.
+ */
+
+declare global {
+  var cacheStorePromise: Promise<CacheStore> | undefined;
+}
+
+async function createCacheStore(type: CacheStoreType): Promise<CacheStore> {
+  switch (type) {
+    case 'file': {
+      const { FileCacheStore } = await import('./file-store');
+      return new FileCacheStore(path.resolve(process.cwd(), CACHE_DIR));
+    }
+    case 'sqlite': {
+      const { SQLiteCacheStore } = await import('./sqlite-store');
+      return new SQLiteCacheStore(path.resolve(process.cwd(), CACHE_SQLITE_PATH));
+    }
+    case 'memory':
+    default:
+      return new MemoryCacheStore();
+  }
+}
+
+/**
+ * Get the configured cache store (created once per process)
+ * Falls back to the in-memory store if the configured backend fails to start
+ */
+export function getCacheStore(): Promise<CacheStore> {
+  if (!global.cacheStorePromise) {
+    const type = CACHE_STORE as CacheStoreType;
+
+    global.cacheStorePromise = createCacheStore(type)
+      .then(store => {
+        console.log(`🗄️ Using ${store.type} cache store`);
+        return store;
+      })
+      .catch(error => {
+        console.error(`Failed to initialize ${type} cache store, falling back to memory:`, error instanceof Error ? error.message : error);
+        return new MemoryCacheStore();
+      });
+  }
+
+  return global.cacheStorePromise;
+}
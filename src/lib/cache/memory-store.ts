@@ -0,0 +1,35 @@
+import { CacheEntry, CacheStore } from './types';
+
+/**
+ * In-Memory Cache Store
+ *
+ * Keeps entries in a process-global Map so they survive dev hot reloads.
+ * Data is lost on cold start - use the file or sqlite store in production.
+ */
+
+declare global {
+  var memoryCacheEntries: Map<string, CacheEntry> | undefined;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  readonly type = 'memory' as const;
+
+  private get entries(): Map<string, CacheEntry> {
+    if (!global.memoryCacheEntries) {
+      global.memoryCacheEntries = new Map();
+    }
+    return global.memoryCacheEntries;
+  }
+
+  async get<T = any>(key: string): Promise<CacheEntry<T> | null> {
+    return (this.entries.get(key) as CacheEntry<T> | undefined) || null;
+  }
+
+  async set<T = any>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,57 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { CacheEntry, CacheStore } from './types';
+
+/**
+ * SQLite Cache Store
+ *
+ * Stores entries in a single `cache_entries` table. WAL mode lets several
+ * processes on the same host read while one writes.
+ */
+export class SQLiteCacheStore implements CacheStore {
+  readonly type = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    mkdirSync(path.dirname(filename), { recursive: true });
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async get<T = any>(key: string): Promise<CacheEntry<T> | null> {
+    const row = this.db
+      .prepare('SELECT data, timestamp FROM cache_entries WHERE key = ?')
+      .get(key) as { data: string; timestamp: number } | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      data: JSON.parse(row.data) as T,
+      timestamp: row.timestamp,
+    };
+  }
+
+  async set<T = any>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO cache_entries (key, data, timestamp) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET data = excluded.data, timestamp = excluded.timestamp
+      `)
+      .run(key, JSON.stringify(entry.data), entry.timestamp);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM cache_entries WHERE key = ?').run(key);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Cache Store Types
+ *
+ * Storage-agnostic contract used by cache-optimizer to persist fee datasets
+ */
+
+// A cached value with the time it was written
+export interface CacheEntry<T = any> {
+  data: T;
+  timestamp: number;
+}
+
+// Supported cache backends (selected with CACHE_STORE env var)
+export type CacheStoreType = 'memory' | 'file' | 'sqlite';
+
+// Key/value store for cache entries
+export interface CacheStore {
+  readonly type: CacheStoreType;
+  get<T = any>(key: string): Promise<CacheEntry<T> | null>;
+  set<T = any>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
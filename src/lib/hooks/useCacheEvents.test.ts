@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { applyBatchRecords } from './useCacheEvents';
+
+interface Item {
+  id: string;
+  fee: number | null;
+}
+
+describe('applyBatchRecords', () => {
+  const items: Item[] = [{ id: 'a', fee: 0.1 }, { id: 'b', fee: null }, { id: 'c', fee: 0.3 }];
+
+  it('replaces pushed records in place and keeps the rest', () => {
+    const result = applyBatchRecords(items, [{ id: 'c', fee: 0.25 }, { id: 'b', fee: 0.2 }], item => item.id);
+
+    expect(result).toEqual([{ id: 'a', fee: 0.1 }, { id: 'b', fee: 0.2 }, { id: 'c', fee: 0.25 }]);
+    expect(result[0]).toBe(items[0]);
+  });
+
+  it('ignores records that are not listed', () => {
+    expect(applyBatchRecords(items, [{ id: 'z', fee: 1 }], item => item.id)).toEqual(items);
+  });
+});
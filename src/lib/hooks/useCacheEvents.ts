@@ -0,0 +1,99 @@
+import { useState, useEffect, useRef } from 'react';
+import { CacheEvent, CacheEventMarket, CacheEventsReady } from '@/lib/types/api';
+
+type BatchEvent = Extract<CacheEvent, { type: 'batch' }>;
+
+// Reconnect delay after a dropped stream - doubles per failed attempt
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 60000;
+
+interface CacheEventHandlers<T> {
+  onReady: (state: CacheEventsReady[CacheEventMarket]) => void;
+  onRebuilt: (cachedAt: string | null) => void;
+  onBatch: (records: T[], event: BatchEvent) => void;
+  onFinished: (cachedAt: string | null) => void;
+  onError: (message: string, batch?: number) => void;
+}
+
+/**
+ * Replace the listed items that a pushed batch carries, keeping list order
+ */
+export function applyBatchRecords<T>(items: T[], records: T[], idOf: (item: T) => string): T[] {
+  const updated = new Map(records.map(record => [idOf(record), record]));
+  return items.map(item => updated.get(idOf(item)) || item);
+}
+
+/**
+ * Subscribe to /api/events for one market while `enabled`
+ *
+ * Reports isUnavailable while the stream can't be used (no EventSource support,
+ * connection refused or dropped) so the caller can fall back to polling.
+ * Dropped streams are retried with backoff - isUnavailable clears as soon as
+ * a new stream opens, and every time `enabled` turns off.
+ */
+export function useCacheEvents<T>(market: CacheEventMarket, enabled: boolean, handlers: CacheEventHandlers<T>) {
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const [attempt, setAttempt] = useState(0); // Bumped to reconnect
+  const failuresRef = useRef(0);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) {
+      failuresRef.current = 0;
+      setIsUnavailable(false);
+      return;
+    }
+
+    if (typeof EventSource === 'undefined') {
+      setIsUnavailable(true);
+      return;
+    }
+
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    const source = new EventSource(`/api/events?market=${market}`);
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+    source.addEventListener('open', () => {
+      failuresRef.current = 0;
+      setIsUnavailable(false);
+    });
+
+    source.addEventListener('ready', event => {
+      const ready: CacheEventsReady = parse(event);
+      handlersRef.current.onReady(ready[market]);
+    });
+    source.addEventListener('rebuilt', event => {
+      handlersRef.current.onRebuilt(parse(event).cachedAt);
+    });
+    source.addEventListener('batch', event => {
+      const batch: BatchEvent = parse(event);
+      handlersRef.current.onBatch(batch.records as T[], batch);
+    });
+    source.addEventListener('finished', event => {
+      handlersRef.current.onFinished(parse(event).cachedAt);
+    });
+    source.addEventListener('error', event => {
+      // Server-sent "error" events carry data; connection errors don't
+      if (event instanceof MessageEvent && event.data) {
+        const { message, batch } = parse(event);
+        handlersRef.current.onError(message, batch);
+        return;
+      }
+
+      const delay = Math.min(RETRY_BASE_DELAY * 2 ** failuresRef.current, RETRY_MAX_DELAY);
+      failuresRef.current += 1;
+      console.warn(`⚠️ ${market.toUpperCase()} event stream unavailable, polling and retrying in ${delay / 1000}s`);
+      source.close();
+      setIsUnavailable(true);
+      retryTimer = setTimeout(() => setAttempt(prev => prev + 1), delay);
+    });
+
+    return () => {
+      source.close();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [market, enabled, attempt]);
+
+  return { isUnavailable };
+}
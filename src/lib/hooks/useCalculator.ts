@@ -0,0 +1,113 @@
+import useSWR from 'swr';
+import {
+  CEXTradeCostInput,
+  CEXTradeCostResponse,
+  DEXSwapCostInput,
+  DEXSwapCostResponse,
+  RouteComparisonResponse,
+  WithdrawalComparisonInput,
+  WithdrawalComparisonResponse,
+} from '@/lib/types/calculator';
+
+// Surface the API's error message (validation errors, cache not loaded yet)
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.message || body?.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return body;
+};
+
+const swrConfig = {
+  revalidateOnFocus: false,
+  revalidateOnReconnect: false,
+  keepPreviousData: true,
+};
+
+/**
+ * CEX trade cost for the submitted calculator input (null = not submitted yet)
+ */
+export function useCEXTradeCost(input: CEXTradeCostInput | null) {
+  const key = input
+    ? `/api/calculate/cex?${new URLSearchParams({
+        tradeSize: String(input.tradeSize),
+        asset: input.asset,
+        orderType: input.orderType,
+        roundTrips: String(input.roundTrips),
+      })}`
+    : null;
+
+  const { data, error, isLoading } = useSWR<CEXTradeCostResponse>(key, fetcher, swrConfig);
+
+  return {
+    result: data,
+    isLoading,
+    isError: !!error,
+    errorMessage: error instanceof Error ? error.message : null,
+  };
+}
+
+/**
+ * DEX swap cost for the submitted calculator input (null = not submitted yet)
+ */
+export function useDEXSwapCost(input: DEXSwapCostInput | null) {
+  const key = input
+    ? `/api/calculate/dex?${new URLSearchParams({
+        swapSize: String(input.swapSize),
+        chain: input.chain,
+      })}`
+    : null;
+
+  const { data, error, isLoading } = useSWR<DEXSwapCostResponse>(key, fetcher, swrConfig);
+
+  return {
+    result: data,
+    isLoading,
+    isError: !!error,
+    errorMessage: error instanceof Error ? error.message : null,
+  };
+}
+
+/**
+ * Cross-venue route comparison for the submitted pair, USD size and chain (null = not submitted yet)
+ */
+export function useRouteComparison(input: { pair: string; size: number; chain: string } | null) {
+  const key = input
+    ? `/api/calculate/route?${new URLSearchParams({
+        pair: input.pair,
+        size: String(input.size),
+        chain: input.chain,
+      })}`
+    : null;
+
+  const { data, error, isLoading } = useSWR<RouteComparisonResponse>(key, fetcher, swrConfig);
+
+  return {
+    result: data,
+    isLoading,
+    isError: !!error,
+    errorMessage: error instanceof Error ? error.message : null,
+  };
+}
+
+/**
+ * Withdrawal fees for a coin on a network, ranked across exchanges (null = not submitted yet)
+ */
+export function useWithdrawalComparison(input: WithdrawalComparisonInput | null) {
+  const key = input
+    ? `/api/calculate/withdrawal?${new URLSearchParams({
+        coin: input.coin,
+        ...(input.network ? { network: input.network } : {}),
+      })}`
+    : null;
+
+  const { data, error, isLoading } = useSWR<WithdrawalComparisonResponse>(key, fetcher, swrConfig);
+
+  return {
+    result: data,
+    isLoading,
+    isError: !!error,
+    errorMessage: error instanceof Error ? error.message : null,
+  };
+}
@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import { COMPARE_MAX_ITEMS } from '@/config/constants';
+
+/**
+ * Exchanges/DEXes ticked for side-by-side comparison on a list page
+ */
+export function useCompareSelection() {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(selected => selected !== id);
+      if (prev.length >= COMPARE_MAX_ITEMS) return prev; // Card checkboxes are disabled at the limit
+      return [...prev, id];
+    });
+  };
+
+  const clear = () => setSelectedIds([]);
+
+  return {
+    selectedIds,
+    toggle,
+    clear,
+    isFull: selectedIds.length >= COMPARE_MAX_ITEMS,
+  };
+}
@@ -1,6 +1,7 @@
 import useSWR from 'swr';
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { CEXFees } from '@/lib/types/exchange';
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { applyBatchRecords, useCacheEvents } from './useCacheEvents';
 
 // SWR fetcher function with error handling
 const fetcher = async (url: string) => {
@@ -24,7 +25,9 @@ const swrConfig = {
 
 /**
  * Enhanced CEX hook with incremental AI batch refresh
- * Refreshes UI after each AI batch completion, with final notification only
+ * Applies the records of each AI batch in place as /api/events pushes them,
+ * falling back to polling /api/cache-status when the stream is unavailable.
+ * Final notification only.
  */
 export function useExchangeFees() {
   const [allExchanges, setAllExchanges] = useState<CEXFees[]>([]);
@@ -34,6 +37,7 @@ export function useExchangeFees() {
   const lastAIStatusRef = useRef<boolean>(false);
   const lastCacheTimestampRef = useRef<number>(0);
   const [showFinalNotification, setShowFinalNotification] = useState(false);
+  const [eventCachedAt, setEventCachedAt] = useState<string | null>(null); // Set by pushed batches
 
   // Load complete dataset immediately (from cache or fresh API call)
   // Use refreshKey to force cache-busting when AI completes
@@ -48,10 +52,44 @@ export function useExchangeFees() {
     if (data?.data && Array.isArray(data.data)) {
       setAllExchanges(data.data);
       setBackgroundProcessing(data.backgroundProcessing || false);
+      setEventCachedAt(null);
     }
   }, [data]);
 
-  // Enhanced polling for incremental AI updates
+  // Push updates for each AI batch while background processing is active
+  const { isUnavailable: eventsUnavailable } = useCacheEvents<CEXFees>('cex', backgroundProcessing, {
+    onReady: ({ processing, cachedAt }) => {
+      // Batches enhanced before the stream opened aren't replayed - reload once
+      if (cachedAt && data?.cachedAt && Date.parse(cachedAt) > Date.parse(data.cachedAt)) {
+        setRefreshKey(prev => prev + 1);
+      }
+      if (!processing) {
+        setBackgroundProcessing(false);
+        setShowFinalNotification(true);
+      }
+    },
+    onRebuilt: () => {
+      // Stale data was served while the listing was rebuilt - load the new listing
+      console.log('🔄 CEX cache rebuilt, reloading...');
+      setRefreshKey(prev => prev + 1);
+    },
+    onBatch: (records, event) => {
+      console.log(`📈 CEX AI batch ${event.batch}/${event.totalBatches} pushed, applying ${records.length} records...`);
+      setAllExchanges(prev => applyBatchRecords(prev, records, exchange => exchange.exchangeId));
+      setEventCachedAt(event.cachedAt);
+    },
+    onFinished: cachedAt => {
+      console.log('🎉 CEX AI processing fully completed!');
+      if (cachedAt) setEventCachedAt(cachedAt);
+      setBackgroundProcessing(false);
+      setShowFinalNotification(true);
+    },
+    onError: (message, batch) => {
+      console.error(batch ? `CEX AI batch ${batch} failed:` : 'CEX AI processing failed:', message);
+    },
+  });
+
+  // Polling fallback for incremental AI updates when the event stream is unavailable
   useEffect(() => {
     // Clear any existing interval
     if (pollIntervalRef.current) {
@@ -66,7 +104,12 @@ export function useExchangeFees() {
       return;
     }
 
-    console.log('🔄 Starting incremental AI polling for CEX data...');
+    // Updates arrive over /api/events while the stream is up
+    if (!eventsUnavailable) {
+      return;
+    }
+
+    console.log('🔄 Event stream unavailable, starting incremental AI polling for CEX data...');
     lastAIStatusRef.current = true;
 
     pollIntervalRef.current = setInterval(async () => {
@@ -114,7 +157,7 @@ export function useExchangeFees() {
         pollIntervalRef.current = null;
       }
     };
-  }, [backgroundProcessing]);
+  }, [backgroundProcessing, eventsUnavailable]);
 
   const refresh = useCallback(async () => {
     try {
@@ -132,7 +175,7 @@ export function useExchangeFees() {
     isLoading,
     isError: error,
     backgroundLoading: backgroundProcessing,
-    cachedAt: data?.cachedAt,
+    cachedAt: eventCachedAt || data?.cachedAt,
     isCached: data?.cached,
     totalBatches: 1, // Simplified - all data loaded at once
     loadedBatches: 1,
@@ -144,16 +187,19 @@ export function useExchangeFees() {
 
 /**
  * Enhanced DEX hook with incremental AI batch refresh
- * Refreshes UI after each AI batch completion, with final notification only
+ * Applies the records of each AI batch in place as /api/events pushes them,
+ * falling back to polling /api/cache-status when the stream is unavailable.
+ * Final notification only.
  */
 export function useDEXFees() {
-  const [allDEXes, setAllDEXes] = useState<any[]>([]);
+  const [allDEXes, setAllDEXes] = useState<DEXFees[]>([]);
   const [backgroundProcessing, setBackgroundProcessing] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastAIStatusRef = useRef<boolean>(false);
   const lastCacheTimestampRef = useRef<number>(0);
   const [showFinalNotification, setShowFinalNotification] = useState(false);
+  const [eventCachedAt, setEventCachedAt] = useState<string | null>(null); // Set by pushed batches
 
   // Load complete dataset immediately (from cache or fresh API call)
   // Use refreshKey to force cache-busting when AI completes
@@ -168,10 +214,44 @@ export function useDEXFees() {
     if (data?.data && Array.isArray(data.data)) {
       setAllDEXes(data.data);
       setBackgroundProcessing(data.backgroundProcessing || false);
+      setEventCachedAt(null);
     }
   }, [data]);
 
-  // Enhanced polling for incremental AI updates
+  // Push updates for each AI batch while background processing is active
+  const { isUnavailable: eventsUnavailable } = useCacheEvents<DEXFees>('dex', backgroundProcessing, {
+    onReady: ({ processing, cachedAt }) => {
+      // Batches enhanced before the stream opened aren't replayed - reload once
+      if (cachedAt && data?.cachedAt && Date.parse(cachedAt) > Date.parse(data.cachedAt)) {
+        setRefreshKey(prev => prev + 1);
+      }
+      if (!processing) {
+        setBackgroundProcessing(false);
+        setShowFinalNotification(true);
+      }
+    },
+    onRebuilt: () => {
+      // Stale data was served while the listing was rebuilt - load the new listing
+      console.log('🔄 DEX cache rebuilt, reloading...');
+      setRefreshKey(prev => prev + 1);
+    },
+    onBatch: (records, event) => {
+      console.log(`📈 DEX AI batch ${event.batch}/${event.totalBatches} pushed, applying ${records.length} records...`);
+      setAllDEXes(prev => applyBatchRecords(prev, records, dex => dex.dexId));
+      setEventCachedAt(event.cachedAt);
+    },
+    onFinished: cachedAt => {
+      console.log('🎉 DEX AI processing fully completed!');
+      if (cachedAt) setEventCachedAt(cachedAt);
+      setBackgroundProcessing(false);
+      setShowFinalNotification(true);
+    },
+    onError: (message, batch) => {
+      console.error(batch ? `DEX AI batch ${batch} failed:` : 'DEX AI processing failed:', message);
+    },
+  });
+
+  // Polling fallback for incremental AI updates when the event stream is unavailable
   useEffect(() => {
     // Clear any existing interval
     if (pollIntervalRef.current) {
@@ -186,7 +266,12 @@ export function useDEXFees() {
       return;
     }
 
-    console.log('🔄 Starting incremental AI polling for DEX data...');
+    // Updates arrive over /api/events while the stream is up
+    if (!eventsUnavailable) {
+      return;
+    }
+
+    console.log('🔄 Event stream unavailable, starting incremental AI polling for DEX data...');
     lastAIStatusRef.current = true;
 
     pollIntervalRef.current = setInterval(async () => {
@@ -234,7 +319,7 @@ export function useDEXFees() {
         pollIntervalRef.current = null;
       }
     };
-  }, [backgroundProcessing]);
+  }, [backgroundProcessing, eventsUnavailable]);
 
   const refresh = useCallback(async () => {
     try {
@@ -252,7 +337,7 @@ export function useDEXFees() {
     isLoading,
     isError: error,
     backgroundLoading: backgroundProcessing,
-    cachedAt: data?.cachedAt,
+    cachedAt: eventCachedAt || data?.cachedAt,
     isCached: data?.cached,
     totalBatches: 1, // Simplified - all data loaded at once
     loadedBatches: 1,
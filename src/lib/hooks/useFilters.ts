@@ -1,55 +1,88 @@
-import { useState, useMemo } from 'react';
-import { CEXFees, DEXFees, SortOption } from '@/lib/types/exchange';
-
-export function useCEXFilters(exchanges: CEXFees[] | undefined) {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('trustScore');
-  const [showCount, setShowCount] = useState(10); // Start with 10 items as requested
+import { useMemo } from 'react';
+import { CEXAdvancedFilters, CEXFees, DEXAdvancedFilters, DEXFees, DEXFilterState, DEXSortOption, FilterState, MarketType, SortOption } from '@/lib/types/exchange';
+import { getMarketCEXFees } from '@/lib/utils/fee-tiers';
+import { getDEXChains } from '@/lib/utils/fee-calculator';
+import {
+  filterCEXExchanges,
+  filterDEXExchanges,
+  getCEXCountries,
+  getDefaultCEXSortDirection,
+  getDefaultDEXSortDirection,
+  sortCEXExchanges,
+  sortDEXExchanges,
+} from '@/lib/utils/sorting';
+import {
+  DEFAULT_CEX_FILTERS,
+  DEFAULT_DEX_FILTERS,
+  parseCEXFilterQuery,
+  parseDEXFilterQuery,
+  toCEXFilterQuery,
+  toDEXFilterQuery,
+} from '@/lib/utils/filter-params';
+import { useQueryFilters } from './useQueryFilters';
+
+// Filter and sort state lives in the query string (/?q=bin&sort=takerFee) so views can be shared
+// initialFilters are parsed from the request URL by the page's getServerSideProps
+export function useCEXFilters(exchanges: CEXFees[] | undefined, initialFilters?: FilterState) {
+  const { filters, updateFilters } = useQueryFilters(parseCEXFilterQuery, toCEXFilterQuery, initialFilters);
+  const {
+    searchQuery,
+    sortBy,
+    sortDirection,
+    marketType,
+    monthlyVolume,
+    useTokenDiscount,
+    showCount,
+    minTrustScore,
+    maxMakerFee,
+    maxTakerFee,
+    countries,
+    onlyWithFeeData,
+    minYearEstablished,
+    maxYearEstablished,
+  } = filters;
+  const advancedFilters: CEXAdvancedFilters = {
+    minTrustScore,
+    maxMakerFee,
+    maxTakerFee,
+    countries,
+    onlyWithFeeData,
+    minYearEstablished,
+    maxYearEstablished,
+  };
 
   const filteredAndSorted = useMemo(() => {
     if (!exchanges) return [];
 
+    // Fees the user actually pays in the selected market (volume tier and token discount for spot)
+    const feesOf = (exchange: CEXFees) => getMarketCEXFees(exchange, marketType, monthlyVolume, useTokenDiscount);
+
     // Filter by search query
-    let filtered = exchanges.filter(exchange =>
+    const searched = exchanges.filter(exchange =>
       exchange.exchangeName.toLowerCase().includes(searchQuery.toLowerCase())
     );
+    const filtered = filterCEXExchanges(searched, filters, feesOf);
 
-    // Sort (handle null values properly for real-data-only policy)
-    switch (sortBy) {
-      case 'name':
-        filtered.sort((a, b) => a.exchangeName.localeCompare(b.exchangeName));
-        break;
-      case 'makerFee':
-        filtered.sort((a, b) => {
-          // Handle null values - put nulls at end
-          if (a.makerFee === null && b.makerFee === null) return 0;
-          if (a.makerFee === null) return 1;
-          if (b.makerFee === null) return -1;
-          return a.makerFee - b.makerFee;
-        });
-        break;
-      case 'takerFee':
-        filtered.sort((a, b) => {
-          // Handle null values - put nulls at end
-          if (a.takerFee === null && b.takerFee === null) return 0;
-          if (a.takerFee === null) return 1;
-          if (b.takerFee === null) return -1;
-          return a.takerFee - b.takerFee;
-        });
-        break;
-      case 'volume':
-        filtered.sort((a, b) => b.volume24h - a.volume24h);
-        break;
-      case 'trustScore':
-        filtered.sort((a, b) => b.trustScore - a.trustScore);
-        break;
-      default:
-        filtered.sort((a, b) => b.trustScore - a.trustScore);
-        break;
-    }
+    // Sort (nulls last for real-data-only policy)
+    return sortCEXExchanges(filtered, sortBy, sortDirection, feesOf);
+  }, [exchanges, filters, searchQuery, sortBy, sortDirection, marketType, monthlyVolume, useTokenDiscount]);
+
+  // Country options come from the full data set, not the filtered one
+  const countryOptions = useMemo(() => getCEXCountries(exchanges || []), [exchanges]);
 
-    return filtered;
-  }, [exchanges, searchQuery, sortBy]);
+  // Picking a sort starts in its natural direction (fees cheapest first)
+  const setSortBy = (value: SortOption) => {
+    updateFilters({ sortBy: value, sortDirection: getDefaultCEXSortDirection(value) });
+  };
+
+  // Table header click - flip the direction of the current sort, otherwise switch to the column
+  const toggleSort = (value: SortOption) => {
+    if (value === sortBy) {
+      updateFilters({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setSortBy(value);
+    }
+  };
 
   const displayedExchanges = useMemo(() => {
     return filteredAndSorted.slice(0, showCount);
@@ -58,20 +91,30 @@ export function useCEXFilters(exchanges: CEXFees[] | undefined) {
   const hasMore = filteredAndSorted.length > showCount;
 
   const reset = () => {
-    setSearchQuery('');
-    setSortBy('trustScore');
-    setShowCount(10); // Reset to 10 items
+    // Monthly volume and token discount are the user's own profile, not filters - keep them
+    updateFilters({ ...DEFAULT_CEX_FILTERS, monthlyVolume, useTokenDiscount }); // Back to 10 items
   };
 
   const loadMore = () => {
-    setShowCount(prev => Math.min(prev + 10, filteredAndSorted.length)); // Load 10 more items
+    updateFilters({ showCount: Math.min(showCount + 10, filteredAndSorted.length) }); // Load 10 more items
   };
 
   return {
     searchQuery,
-    setSearchQuery,
+    setSearchQuery: (value: string) => updateFilters({ searchQuery: value }),
     sortBy,
     setSortBy,
+    sortDirection,
+    toggleSort,
+    marketType,
+    setMarketType: (value: MarketType) => updateFilters({ marketType: value }),
+    monthlyVolume,
+    setMonthlyVolume: (value: number) => updateFilters({ monthlyVolume: value }),
+    useTokenDiscount,
+    setUseTokenDiscount: (value: boolean) => updateFilters({ useTokenDiscount: value }),
+    advancedFilters,
+    setAdvancedFilters: (update: Partial<CEXAdvancedFilters>) => updateFilters(update),
+    countryOptions,
     displayedExchanges,
     totalCount: filteredAndSorted.length,
     hasMore,
@@ -80,45 +123,38 @@ export function useCEXFilters(exchanges: CEXFees[] | undefined) {
   };
 }
 
-export function useDEXFilters(dexes: DEXFees[] | undefined) {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'name' | 'swapFee' | 'volume' | 'liquidity'>('liquidity');
-  const [showCount, setShowCount] = useState(10); // Start with 10 items as requested
+export function useDEXFilters(dexes: DEXFees[] | undefined, initialFilters?: DEXFilterState) {
+  const { filters, updateFilters } = useQueryFilters(parseDEXFilterQuery, toDEXFilterQuery, initialFilters);
+  const { searchQuery, sortBy, sortDirection, showCount, chains, protocols, minLiquidityUSD, minVolume24h, onlyWithSwapFee } = filters;
+  const advancedFilters: DEXAdvancedFilters = { chains, protocols, minLiquidityUSD, minVolume24h, onlyWithSwapFee };
 
   const filteredAndSorted = useMemo(() => {
     if (!dexes) return [];
 
     // Filter by search query
-    let filtered = dexes.filter(dex =>
+    const searched = dexes.filter(dex =>
       dex.dexName.toLowerCase().includes(searchQuery.toLowerCase())
     );
+    const filtered = filterDEXExchanges(searched, filters);
 
-    // Sort (handle null values properly for real-data-only policy)
-    switch (sortBy) {
-      case 'name':
-        filtered.sort((a, b) => a.dexName.localeCompare(b.dexName));
-        break;
-      case 'swapFee':
-        filtered.sort((a, b) => {
-          // Handle null values - put nulls at end
-          if (a.swapFee === null && b.swapFee === null) return 0;
-          if (a.swapFee === null) return 1;
-          if (b.swapFee === null) return -1;
-          return a.swapFee - b.swapFee;
-        });
-        break;
-      case 'volume':
-        filtered.sort((a, b) => b.volume24h - a.volume24h);
-        break;
-      case 'liquidity':
-        filtered.sort((a, b) => b.liquidityUSD - a.liquidityUSD);
-        break;
-      default:
-        break;
-    }
+    // Sort (nulls last for real-data-only policy)
+    return sortDEXExchanges(filtered, sortBy, sortDirection);
+  }, [dexes, filters, searchQuery, sortBy, sortDirection]);
+
+  // Chain options come from the full data set, most DEXes first
+  const chainOptions = useMemo(() => getDEXChains(dexes || []), [dexes]);
 
-    return filtered;
-  }, [dexes, searchQuery, sortBy]);
+  const setSortBy = (value: DEXSortOption) => {
+    updateFilters({ sortBy: value, sortDirection: getDefaultDEXSortDirection(value) });
+  };
+
+  const toggleSort = (value: DEXSortOption) => {
+    if (value === sortBy) {
+      updateFilters({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setSortBy(value);
+    }
+  };
 
   const displayedDEXes = useMemo(() => {
     return filteredAndSorted.slice(0, showCount);
@@ -127,20 +163,23 @@ export function useDEXFilters(dexes: DEXFees[] | undefined) {
   const hasMore = filteredAndSorted.length > showCount;
 
   const reset = () => {
-    setSearchQuery('');
-    setSortBy('liquidity');
-    setShowCount(10); // Reset to 10 items
+    updateFilters(DEFAULT_DEX_FILTERS); // Back to 10 items
   };
 
   const loadMore = () => {
-    setShowCount(prev => Math.min(prev + 10, filteredAndSorted.length)); // Load 10 more items
+    updateFilters({ showCount: Math.min(showCount + 10, filteredAndSorted.length) }); // Load 10 more items
   };
 
   return {
     searchQuery,
-    setSearchQuery,
+    setSearchQuery: (value: string) => updateFilters({ searchQuery: value }),
     sortBy,
     setSortBy,
+    sortDirection,
+    toggleSort,
+    advancedFilters,
+    setAdvancedFilters: (update: Partial<DEXAdvancedFilters>) => updateFilters(update),
+    chainOptions,
     displayedDEXes,
     totalCount: filteredAndSorted.length,
     hasMore,
@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useRouter } from 'next/router';
+import { ParsedUrlQuery, parse as parseQueryString } from 'querystring';
+import { FilterQuery } from '@/lib/utils/filter-params';
+
+// Params that change while typing/scrolling - updated in place instead of adding history entries
+const REPLACE_ONLY_PARAMS = ['q', 'show'];
+
+function withoutReplaceOnly(query: ParsedUrlQuery | FilterQuery): string {
+  return Object.keys(query)
+    .filter(key => !REPLACE_ONLY_PARAMS.includes(key))
+    .sort()
+    .map(key => `${key}=${query[key]}`)
+    .join('&');
+}
+
+/**
+ * Filter state mirrored to the query string
+ *
+ * Pages pass initialFilters parsed from the request in getServerSideProps, so
+ * the server render and hydration already match the URL. Without them (a
+ * statically optimized page) router.query is empty until router.isReady - the
+ * filters are read from the URL once it is, and the URL is only written after
+ * that. Changes are written back with shallow routing, and back/forward
+ * navigation restores the filters from the URL.
+ */
+export function useQueryFilters<T>(
+  parse: (query: ParsedUrlQuery) => T,
+  toQuery: (filters: T) => FilterQuery,
+  initialFilters?: T
+) {
+  const router = useRouter();
+  // Client-side navigations arrive with the query already populated
+  const [filters, setFilters] = useState<T>(() => initialFilters ?? parse(router.query));
+  const [isHydrated, setIsHydrated] = useState(initialFilters !== undefined || router.isReady);
+  const fromHistoryRef = useRef(false);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      fromHistoryRef.current = true;
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Read the URL on hydration and after back/forward - our own writes already match the filters
+  useEffect(() => {
+    if (!router.isReady || (isHydrated && !fromHistoryRef.current)) return;
+    fromHistoryRef.current = false;
+    setFilters(parse(router.query));
+    setIsHydrated(true);
+  }, [router.isReady, router.asPath, router.query, isHydrated, parse]);
+
+  const query = useMemo(() => toQuery(filters), [filters, toQuery]);
+  const queryString = new URLSearchParams(query).toString();
+
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    const current = parseQueryString(window.location.search.slice(1));
+    if (new URLSearchParams(current as Record<string, string>).toString() === queryString) return;
+
+    const method = withoutReplaceOnly(current) === withoutReplaceOnly(query) ? 'replace' : 'push';
+    router[method]({ pathname: router.pathname, query }, undefined, { shallow: true, scroll: false });
+  }, [query, queryString, isHydrated, router]);
+
+  const updateFilters = (update: Partial<T>) => setFilters(prev => ({ ...prev, ...update }));
+
+  return { filters, updateFilters };
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { TableLayout, ViewMode } from '@/lib/types/exchange';
+
+/**
+ * Grid/table view and table column layout for a list page, remembered in localStorage
+ *
+ * Stored layouts are reconciled with the current column ids, so columns
+ * added or removed in a later release don't break a saved layout.
+ */
+export function useTableLayout(storageKey: string, columns: readonly { id: string; label: string }[]) {
+  const columnIds = useMemo(() => columns.map(column => column.id), [columns]);
+  const defaultLayout = useCallback(
+    (): TableLayout => ({ view: 'grid', order: [...columnIds], hidden: [] }),
+    [columnIds]
+  );
+
+  const [layout, setLayout] = useState<TableLayout>(defaultLayout);
+  const [loaded, setLoaded] = useState(false);
+
+  // Read after mount - localStorage isn't available during SSR
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(storageKey) || 'null') as Partial<TableLayout> | null;
+      if (saved) {
+        const known = (saved.order || []).filter(id => columnIds.includes(id));
+        setLayout({
+          view: saved.view === 'table' ? 'table' : 'grid',
+          order: [...known, ...columnIds.filter(id => !known.includes(id))],
+          hidden: (saved.hidden || []).filter(id => columnIds.includes(id)),
+        });
+      }
+    } catch (error) {
+      console.warn(`⚠️ Ignoring invalid saved table layout (${storageKey})`);
+    }
+    setLoaded(true);
+  }, [storageKey, columnIds]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(layout));
+    } catch (error) {
+      // Storage full or disabled - the layout just won't be remembered
+    }
+  }, [storageKey, layout, loaded]);
+
+  const setView = (view: ViewMode) => setLayout(prev => ({ ...prev, view }));
+
+  const toggleColumn = (id: string) => {
+    setLayout(prev => ({
+      ...prev,
+      hidden: prev.hidden.includes(id) ? prev.hidden.filter(hidden => hidden !== id) : [...prev.hidden, id],
+    }));
+  };
+
+  // Move a column one place left (-1) or right (1)
+  const moveColumn = (id: string, offset: -1 | 1) => {
+    setLayout(prev => {
+      const index = prev.order.indexOf(id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.order.length) return prev;
+      const order = [...prev.order];
+      [order[index], order[target]] = [order[target], order[index]];
+      return { ...prev, order };
+    });
+  };
+
+  const resetColumns = () => setLayout(prev => ({ ...defaultLayout(), view: prev.view }));
+
+  return {
+    view: layout.view,
+    setView,
+    order: layout.order,
+    hidden: layout.hidden,
+    visibleColumns: layout.order.filter(id => !layout.hidden.includes(id)),
+    toggleColumn,
+    moveColumn,
+    resetColumns,
+  };
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CEXFees } from '@/lib/types/exchange';
+import { publishCacheEvent } from '@/lib/utils/cache-events';
+import { getCacheState, setCacheState } from '@/lib/utils/cache-optimizer';
+import { recordCEXFeeHistory } from '@/lib/utils/fee-history';
+import { enrichBatch } from './enrichment';
+import { Job } from './types';
+
+vi.mock('@/lib/providers', () => ({
+  fetchCEXFeesFromProviders: vi.fn(async (exchanges: CEXFees[]) => exchanges.map(exchange => ({
+    exchangeId: exchange.exchangeId,
+    makerFee: 0.1,
+    takerFee: 0.1,
+    withdrawalFees: {},
+    depositFees: {},
+  }))),
+  fetchDEXFeesFromProviders: vi.fn(),
+}));
+
+vi.mock('@/lib/utils/fee-overrides', () => ({
+  applyCEXFeeOverrides: vi.fn(async (exchanges: CEXFees[]) => exchanges.map(exchange => ({ ...exchange, takerFee: 0.05 }))),
+  applyDEXFeeOverrides: vi.fn(),
+}));
+
+vi.mock('@/lib/utils/fee-history', () => ({
+  recordCEXFeeHistory: vi.fn(async () => 0),
+  recordDEXFeeHistory: vi.fn(),
+}));
+
+vi.mock('@/lib/utils/cache-events', () => ({
+  publishCacheEvent: vi.fn(),
+}));
+
+function exchange(exchangeId: string): CEXFees {
+  return {
+    exchangeId,
+    exchangeName: exchangeId,
+    logo: '',
+    makerFee: null,
+    takerFee: null,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: null,
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
+  };
+}
+
+const job = {
+  id: 'cex-test',
+  market: 'cex',
+  batches: [{ index: 1, itemIds: ['binance'] }],
+} as Job;
+
+beforeEach(() => {
+  global.memoryCacheEntries = undefined;
+  global.cacheStorePromise = undefined;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('enrichBatch', () => {
+  it('caches and records provider fees but pushes records with overrides applied', async () => {
+    await setCacheState('cex', [exchange('binance'), exchange('kraken')]);
+
+    expect(await enrichBatch(job, job.batches[0])).toBe(1);
+
+    const cached = (await getCacheState('cex'))!.data as CEXFees[];
+    expect(cached.map(record => record.takerFee)).toEqual([0.1, null]);
+
+    const recorded = vi.mocked(recordCEXFeeHistory).mock.calls[0][0];
+    expect(recorded.map(record => record.takerFee)).toEqual([0.1]);
+
+    expect(publishCacheEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'batch',
+      records: [expect.objectContaining({ exchangeId: 'binance', takerFee: 0.05 })],
+    }));
+  });
+});
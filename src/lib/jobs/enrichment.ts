@@ -0,0 +1,110 @@
+/**
+ * AI Enrichment Batches
+ *
+ * Market-specific work for one job batch: query the fee providers for the
+ * batch's records, merge the results into the cached dataset by id, record
+ * fee history and push the changed records to /api/events subscribers.
+ *
+ * Records are looked up in the cache when the batch runs, so a batch never
+ * writes back a stale copy of the dataset. A failing provider fails the batch
+ * so the job runner can retry it or trip the AI circuit breaker.
+ */
+
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { CEXFeeData, DEXFeeData } from '@/lib/types/api';
+import { getCacheState, setCacheState } from '@/lib/utils/cache-optimizer';
+import { mergeCEXFeeData, mergeDEXFeeData } from '@/lib/api/gemini';
+import { fetchCEXFeesFromProviders, fetchDEXFeesFromProviders } from '@/lib/providers';
+import { recordCEXFeeHistory, recordDEXFeeHistory } from '@/lib/utils/fee-history';
+import { applyCEXFeeOverrides, applyDEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import { publishCacheEvent } from '@/lib/utils/cache-events';
+import { Job, JobBatch, JobMarket } from './types';
+
+interface EnrichmentPipeline<T extends CEXFees | DEXFees, F> {
+  getId: (record: T) => string;
+  fetchFees: (records: T[]) => Promise<F[]>;
+  merge: (records: T[], fees: F[]) => T[];
+  applyOverrides: (records: T[]) => Promise<T[]>;
+  recordHistory: (records: T[]) => Promise<number>;
+}
+
+const cexPipeline: EnrichmentPipeline<CEXFees, CEXFeeData> = {
+  getId: exchange => exchange.exchangeId,
+  fetchFees: exchanges => fetchCEXFeesFromProviders(exchanges, { failOnError: true }),
+  merge: mergeCEXFeeData,
+  applyOverrides: applyCEXFeeOverrides,
+  recordHistory: recordCEXFeeHistory,
+};
+
+const dexPipeline: EnrichmentPipeline<DEXFees, DEXFeeData> = {
+  getId: dex => dex.dexId,
+  fetchFees: dexes => fetchDEXFeesFromProviders(dexes, { failOnError: true }),
+  merge: mergeDEXFeeData,
+  applyOverrides: applyDEXFeeOverrides,
+  recordHistory: recordDEXFeeHistory,
+};
+
+export function getRecordId(market: JobMarket, record: CEXFees | DEXFees): string {
+  return market === 'cex' ? (record as CEXFees).exchangeId : (record as DEXFees).dexId;
+}
+
+async function runPipeline<T extends CEXFees | DEXFees, F>(
+  pipeline: EnrichmentPipeline<T, F>,
+  job: Job,
+  batch: JobBatch
+): Promise<number> {
+  const cacheState = await getCacheState(job.market);
+  const records = ((cacheState?.data || []) as T[]).filter(record => batch.itemIds.includes(pipeline.getId(record)));
+
+  if (records.length === 0) {
+    console.log(`⚠️ ${job.market.toUpperCase()} batch ${batch.index}/${job.batches.length} has no cached records left`);
+    return 0;
+  }
+
+  const fees = await pipeline.fetchFees(records);
+
+  if (fees.length === 0) {
+    console.log(`⚠️ ${job.market.toUpperCase()} batch ${batch.index}/${job.batches.length} returned no AI data`);
+    return 0;
+  }
+
+  const enhanced = pipeline.merge(records, fees);
+  const enhancedById = new Map(enhanced.map(record => [pipeline.getId(record), record]));
+
+  // Re-read: the provider call takes a while and other batches or a rebuild may have written meanwhile
+  const latestState = await getCacheState(job.market);
+  if (!latestState) {
+    console.log(`⚠️ ${job.market.toUpperCase()} cache was cleared during batch ${batch.index}, dropping results`);
+    return 0;
+  }
+  await setCacheState(
+    job.market,
+    (latestState.data as T[]).map(record => enhancedById.get(pipeline.getId(record)) || record)
+  );
+
+  // Keep a snapshot of the new provider fee values for the history API - manual overrides aren't fee changes
+  await pipeline.recordHistory(enhanced);
+
+  // Push the changed records to open /api/events streams, with overrides applied as the fee routes serve them
+  const changedRecords = await pipeline.applyOverrides(enhanced);
+  publishCacheEvent({
+    type: 'batch',
+    market: job.market,
+    batch: batch.index,
+    totalBatches: job.batches.length,
+    records: changedRecords as CEXFees[] | DEXFees[],
+    cachedAt: new Date().toISOString(),
+  });
+
+  return fees.length;
+}
+
+/**
+ * Enrich one batch of a job
+ * Returns the number of records that received provider fee data; throws on provider errors
+ */
+export function enrichBatch(job: Job, batch: JobBatch): Promise<number> {
+  return job.market === 'cex'
+    ? runPipeline(cexPipeline, job, batch)
+    : runPipeline(dexPipeline, job, batch);
+}
@@ -0,0 +1,113 @@
+import { EventEmitter } from 'events';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CEXFees } from '@/lib/types/exchange';
+import { publishCacheEvent } from '@/lib/utils/cache-events';
+import eventsHandler from '@/pages/api/events';
+import { enrichBatch } from './enrichment';
+import { queueEnrichment } from './refresh';
+
+vi.mock('./enrichment', () => ({
+  enrichBatch: vi.fn(),
+  getRecordId: (_market: string, record: CEXFees) => record.exchangeId,
+}));
+
+vi.mock('@/lib/utils/cache-optimizer', () => ({
+  initializeGlobalCache: vi.fn(),
+  getCacheState: vi.fn(async () => ({ timestamp: Date.parse('2024-02-01T00:00:00.000Z') })),
+  setCacheState: vi.fn(),
+  setProcessingState: vi.fn((market: string, isProcessing: boolean) => {
+    if (market === 'cex') global.cexAIProcessing = isProcessing;
+  }),
+}));
+
+vi.mock('@/lib/api/coinmarketcap', () => ({
+  fetchCombinedExchangeData: vi.fn(),
+  fetchCombinedDEXData: vi.fn(),
+}));
+
+vi.mock('@/lib/providers', () => ({
+  hasEnabledFeeProviders: () => true,
+}));
+
+function exchange(exchangeId: string): CEXFees {
+  return {
+    exchangeId,
+    exchangeName: exchangeId,
+    logo: '',
+    makerFee: null,
+    takerFee: null,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: null,
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
+  };
+}
+
+// An open /api/events?market=cex stream - returns the received events as "type:ids"
+async function openEventStream() {
+  const received: string[] = [];
+  const req = Object.assign(new EventEmitter(), { method: 'GET', query: { market: 'cex' } });
+  const res = {
+    writeHead: vi.fn(),
+    write: vi.fn((chunk: string) => {
+      const [, type, data] = chunk.match(/^event: (\w+)\ndata: (.*)\n\n$/) || [];
+      if (type === 'batch') {
+        received.push(`batch:${JSON.parse(data).records.map((record: CEXFees) => record.exchangeId).join(',')}`);
+      } else if (type) {
+        received.push(type);
+      }
+    }),
+    end: vi.fn(),
+    status: vi.fn(),
+  };
+
+  await eventsHandler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return { received, close: () => req.emit('close') };
+}
+
+describe('follow-up enrichment', () => {
+  beforeEach(() => {
+    global.jobQueue = undefined;
+    global.cacheEventEmitter = undefined;
+    global.cexAIProcessing = false;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('streams the follow-up job batches before a single finished event', async () => {
+    const stream = await openEventStream();
+    const listing = [exchange('binance')];
+
+    vi.mocked(enrichBatch).mockImplementation(async (job, batch) => {
+      // A rebuild lists a new exchange while the first job runs
+      if (listing.length === 1) {
+        listing.push(exchange('kraken'));
+        queueEnrichment('cex', listing);
+      }
+      publishCacheEvent({
+        type: 'batch',
+        market: 'cex',
+        batch: batch.index,
+        totalBatches: job.batches.length,
+        records: batch.itemIds.map(exchange),
+        cachedAt: '2024-02-01T00:00:00.000Z',
+      });
+      return batch.itemIds.length;
+    });
+
+    queueEnrichment('cex', listing);
+    await vi.waitFor(() => expect(global.jobQueue?.running.cex).toBe(false));
+    stream.close();
+
+    expect(stream.received).toEqual(['ready', 'batch:binance', 'batch:kraken', 'finished']);
+    expect(global.cexAIProcessing).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMRateLimitError } from '@/lib/api/llm';
+import { CEXFees } from '@/lib/types/exchange';
+import { CacheEvent } from '@/lib/types/api';
+import { subscribeCacheEvents } from '@/lib/utils/cache-events';
+import { setProcessingState } from '@/lib/utils/cache-optimizer';
+import { enrichBatch } from './enrichment';
+import { cancelJob, enqueueEnrichmentJob, waitForJob } from './index';
+import { Job } from './types';
+
+vi.mock('./enrichment', () => ({
+  enrichBatch: vi.fn(),
+  getRecordId: (_market: string, record: CEXFees) => record.exchangeId,
+}));
+
+vi.mock('@/lib/utils/cache-optimizer', () => ({
+  getCacheState: vi.fn(async () => ({ timestamp: Date.parse('2024-02-01T00:00:00.000Z') })),
+  setProcessingState: vi.fn(),
+}));
+
+const enrichBatchMock = vi.mocked(enrichBatch);
+
+function exchange(exchangeId: string): CEXFees {
+  return {
+    exchangeId,
+    exchangeName: exchangeId,
+    logo: '',
+    makerFee: null,
+    takerFee: null,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: null,
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
+  };
+}
+
+// Processing flag changes and published events, in order
+function recordTimeline(): string[] {
+  const timeline: string[] = [];
+  vi.mocked(setProcessingState).mockImplementation((_market, isProcessing) => {
+    timeline.push(`processing:${isProcessing}`);
+  });
+  subscribeCacheEvents((event: CacheEvent) => {
+    timeline.push(event.type === 'batch' ? `batch:${event.batch}` : event.type);
+  });
+  return timeline;
+}
+
+async function waitForIdleQueue(): Promise<void> {
+  await vi.waitFor(() => expect(global.jobQueue?.running.cex).toBe(false));
+}
+
+describe('job queue', () => {
+  beforeEach(() => {
+    global.jobQueue = undefined;
+    global.cacheEventEmitter = undefined;
+    global.geminiCircuitBreaker = null;
+    enrichBatchMock.mockReset();
+    vi.mocked(setProcessingState).mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('splits records into batches and runs them in order', async () => {
+    enrichBatchMock.mockImplementation(async (_job, batch) => batch.itemIds.length);
+
+    const job = await waitForJob(enqueueEnrichmentJob('cex', ['a', 'b', 'c'].map(exchange), { batchSize: 2, delayMs: 1 }), 1);
+
+    expect(job.status).toBe('succeeded');
+    expect(job.batches.map(batch => batch.itemIds)).toEqual([['a', 'b'], ['c']]);
+    expect(job.batches.map(batch => batch.enhancedCount)).toEqual([2, 1]);
+  });
+
+  it('retries a failed batch and keeps the last error', async () => {
+    enrichBatchMock.mockRejectedValueOnce(new Error('Invalid JSON')).mockResolvedValueOnce(1);
+
+    const job = await waitForJob(enqueueEnrichmentJob('cex', [exchange('a')], { delayMs: 1, maxRetries: 1 }), 1);
+
+    expect(job.status).toBe('succeeded');
+    expect(job.batches[0]).toMatchObject({ status: 'succeeded', attempts: 2, error: 'Invalid JSON' });
+  });
+
+  it('fails the job once a batch runs out of retries', async () => {
+    enrichBatchMock.mockRejectedValueOnce(new Error('Invalid JSON')).mockRejectedValueOnce(new Error('Invalid JSON'));
+    enrichBatchMock.mockResolvedValue(1);
+
+    const job = await waitForJob(enqueueEnrichmentJob('cex', [exchange('a'), exchange('b')], { batchSize: 1, delayMs: 1, maxRetries: 1 }), 1);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('1 of 2 batches failed');
+    expect(job.batches.map(batch => batch.status)).toEqual(['failed', 'succeeded']);
+  });
+
+  it('backs off exponentially while the LLM backends are rate-limited', async () => {
+    enrichBatchMock
+      .mockRejectedValueOnce(new LLMRateLimitError('rate-limited'))
+      .mockRejectedValueOnce(new LLMRateLimitError('rate-limited'))
+      .mockResolvedValueOnce(1);
+
+    const job = await waitForJob(enqueueEnrichmentJob('cex', [exchange('a')], { delayMs: 2, maxRetries: 2 }), 1);
+
+    expect(job.status).toBe('succeeded');
+    const retries = vi.mocked(console.log).mock.calls.map(([message]) => String(message)).filter(message => message.startsWith('⏳ Retrying'));
+    expect(retries).toEqual(['⏳ Retrying CEX batch 1/1 in 0.002s...', '⏳ Retrying CEX batch 1/1 in 0.004s...']);
+  });
+
+  it('stops the job and trips the circuit breaker when the provider is overloaded', async () => {
+    enrichBatchMock.mockRejectedValue(new Error('503 Service Unavailable: model overloaded'));
+
+    const job = await waitForJob(enqueueEnrichmentJob('cex', [exchange('a'), exchange('b')], { batchSize: 1, delayMs: 1 }), 1);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toMatch(/^AI provider overloaded/);
+    expect(job.batches.map(batch => batch.status)).toEqual(['failed', 'cancelled']);
+    expect(enrichBatchMock).toHaveBeenCalledTimes(1);
+    expect(global.geminiCircuitBreaker?.blocked).toBe(true);
+  });
+
+  it('cancels a running job after its current batch and pending jobs right away', async () => {
+    enrichBatchMock.mockResolvedValue(1);
+
+    const running = enqueueEnrichmentJob('cex', [exchange('a'), exchange('b')], { batchSize: 1, delayMs: 60000 });
+    const pending = enqueueEnrichmentJob('cex', [exchange('c')], { delayMs: 1 });
+    await vi.waitFor(() => expect(running.batches[0].status).toBe('succeeded'));
+
+    expect(cancelJob(pending.id)?.status).toBe('cancelled');
+    cancelJob(running.id);
+    await waitForJob(running, 1);
+
+    expect(running.status).toBe('cancelled');
+    expect(running.batches.map(batch => batch.status)).toEqual(['succeeded', 'cancelled']);
+    expect(enrichBatchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps processing across a follow-up job and reports finished once', async () => {
+    const timeline = recordTimeline();
+    const followUps: Job[] = [];
+    enrichBatchMock.mockImplementation(async () => {
+      // A rebuild lists a new exchange while the first job runs
+      if (followUps.length === 0) {
+        followUps.push(enqueueEnrichmentJob('cex', [exchange('b')], { delayMs: 1 }));
+      }
+      return 1;
+    });
+
+    const first = enqueueEnrichmentJob('cex', [exchange('a')], { delayMs: 1 });
+    await waitForIdleQueue();
+
+    expect(first.status).toBe('succeeded');
+    expect(followUps[0].status).toBe('succeeded');
+    expect(timeline).toEqual(['processing:true', 'processing:true', 'processing:false', 'finished']);
+  });
+
+  it('reports finished after a failed job', async () => {
+    const timeline = recordTimeline();
+    enrichBatchMock.mockRejectedValue(new Error('Invalid JSON'));
+
+    await waitForJob(enqueueEnrichmentJob('cex', [exchange('a')], { delayMs: 1, maxRetries: 0 }), 1);
+    await waitForIdleQueue();
+
+    expect(timeline).toEqual(['processing:true', 'error', 'processing:false', 'finished']);
+  });
+});
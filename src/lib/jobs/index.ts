@@ -0,0 +1,359 @@
+import {
+  AI_BATCH_MAX_RETRIES,
+  AI_BATCH_SIZE,
+  CEX_AI_BATCH_DELAY_MS,
+  DEX_AI_BATCH_DELAY_MS,
+  MAX_FINISHED_JOBS,
+} from '@/config/constants';
+import { LLMRateLimitError } from '@/lib/api/llm';
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { getCacheState, setProcessingState } from '@/lib/utils/cache-optimizer';
+import { publishCacheEvent } from '@/lib/utils/cache-events';
+import { enrichBatch, getRecordId } from './enrichment';
+import { Job, JobBatch, JobMarket, JobOptions, JobProgress } from './types';
+
+export type { Job, JobBatch, JobBatchStatus, JobMarket, JobOptions, JobProgress, JobStatus } from './types';
+
+/**
+ * Background Job Queue
+ *
+ * AI enrichment runs as jobs of sequential batches. Each market has its own
+ * FIFO queue: one job runs at a time and the next pending job starts when it
+ * finishes, and processing is reported finished once the queue is empty.
+ * Failed batches are retried up to maxRetries times (with exponential
+ * backoff when the LLM backends are rate-limited); a provider overload
+ * activates the circuit breaker and stops the job.
+ *
+ * Usage:
+ * - enqueueEnrichmentJob(market, records) after a cache rebuild
+ * - getJob(id) / listJobs(market) for progress (/api/jobs)
+ * - cancelJob(id) stops a job after its current batch
+ *
+ * Jobs live in process memory, like the processing flags they replace.
+ */
+
+interface JobQueueState {
+  jobs: Job[]; // Oldest first
+  running: { [market in JobMarket]: boolean };
+  wakers: Map<string, () => void>; // Ends the current wait of a job early (cancellation)
+}
+
+declare global {
+  var jobQueue: JobQueueState | undefined;
+  var cexAIProcessing: boolean;
+  var dexAIProcessing: boolean;
+  var lastAIError: string | null;
+  var lastDEXAIError: string | null;
+  var geminiCircuitBreaker: { blocked: boolean; until: number } | null;
+}
+
+const CIRCUIT_BREAKER_DURATION = 30 * 60 * 1000; // 30 minutes
+
+function getQueue(): JobQueueState {
+  if (!global.jobQueue) {
+    global.jobQueue = { jobs: [], running: { cex: false, dex: false }, wakers: new Map() };
+  }
+  return global.jobQueue;
+}
+
+function createJobId(market: JobMarket): string {
+  return `${market}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isJobFinished(job: Job): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function isOverloadError(message: string): boolean {
+  return message.includes('overloaded') || message.includes('503');
+}
+
+// Drop the oldest finished jobs beyond MAX_FINISHED_JOBS
+function pruneFinishedJobs(queue: JobQueueState): void {
+  const finished = queue.jobs.filter(isJobFinished);
+  const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+  queue.jobs = queue.jobs.filter(job => !excess.has(job));
+}
+
+// Sleep between batches; cancelJob() ends the wait early
+function wait(job: Job, ms: number): Promise<void> {
+  const queue = getQueue();
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      queue.wakers.delete(job.id);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    queue.wakers.set(job.id, done);
+  });
+}
+
+function cancelRemainingBatches(job: Job): void {
+  job.batches
+    .filter(batch => batch.status === 'pending')
+    .forEach(batch => {
+      batch.status = 'cancelled';
+    });
+}
+
+function setLastError(market: JobMarket, error: string | null): void {
+  if (market === 'cex') {
+    global.lastAIError = error;
+  } else {
+    global.lastDEXAIError = error;
+  }
+}
+
+// Run one batch with retries; returns an error that should stop the job, if any
+async function runBatch(job: Job, batch: JobBatch): Promise<string | null> {
+  const label = `${job.market.toUpperCase()} batch ${batch.index}/${job.batches.length}`;
+  batch.status = 'running';
+  batch.startedAt = new Date().toISOString();
+
+  try {
+    while (true) {
+      batch.attempts++;
+      console.log(`🤖 Processing ${label} (${batch.itemIds.length} records, attempt ${batch.attempts})...`);
+
+      try {
+        batch.enhancedCount = await enrichBatch(job, batch);
+        batch.status = 'succeeded';
+        console.log(`✓ ${label} done - ${batch.enhancedCount} records enhanced`);
+        return null;
+      } catch (batchError) {
+        const errorMessage = batchError instanceof Error ? batchError.message : String(batchError);
+        batch.error = errorMessage;
+        console.error(`❌ ${label} failed:`, errorMessage);
+        publishCacheEvent({ type: 'error', market: job.market, message: errorMessage, batch: batch.index });
+
+        // Activate circuit breaker if API is overloaded - retrying would only make it worse
+        if (isOverloadError(errorMessage)) {
+          global.geminiCircuitBreaker = { blocked: true, until: Date.now() + CIRCUIT_BREAKER_DURATION };
+          console.log(`🚫 Circuit breaker activated - stopping ${job.market.toUpperCase()} AI enhancement for 30 minutes`);
+          batch.status = 'failed';
+          return `AI provider overloaded: ${errorMessage}`;
+        }
+
+        if (batch.attempts > job.maxRetries || job.cancelRequested) {
+          batch.status = 'failed';
+          return null;
+        }
+
+        // Rate limits clear on their own - back off exponentially instead of tripping the breaker
+        const retryDelay = batchError instanceof LLMRateLimitError
+          ? job.delayMs * 2 ** (batch.attempts - 1)
+          : job.delayMs;
+        console.log(`⏳ Retrying ${label} in ${retryDelay / 1000}s...`);
+        await wait(job, retryDelay);
+      }
+    }
+  } finally {
+    batch.finishedAt = new Date().toISOString();
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  const market = job.market;
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  setProcessingState(market, true);
+
+  console.log(`📊 Job ${job.id}: processing ${job.batches.length} ${market.toUpperCase()} AI batches sequentially with ${job.delayMs / 1000}s delays...`);
+
+  try {
+    let stopError: string | null = null;
+
+    for (const batch of job.batches) {
+      if (job.cancelRequested) break;
+
+      stopError = await runBatch(job, batch);
+      if (stopError) break;
+
+      // Wait between batches to avoid overloading the LLM API
+      if (batch !== job.batches[job.batches.length - 1] && !job.cancelRequested) {
+        console.log(`⏳ Waiting ${job.delayMs / 1000}s before next ${market.toUpperCase()} batch...`);
+        await wait(job, job.delayMs);
+      }
+    }
+
+    cancelRemainingBatches(job);
+
+    const failedBatches = job.batches.filter(batch => batch.status === 'failed').length;
+    if (job.cancelRequested) {
+      job.status = 'cancelled';
+    } else if (stopError || failedBatches > 0) {
+      job.status = 'failed';
+      job.error = stopError || `${failedBatches} of ${job.batches.length} batches failed`;
+    } else {
+      job.status = 'succeeded';
+    }
+
+    setLastError(market, job.error);
+    console.log(`🎉 Job ${job.id} ${job.status}${job.error ? `: ${job.error}` : ''}`);
+  } catch (jobError) {
+    const errorMessage = jobError instanceof Error ? jobError.message : `Unknown ${market.toUpperCase()} AI error`;
+    console.error(`Background ${market.toUpperCase()} AI enhancement failed:`, errorMessage);
+    cancelRemainingBatches(job);
+    job.status = 'failed';
+    job.error = errorMessage;
+    setLastError(market, errorMessage);
+    publishCacheEvent({ type: 'error', market, message: errorMessage });
+  } finally {
+    job.finishedAt = new Date().toISOString();
+  }
+}
+
+function findPendingJob(queue: JobQueueState, market: JobMarket): Job | undefined {
+  return queue.jobs.find(job => job.market === market && job.status === 'pending');
+}
+
+// Run pending jobs of a market one after another
+async function processQueue(market: JobMarket): Promise<void> {
+  const queue = getQueue();
+  if (queue.running[market]) return;
+
+  queue.running[market] = true;
+  try {
+    let next: Job | undefined;
+    while ((next = findPendingJob(queue, market))) {
+      await runJob(next);
+
+      const cacheState = await getCacheState(market).catch(() => null);
+
+      // A follow-up job (queued while this one ran) keeps processing on - clients only hear 'finished' once
+      if (!findPendingJob(queue, market)) {
+        setProcessingState(market, false);
+        publishCacheEvent({
+          type: 'finished',
+          market,
+          cachedAt: cacheState ? new Date(cacheState.timestamp).toISOString() : null,
+        });
+      }
+    }
+  } finally {
+    queue.running[market] = false;
+    pruneFinishedJobs(queue);
+  }
+}
+
+/**
+ * Queue AI enrichment of the given records (split into batches by id)
+ * The job starts right away unless another job for the market is still running
+ */
+export function enqueueEnrichmentJob(
+  market: JobMarket,
+  records: (CEXFees | DEXFees)[],
+  options: JobOptions = {}
+): Job {
+  const queue = getQueue();
+  const batchSize = Math.max(1, options.batchSize ?? AI_BATCH_SIZE);
+  const ids = records.map(record => getRecordId(market, record));
+
+  const batches: JobBatch[] = [];
+  for (let start = 0; start < ids.length; start += batchSize) {
+    batches.push({
+      index: batches.length + 1,
+      itemIds: ids.slice(start, start + batchSize),
+      status: 'pending',
+      attempts: 0,
+      enhancedCount: 0,
+      error: null,
+      startedAt: null,
+      finishedAt: null,
+    });
+  }
+
+  const job: Job = {
+    id: createJobId(market),
+    market,
+    status: 'pending',
+    batchSize,
+    delayMs: options.delayMs ?? (market === 'cex' ? CEX_AI_BATCH_DELAY_MS : DEX_AI_BATCH_DELAY_MS),
+    maxRetries: Math.max(0, options.maxRetries ?? AI_BATCH_MAX_RETRIES),
+    batches,
+    cancelRequested: false,
+    error: null,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+  };
+
+  queue.jobs.push(job);
+  console.log(`🚀 Queued ${market.toUpperCase()} AI enrichment job ${job.id} for ${ids.length} records (${batches.length} batches)`);
+
+  // Background processing (async, no await)
+  processQueue(market).catch(error => {
+    console.error(`${market.toUpperCase()} job queue error:`, error);
+  });
+
+  return job;
+}
+
+// Resolves once the job has finished (for the refresh CLI, which must not exit mid-job)
+export async function waitForJob(job: Job, pollMs = 1000): Promise<Job> {
+  while (!isJobFinished(job)) {
+    await new Promise(resolve => setTimeout(resolve, pollMs));
+  }
+  return job;
+}
+
+export function getJob(id: string): Job | null {
+  return getQueue().jobs.find(job => job.id === id) || null;
+}
+
+// Newest first
+export function listJobs(market?: JobMarket): Job[] {
+  return getQueue()
+    .jobs.filter(job => !market || job.market === market)
+    .slice()
+    .reverse();
+}
+
+// The running or next pending job of a market
+export function getActiveJob(market: JobMarket): Job | null {
+  const jobs = getQueue().jobs.filter(job => job.market === market);
+  return jobs.find(job => job.status === 'running') || jobs.find(job => job.status === 'pending') || null;
+}
+
+export function getJobProgress(job: Job): JobProgress {
+  const count = (status: JobBatch['status']) => job.batches.filter(batch => batch.status === status).length;
+  const progress = {
+    totalBatches: job.batches.length,
+    pending: count('pending'),
+    running: count('running'),
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+  };
+  const finished = progress.succeeded + progress.failed + progress.cancelled;
+
+  return {
+    ...progress,
+    percent: progress.totalBatches > 0 ? Math.round((finished / progress.totalBatches) * 100) : 100,
+  };
+}
+
+/**
+ * Cancel a job
+ * Pending jobs are cancelled immediately; a running job stops after its current batch.
+ * Returns null when the job doesn't exist.
+ */
+export function cancelJob(id: string): Job | null {
+  const queue = getQueue();
+  const job = getJob(id);
+  if (!job || isJobFinished(job)) return job;
+
+  job.cancelRequested = true;
+
+  if (job.status === 'pending') {
+    cancelRemainingBatches(job);
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+  } else {
+    queue.wakers.get(job.id)?.();
+  }
+
+  console.log(`🛑 Cancellation requested for job ${job.id}`);
+  return job;
+}
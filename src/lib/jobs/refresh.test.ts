@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { enqueueEnrichmentJob, getActiveJob, listJobs } from './index';
+import { Job } from './types';
+import { carryForwardCEXFees, carryForwardDEXFees, queueEnrichment } from './refresh';
+
+vi.mock('./index', () => ({
+  enqueueEnrichmentJob: vi.fn(),
+  getActiveJob: vi.fn(),
+  isJobFinished: (job: Job) => ['succeeded', 'failed', 'cancelled'].includes(job.status),
+  listJobs: vi.fn(),
+}));
+
+vi.mock('@/lib/api/coinmarketcap', () => ({
+  fetchCombinedExchangeData: vi.fn(),
+  fetchCombinedDEXData: vi.fn(),
+}));
+
+vi.mock('@/lib/providers', () => ({
+  hasEnabledFeeProviders: () => true,
+}));
+
+function exchange(fields: Partial<CEXFees>): CEXFees {
+  return {
+    exchangeId: 'binance',
+    exchangeName: 'Binance',
+    logo: '',
+    makerFee: null,
+    takerFee: null,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-02-01T00:00:00.000Z',
+    futuresMakerFee: null,
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
+    ...fields,
+  };
+}
+
+function dex(fields: Partial<DEXFees>): DEXFees {
+  return {
+    dexId: 'uniswap',
+    dexName: 'Uniswap',
+    logo: '',
+    protocol: 'AMM',
+    blockchain: ['Ethereum'],
+    swapFee: null,
+    gasFeeEstimate: {},
+    liquidityUSD: 0,
+    volume24h: 0,
+    url: '',
+    lastUpdated: '2024-02-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+function job(status: Job['status'], itemIds: string[]): Job {
+  return {
+    id: `cex-${status}`,
+    market: 'cex',
+    status,
+    batchSize: 10,
+    delayMs: 0,
+    maxRetries: 0,
+    batches: [{ index: 1, itemIds, status: 'pending', attempts: 0, enhancedCount: 0, error: null, startedAt: null, finishedAt: null }],
+    cancelRequested: false,
+    error: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    startedAt: null,
+    finishedAt: null,
+  };
+}
+
+describe('carryForwardCEXFees', () => {
+  const source = { provider: 'ai:gemini', fetchedAt: '2024-01-01T00:00:00.000Z', confidence: null, sourceUrl: null };
+
+  it('keeps enriched fees and their lastUpdated for records still listed', () => {
+    const previous = [exchange({ makerFee: 0.1, takerFee: 0.1, feeSources: { makerFee: source }, lastUpdated: '2024-01-01T00:00:00.000Z' })];
+    const [carried] = carryForwardCEXFees(previous, [exchange({ volume24h: 500 })]);
+
+    expect(carried.makerFee).toBe(0.1);
+    expect(carried.feeSources).toEqual({ makerFee: source });
+    expect(carried.lastUpdated).toBe('2024-01-01T00:00:00.000Z');
+    expect(carried.volume24h).toBe(500);
+  });
+
+  it('falls back to non-null fees for records cached without feeSources', () => {
+    const [carried] = carryForwardCEXFees([exchange({ futuresTakerFee: 0.05 })], [exchange({})]);
+
+    expect(carried.futuresTakerFee).toBe(0.05);
+    expect(carried.lastUpdated).toBe('2024-02-01T00:00:00.000Z');
+  });
+
+  it('leaves placeholder records and new listings alone', () => {
+    const next = [exchange({}), exchange({ exchangeId: 'kraken' })];
+
+    expect(carryForwardCEXFees([exchange({ lastUpdated: '2024-01-01T00:00:00.000Z' })], next)).toEqual(next);
+  });
+});
+
+describe('carryForwardDEXFees', () => {
+  it('keeps swap fees or gas estimates from the previous cache', () => {
+    const gasFeeEstimate = { ethereum: { low: 1, average: 2, high: 3 } };
+    const [withFee, withGas, unlisted] = carryForwardDEXFees(
+      [dex({ swapFee: 0.3, lastUpdated: '2024-01-01T00:00:00.000Z' }), dex({ dexId: 'curve', gasFeeEstimate })],
+      [dex({}), dex({ dexId: 'curve' }), dex({ dexId: 'new' })]
+    );
+
+    expect(withFee.swapFee).toBe(0.3);
+    expect(withFee.lastUpdated).toBe('2024-01-01T00:00:00.000Z');
+    expect(withGas.gasFeeEstimate).toEqual(gasFeeEstimate);
+    expect(unlisted.swapFee).toBeNull();
+  });
+});
+
+describe('queueEnrichment', () => {
+  beforeEach(() => {
+    vi.mocked(enqueueEnrichmentJob).mockReset().mockImplementation((market, records) => job('pending', records.map(record => (record as CEXFees).exchangeId)));
+    vi.mocked(getActiveJob).mockReset().mockReturnValue(null);
+    vi.mocked(listJobs).mockReset().mockReturnValue([]);
+  });
+
+  it('queues a job for every record when none is active', () => {
+    const records = [exchange({}), exchange({ exchangeId: 'kraken' })];
+
+    queueEnrichment('cex', records);
+
+    expect(enqueueEnrichmentJob).toHaveBeenCalledWith('cex', records);
+  });
+
+  it('queues a follow-up job for records the active jobs do not cover', () => {
+    const active = job('running', ['binance']);
+    vi.mocked(getActiveJob).mockReturnValue(active);
+    vi.mocked(listJobs).mockReturnValue([job('succeeded', ['kraken']), active]);
+
+    const followUp = queueEnrichment('cex', [exchange({}), exchange({ exchangeId: 'kraken' })]);
+
+    expect(enqueueEnrichmentJob).toHaveBeenCalledWith('cex', [exchange({ exchangeId: 'kraken' })]);
+    expect(followUp?.batches[0].itemIds).toEqual(['kraken']);
+  });
+
+  it('returns the active job when it covers every record', () => {
+    const active = job('running', ['binance']);
+    vi.mocked(getActiveJob).mockReturnValue(active);
+    vi.mocked(listJobs).mockReturnValue([active]);
+
+    expect(queueEnrichment('cex', [exchange({})])).toBe(active);
+    expect(enqueueEnrichmentJob).not.toHaveBeenCalled();
+  });
+});
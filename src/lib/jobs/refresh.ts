@@ -0,0 +1,235 @@
+/**
+ * Cache Rebuild Pipeline
+ *
+ * Fetch -> normalize -> carry forward previous fees -> record listing changes
+ * -> cache -> queue AI enrichment.
+ * Shared by the fee routes (on a cache miss, or in the background when the
+ * cache is stale) and the refresh scheduler.
+ *
+ * Normalized records only have placeholder fees, so fees from the previous
+ * cache are kept for records that are still listed until enrichment replaces them.
+ */
+
+import { fetchCombinedDEXData, fetchCombinedExchangeData } from '@/lib/api/coinmarketcap';
+import { hasEnabledFeeProviders } from '@/lib/providers';
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { getCacheState, setCacheState, setProcessingState } from '@/lib/utils/cache-optimizer';
+import { publishCacheEvent } from '@/lib/utils/cache-events';
+import { detectCEXListingChanges, detectDEXListingChanges, recordFeeChanges } from '@/lib/utils/fee-changes';
+import { normalizeCombinedExchangeData, normalizeDEXData } from '@/lib/utils/normalize';
+import { enqueueEnrichmentJob, getActiveJob, isJobFinished, listJobs } from './index';
+import { getRecordId } from './enrichment';
+import { Job, JobMarket } from './types';
+
+declare global {
+  var backgroundRebuilds: { [market in JobMarket]?: Promise<void> } | undefined;
+}
+
+export interface RebuildResult<T> {
+  data: T[];
+  job: Job | null; // Enrichment job for the new data (or the one already running, if it covers every record)
+}
+
+export interface RebuildOptions {
+  // Keep the cached dataset instead of replacing it when the APIs return nothing
+  requireData?: boolean;
+}
+
+/**
+ * Queue AI enrichment unless providers are unavailable
+ * An active job keeps running with the ids it was queued with - records it
+ * doesn't cover (newly listed) get a follow-up job that runs after it.
+ */
+export function queueEnrichment(market: JobMarket, data: (CEXFees | DEXFees)[]): Job | null {
+  const activeJob = getActiveJob(market);
+  if (data.length === 0 || !hasEnabledFeeProviders(market)) {
+    return activeJob;
+  }
+  if (!activeJob) {
+    return enqueueEnrichmentJob(market, data);
+  }
+
+  const covered = new Set(
+    listJobs(market)
+      .filter(job => !isJobFinished(job))
+      .flatMap(job => job.batches.flatMap(batch => batch.itemIds))
+  );
+  const uncovered = data.filter(record => !covered.has(getRecordId(market, record)));
+
+  return uncovered.length > 0 ? enqueueEnrichmentJob(market, uncovered) : activeJob;
+}
+
+// Enriched before: merges set feeSources, older caches only have non-null fees
+function hasCEXFeeData(exchange: CEXFees): boolean {
+  return !!exchange.feeSources || [
+    exchange.makerFee,
+    exchange.takerFee,
+    exchange.futuresMakerFee,
+    exchange.futuresTakerFee,
+    exchange.fundingRate,
+    exchange.marginBorrowRate,
+  ].some(fee => fee !== null && fee !== undefined);
+}
+
+function hasDEXFeeData(dex: DEXFees): boolean {
+  return !!dex.feeSources || dex.swapFee !== null || Object.keys(dex.gasFeeEstimate || {}).length > 0;
+}
+
+/**
+ * Keep fees from the previous cache for records that were enriched before
+ * lastUpdated is carried too, so the fees don't look freshly fetched
+ */
+export function carryForwardCEXFees(previous: CEXFees[], next: CEXFees[]): CEXFees[] {
+  const previousById = new Map(previous.map(exchange => [exchange.exchangeId, exchange]));
+
+  return next.map(exchange => {
+    const old = previousById.get(exchange.exchangeId);
+    if (!old || !hasCEXFeeData(old)) {
+      return exchange;
+    }
+    return {
+      ...exchange,
+      makerFee: old.makerFee,
+      takerFee: old.takerFee,
+      withdrawalFees: old.withdrawalFees,
+      depositFees: old.depositFees,
+      feeTiers: old.feeTiers,
+      futuresMakerFee: old.futuresMakerFee,
+      futuresTakerFee: old.futuresTakerFee,
+      fundingRate: old.fundingRate,
+      marginBorrowRate: old.marginBorrowRate,
+      feeSources: old.feeSources,
+      lastUpdated: old.lastUpdated,
+    };
+  });
+}
+
+export function carryForwardDEXFees(previous: DEXFees[], next: DEXFees[]): DEXFees[] {
+  const previousById = new Map(previous.map(dex => [dex.dexId, dex]));
+
+  return next.map(dex => {
+    const old = previousById.get(dex.dexId);
+    if (!old || !hasDEXFeeData(old)) {
+      return dex;
+    }
+    return {
+      ...dex,
+      swapFee: old.swapFee,
+      gasFeeEstimate: old.gasFeeEstimate,
+      feeSources: old.feeSources,
+      lastUpdated: old.lastUpdated,
+    };
+  });
+}
+
+export async function rebuildCEXCache(options: RebuildOptions = {}): Promise<RebuildResult<CEXFees>> {
+  if (!process.env.COINMARKETCAP_API_KEY) {
+    throw new Error('COINMARKETCAP_API_KEY environment variable is required for exchange rankings and metadata');
+  }
+
+  const previous = await getCacheState('cex');
+
+  // Fetch combined data from CMC (volumes, rankings) + CoinGecko (trust scores)
+  const rawData = await fetchCombinedExchangeData(50);
+
+  // Normalize data with placeholder fee values, keeping previously enriched fees
+  const normalizedData = carryForwardCEXFees(previous?.data || [], rawData.map(normalizeCombinedExchangeData));
+
+  if (options.requireData && normalizedData.length === 0) {
+    throw new Error('Exchange APIs returned no data - CEX cache left unchanged');
+  }
+
+  // Record exchanges that entered or left the top list since the previous rebuild
+  if (previous && normalizedData.length > 0) {
+    await recordFeeChanges(detectCEXListingChanges(previous.data, normalizedData));
+  }
+
+  // Cache the normalized data immediately
+  await setCacheState('cex', normalizedData);
+
+  return { data: normalizedData, job: queueEnrichment('cex', normalizedData) };
+}
+
+export async function rebuildDEXCache(options: RebuildOptions = {}): Promise<RebuildResult<DEXFees>> {
+  const previous = await getCacheState('dex');
+
+  // Fetch real DEX data from APIs
+  const rawDEXData = await fetchCombinedDEXData();
+
+  // Normalize DEX data (will be empty array if APIs fail), keeping previously enriched fees
+  const normalizedData = carryForwardDEXFees(previous?.data || [], rawDEXData.map(normalizeDEXData));
+
+  if (options.requireData && normalizedData.length === 0) {
+    throw new Error('DEX APIs returned no data - DEX cache left unchanged');
+  }
+
+  // Record DEXes that entered or left the top list since the previous rebuild
+  if (previous && normalizedData.length > 0) {
+    await recordFeeChanges(detectDEXListingChanges(previous.data, normalizedData));
+  }
+
+  // Cache the normalized data immediately
+  await setCacheState('dex', normalizedData);
+
+  return { data: normalizedData, job: queueEnrichment('dex', normalizedData) };
+}
+
+export function rebuildCache(
+  market: JobMarket,
+  options: RebuildOptions = {}
+): Promise<RebuildResult<CEXFees> | RebuildResult<DEXFees>> {
+  return market === 'cex' ? rebuildCEXCache(options) : rebuildDEXCache(options);
+}
+
+export function isRebuildingInBackground(market: JobMarket): boolean {
+  return !!global.backgroundRebuilds?.[market];
+}
+
+/**
+ * Rebuild a market's cache without blocking the caller (stale-while-revalidate)
+ * Returns false if a background rebuild is already running. The cached data
+ * is kept if the APIs return nothing.
+ */
+export function startBackgroundRebuild(market: JobMarket): boolean {
+  if (!global.backgroundRebuilds) {
+    global.backgroundRebuilds = {};
+  }
+  const rebuilds = global.backgroundRebuilds;
+  if (rebuilds[market]) {
+    return false;
+  }
+
+  const label = market.toUpperCase();
+  console.log(`🔄 Rebuilding stale ${label} cache in the background...`);
+  setProcessingState(market, true); // Clients keep listening until the rebuild and its enrichment finish
+
+  rebuilds[market] = rebuildCache(market, { requireData: true })
+    .then(async ({ data, job }) => {
+      const cacheState = await getCacheState(market);
+      const cachedAt = cacheState ? new Date(cacheState.timestamp).toISOString() : null;
+      console.log(`✓ ${label} cache rebuilt in the background with ${data.length} records${job ? `, enrichment job ${job.id}` : ''}`);
+      publishCacheEvent({ type: 'rebuilt', market, records: data.length, cachedAt });
+
+      // The enrichment job finishes processing itself
+      if (!job) {
+        setProcessingState(market, false);
+        publishCacheEvent({ type: 'finished', market, cachedAt });
+      }
+    })
+    .catch(error => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown rebuild error';
+      console.error(`❌ Background ${label} rebuild failed:`, errorMessage);
+      publishCacheEvent({ type: 'error', market, message: errorMessage });
+
+      // Stale data stays cached; stop clients waiting unless an enrichment job is still running
+      if (!getActiveJob(market)) {
+        setProcessingState(market, false);
+        publishCacheEvent({ type: 'finished', market, cachedAt: null });
+      }
+    })
+    .finally(() => {
+      delete rebuilds[market];
+    });
+
+  return true;
+}
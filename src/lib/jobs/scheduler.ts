@@ -0,0 +1,189 @@
+/**
+ * Scheduled Cache Refresh
+ *
+ * Rebuilds CEX/DEX data before the cache expires, so no visitor ever hits a
+ * cache miss and gets placeholder fees while AI enrichment restarts.
+ *
+ * A refresh check rebuilds a market when its cache is missing, empty or
+ * expires within REFRESH_LEAD_HOURS; otherwise it is skipped. Checks run:
+ * - on the CEX_REFRESH_CRON / DEX_REFRESH_CRON schedules in a long-running
+ *   process (npm run refresh -- --watch)
+ * - once per `npm run refresh` (for system cron)
+ * - per call to /api/cron/refresh (for hosted schedulers)
+ *
+ * Rebuilds reuse the fee routes' pipeline (lib/jobs/refresh).
+ */
+
+import {
+  CEX_CACHE_DURATION,
+  CEX_REFRESH_CRON,
+  DEX_CACHE_DURATION,
+  DEX_REFRESH_CRON,
+  REFRESH_LEAD_HOURS,
+} from '@/config/constants';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { CronSchedule, getNextCronRun, parseCron } from '@/lib/utils/cron';
+import { rebuildCache } from './refresh';
+import { JobMarket } from './types';
+
+export const REFRESH_MARKETS: JobMarket[] = ['cex', 'dex'];
+
+// Longest delay setTimeout accepts (~24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export interface RefreshDecision {
+  due: boolean;
+  reason: string;
+  cachedAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface MarketRefreshResult extends RefreshDecision {
+  market: JobMarket;
+  status: 'refreshed' | 'skipped' | 'failed';
+  records: number | null; // Records in the rebuilt cache
+  jobId: string | null; // AI enrichment job for the rebuilt data
+  error: string | null;
+}
+
+export interface RefreshOptions {
+  markets?: JobMarket[];
+  force?: boolean; // Rebuild even if the cache is not close to expiry
+}
+
+function formatHours(ms: number): string {
+  return `${(ms / (60 * 60 * 1000)).toFixed(1)}h`;
+}
+
+// Throws on an invalid CEX_REFRESH_CRON / DEX_REFRESH_CRON
+export function getRefreshSchedule(market: JobMarket): CronSchedule {
+  return parseCron(market === 'cex' ? CEX_REFRESH_CRON : DEX_REFRESH_CRON);
+}
+
+export async function getRefreshDecision(market: JobMarket, now = Date.now()): Promise<RefreshDecision> {
+  const cacheState = await getCacheState(market);
+
+  if (!cacheState) {
+    return { due: true, reason: 'cache missing', cachedAt: null, expiresAt: null };
+  }
+
+  const duration = market === 'cex' ? CEX_CACHE_DURATION : DEX_CACHE_DURATION;
+  const expiresAtMs = cacheState.timestamp + duration;
+  const remaining = expiresAtMs - now;
+  const times = {
+    cachedAt: new Date(cacheState.timestamp).toISOString(),
+    expiresAt: new Date(expiresAtMs).toISOString(),
+  };
+
+  if (cacheState.data.length === 0) {
+    return { due: true, reason: 'cache empty', ...times };
+  }
+  if (remaining <= 0) {
+    return { due: true, reason: 'cache expired', ...times };
+  }
+  if (remaining <= REFRESH_LEAD_HOURS * 60 * 60 * 1000) {
+    return { due: true, reason: `cache expires in ${formatHours(remaining)}`, ...times };
+  }
+  return { due: false, reason: `cache fresh for another ${formatHours(remaining)}`, ...times };
+}
+
+export async function refreshMarket(market: JobMarket, force = false): Promise<MarketRefreshResult> {
+  const decision = await getRefreshDecision(market);
+  const result: MarketRefreshResult = {
+    ...decision,
+    market,
+    status: 'skipped',
+    records: null,
+    jobId: null,
+    error: null,
+  };
+
+  if (!decision.due && !force) {
+    console.log(`⏭️ ${market.toUpperCase()} refresh skipped - ${decision.reason}`);
+    return result;
+  }
+
+  const reason = decision.due ? decision.reason : 'forced';
+  console.log(`🔄 Refreshing ${market.toUpperCase()} data (${reason})...`);
+
+  try {
+    // requireData: never replace good cached data with an empty API response
+    const { data, job } = await rebuildCache(market, { requireData: true });
+    const cacheState = await getCacheState(market);
+
+    console.log(`✓ ${market.toUpperCase()} cache rebuilt with ${data.length} records${job ? `, enrichment job ${job.id}` : ''}`);
+    return {
+      ...result,
+      status: 'refreshed',
+      reason,
+      records: data.length,
+      jobId: job?.id ?? null,
+      cachedAt: cacheState ? new Date(cacheState.timestamp).toISOString() : null,
+      expiresAt: cacheState
+        ? new Date(cacheState.timestamp + (market === 'cex' ? CEX_CACHE_DURATION : DEX_CACHE_DURATION)).toISOString()
+        : null,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown refresh error';
+    console.error(`❌ ${market.toUpperCase()} refresh failed:`, errorMessage);
+    return { ...result, status: 'failed', reason, error: errorMessage };
+  }
+}
+
+/**
+ * Check (and rebuild where due) each market once
+ * Markets are refreshed one after another to stay within API rate limits
+ */
+export async function runScheduledRefresh(options: RefreshOptions = {}): Promise<MarketRefreshResult[]> {
+  const results: MarketRefreshResult[] = [];
+  for (const market of options.markets || REFRESH_MARKETS) {
+    results.push(await refreshMarket(market, options.force));
+  }
+  return results;
+}
+
+/**
+ * Run refresh checks on each market's cron schedule until the returned stop function is called
+ * Throws right away if a schedule is invalid
+ */
+export function startRefreshScheduler(
+  markets: JobMarket[] = REFRESH_MARKETS,
+  onResult?: (result: MarketRefreshResult) => void
+): () => void {
+  const schedules = markets.map(market => ({ market, schedule: getRefreshSchedule(market) }));
+  const timers = new Map<JobMarket, NodeJS.Timeout>();
+  let stopped = false;
+
+  const scheduleNext = (market: JobMarket, schedule: CronSchedule) => {
+    if (stopped) return;
+
+    const nextRun = getNextCronRun(schedule, new Date());
+    if (!nextRun) {
+      console.warn(`⚠️ ${market.toUpperCase()} refresh cron "${schedule.expression}" never matches - not scheduled`);
+      return;
+    }
+
+    const delay = nextRun.getTime() - Date.now();
+    console.log(`⏰ Next ${market.toUpperCase()} refresh check at ${nextRun.toISOString()}`);
+
+    // Timers can't span more than ~24.8 days - wake up and re-plan
+    if (delay > MAX_TIMER_DELAY) {
+      timers.set(market, setTimeout(() => scheduleNext(market, schedule), MAX_TIMER_DELAY));
+      return;
+    }
+
+    timers.set(market, setTimeout(async () => {
+      const result = await refreshMarket(market);
+      onResult?.(result);
+      scheduleNext(market, schedule);
+    }, delay));
+  };
+
+  schedules.forEach(({ market, schedule }) => scheduleNext(market, schedule));
+
+  return () => {
+    stopped = true;
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+  };
+}
@@ -0,0 +1,50 @@
+export type JobMarket = 'cex' | 'dex';
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Batches left unprocessed by a cancelled or stopped job end up 'cancelled'
+export type JobBatchStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobBatch {
+  index: number; // 1-based
+  itemIds: string[]; // exchangeId / dexId of the records in this batch
+  status: JobBatchStatus;
+  attempts: number;
+  enhancedCount: number; // Records that received provider fee data
+  error: string | null; // Last error, kept when a retry succeeds
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// Background AI enrichment of one market's cached records
+export interface Job {
+  id: string;
+  market: JobMarket;
+  status: JobStatus;
+  batchSize: number;
+  delayMs: number; // Pause between batches and before each retry
+  maxRetries: number; // Extra attempts per failed batch
+  batches: JobBatch[];
+  cancelRequested: boolean;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface JobOptions {
+  batchSize?: number;
+  delayMs?: number;
+  maxRetries?: number;
+}
+
+// Batch counts by status; percent counts every finished batch
+export interface JobProgress {
+  totalBatches: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  percent: number;
+}
@@ -0,0 +1,38 @@
+import { AI_DERIVATIVES_FEES } from '@/config/constants';
+import { fetchCEXFeesFromAI, fetchCEXDerivativesFeesFromAI, fetchDEXFeesFromAI } from '@/lib/api/gemini';
+import { hasAvailableLLMBackend } from '@/lib/api/llm';
+import { CEXFees } from '@/lib/types/exchange';
+import { CEXFeeData } from '@/lib/types/api';
+import { FeeProvider } from './types';
+
+/**
+ * AI Fee Provider
+ *
+ * Enabled when an LLM backend is configured and not circuit-broken,
+ * and the route-level AI circuit breaker is not active
+ *
+ * CEX batches run the spot prompt and, with AI_DERIVATIVES_FEES=true, the
+ * derivatives prompt - both record sets are merged by the registry
+ */
+export const aiProvider: FeeProvider = {
+  name: 'ai',
+  supports: { cex: true, dex: true },
+
+  isEnabled() {
+    const isCircuitBreakerActive = !!global.geminiCircuitBreaker &&
+      global.geminiCircuitBreaker.blocked &&
+      Date.now() < global.geminiCircuitBreaker.until;
+
+    return hasAvailableLLMBackend() && !isCircuitBreakerActive;
+  },
+
+  async fetchCEXFees(exchanges: CEXFees[]): Promise<CEXFeeData[]> {
+    const spot = await fetchCEXFeesFromAI(exchanges);
+    if (!AI_DERIVATIVES_FEES) {
+      return spot;
+    }
+    return [...spot, ...await fetchCEXDerivativesFeesFromAI(exchanges)];
+  },
+
+  fetchDEXFees: fetchDEXFeesFromAI,
+};
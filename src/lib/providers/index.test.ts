@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { CEXFeeData, DEXFeeData } from '@/lib/types/api';
+import { mergeProviderCEXFeeData, mergeProviderDEXFeeData } from './index';
+
+function cexRecord(fields: Partial<CEXFeeData>): CEXFeeData {
+  return { exchangeId: 'binance', makerFee: null, takerFee: null, withdrawalFees: {}, depositFees: {}, ...fields };
+}
+
+describe('mergeProviderCEXFeeData', () => {
+  it('takes each field from the highest-priority provider with a value', () => {
+    const merged = mergeProviderCEXFeeData([
+      { provider: 'static', fetchedAt: '2024-01-02T00:00:00.000Z', records: [cexRecord({ makerFee: 0.08, sourceUrl: 'https://example.com/fees' })] },
+      { provider: 'ai', fetchedAt: '2024-01-01T00:00:00.000Z', records: [cexRecord({ makerFee: 0.1, takerFee: 0.1, confidence: 0.7, provider: 'ai:gemini' })] },
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].makerFee).toBe(0.08);
+    expect(merged[0].takerFee).toBe(0.1);
+    expect(merged[0].feeSources?.makerFee).toEqual({
+      provider: 'static',
+      fetchedAt: '2024-01-02T00:00:00.000Z',
+      confidence: null,
+      sourceUrl: 'https://example.com/fees',
+    });
+    expect(merged[0].feeSources?.takerFee).toMatchObject({ provider: 'ai:gemini', confidence: 0.7 });
+  });
+
+  it('merges several records from one provider and withdrawal networks across providers', () => {
+    const merged = mergeProviderCEXFeeData([
+      {
+        provider: 'static',
+        fetchedAt: '2024-01-02T00:00:00.000Z',
+        records: [cexRecord({ withdrawalFees: { BTC: { Bitcoin: { fee: 0.0001, minWithdrawal: null, enabled: true } } } })],
+      },
+      {
+        provider: 'ai',
+        fetchedAt: '2024-01-01T00:00:00.000Z',
+        records: [
+          cexRecord({
+            makerFee: 0.1,
+            takerFee: 0.1,
+            withdrawalFees: {
+              BTC: {
+                Bitcoin: { fee: 0.0005, minWithdrawal: null, enabled: true },
+                Lightning: { fee: 0, minWithdrawal: null, enabled: true },
+              },
+            },
+          }),
+          cexRecord({ futuresMakerFee: 0.02, futuresTakerFee: 0.05 }),
+        ],
+      },
+    ]);
+
+    expect(merged[0].makerFee).toBe(0.1);
+    expect(merged[0].futuresTakerFee).toBe(0.05);
+    expect(merged[0].withdrawalFees.BTC.Bitcoin.fee).toBe(0.0001);
+    expect(merged[0].withdrawalFees.BTC.Lightning.fee).toBe(0);
+    expect(merged[0].feeSources?.withdrawalFees?.provider).toBe('static');
+    expect(merged[0].feeSources?.futuresMakerFee?.provider).toBe('ai');
+  });
+
+  it('never mixes fee tier schedules from different providers', () => {
+    const staticTiers = [{ name: 'VIP 0', minVolume30d: 0, makerFee: 0.1, takerFee: 0.1, tokenDiscount: null }];
+    const aiTiers = [
+      { name: 'Regular', minVolume30d: 0, makerFee: 0.2, takerFee: 0.2, tokenDiscount: null },
+      { name: 'VIP 1', minVolume30d: 1000000, makerFee: 0.1, takerFee: 0.15, tokenDiscount: null },
+    ];
+
+    const merged = mergeProviderCEXFeeData([
+      { provider: 'static', fetchedAt: '2024-01-02T00:00:00.000Z', records: [cexRecord({ feeTiers: staticTiers })] },
+      { provider: 'ai', fetchedAt: '2024-01-01T00:00:00.000Z', records: [cexRecord({ feeTiers: aiTiers })] },
+    ]);
+
+    expect(merged[0].feeTiers).toEqual(staticTiers);
+    expect(merged[0].feeSources?.feeTiers?.provider).toBe('static');
+  });
+});
+
+describe('mergeProviderDEXFeeData', () => {
+  it('merges swap fees by priority and gas estimates per chain', () => {
+    const record = (fields: Partial<DEXFeeData>): DEXFeeData => ({ dexId: 'uniswap', swapFee: null, gasFeeEstimate: {}, ...fields });
+
+    const merged = mergeProviderDEXFeeData([
+      { provider: 'static', fetchedAt: '2024-01-02T00:00:00.000Z', records: [record({ swapFee: 0.3 })] },
+      {
+        provider: 'ai',
+        fetchedAt: '2024-01-01T00:00:00.000Z',
+        records: [record({ swapFee: 0.25, gasFeeEstimate: { ethereum: { low: 1, average: 2, high: 3 } } })],
+      },
+    ]);
+
+    expect(merged[0].swapFee).toBe(0.3);
+    expect(merged[0].gasFeeEstimate).toEqual({ ethereum: { low: 1, average: 2, high: 3 } });
+    expect(merged[0].feeSources?.swapFee?.provider).toBe('static');
+    expect(merged[0].feeSources?.gasFeeEstimate?.provider).toBe('ai');
+  });
+});
@@ -0,0 +1,227 @@
+import { FEE_PROVIDER_PRIORITY } from '@/config/constants';
+import { CEXFees, DEXFees, FeeFieldSource } from '@/lib/types/exchange';
+import { CEXFeeData, DEXFeeData } from '@/lib/types/api';
+import { mergeWithdrawalFees } from '@/lib/utils/withdrawal-fees';
+import { FeeProvider } from './types';
+import { aiProvider } from './ai-provider';
+import { staticFileProvider } from './static-file-provider';
+
+/**
+ * Fee Provider Registry
+ *
+ * Providers are queried in FEE_PROVIDER_PRIORITY order and their records merged
+ * per field: the highest-priority provider with a non-null value wins.
+ *
+ * Usage:
+ * - registerFeeProvider(provider) to add a source
+ * - fetchCEXFeesFromProviders(exchanges) / fetchDEXFeesFromProviders(dexes) in the fee routes
+ * - pass { failOnError: true } where a failed provider should fail the whole call (enrichment jobs retry it)
+ */
+
+const providers: FeeProvider[] = [];
+
+// Former provider names still accepted in FEE_PROVIDER_PRIORITY
+const PROVIDER_ALIASES: { [alias: string]: string } = {
+  gemini: 'ai',
+};
+
+const providerPriority = FEE_PROVIDER_PRIORITY.map(name => PROVIDER_ALIASES[name] || name);
+let priorityChecked = false;
+
+export function registerFeeProvider(provider: FeeProvider): void {
+  const existing = providers.findIndex(item => item.name === provider.name);
+  if (existing >= 0) {
+    providers[existing] = provider;
+  } else {
+    providers.push(provider);
+  }
+}
+
+registerFeeProvider(staticFileProvider);
+registerFeeProvider(aiProvider);
+
+function priorityOf(provider: FeeProvider): number {
+  const index = providerPriority.indexOf(provider.name);
+  return index >= 0 ? index : providerPriority.length + providers.indexOf(provider);
+}
+
+// Warn once about FEE_PROVIDER_PRIORITY entries that match no provider (they would be ignored silently)
+function checkProviderPriority(): void {
+  if (priorityChecked) return;
+  priorityChecked = true;
+
+  const unknown = providerPriority.filter(name => !providers.some(provider => provider.name === name));
+  if (unknown.length > 0) {
+    console.warn(`⚠️ Unknown fee provider(s) in FEE_PROVIDER_PRIORITY: ${unknown.join(', ')} - available: ${providers.map(provider => provider.name).join(', ')}`);
+  }
+}
+
+/**
+ * Get enabled providers for a market, highest priority first
+ */
+export function getFeeProviders(type: 'cex' | 'dex'): FeeProvider[] {
+  checkProviderPriority();
+  return providers
+    .filter(provider => provider.supports[type] && provider.isEnabled(type))
+    .sort((a, b) => priorityOf(a) - priorityOf(b));
+}
+
+export function hasEnabledFeeProviders(type: 'cex' | 'dex'): boolean {
+  return getFeeProviders(type).length > 0;
+}
+
+interface ProviderResult<T> {
+  provider: string;
+  fetchedAt: string;
+  records: T[];
+}
+
+export interface ProviderFetchOptions {
+  failOnError?: boolean;  // Rethrow the first provider error instead of skipping the provider
+}
+
+/**
+ * Run each provider, skipping failures. If every provider failed the first
+ * error is rethrown so callers can still react (e.g. the AI circuit breaker).
+ */
+async function collectProviderResults<T>(
+  active: FeeProvider[],
+  fetch: (provider: FeeProvider) => Promise<T[]> | undefined,
+  { failOnError = false }: ProviderFetchOptions
+): Promise<ProviderResult<T>[]> {
+  const results: ProviderResult<T>[] = [];
+  const errors: unknown[] = [];
+
+  for (const provider of active) {
+    try {
+      const records = (await fetch(provider)) || [];
+      console.log(`📦 Provider ${provider.name} returned ${records.length} records`);
+      results.push({ provider: provider.name, fetchedAt: new Date().toISOString(), records });
+    } catch (error) {
+      console.error(`❌ Provider ${provider.name} failed:`, error instanceof Error ? error.message : error);
+      if (failOnError) {
+        throw error;
+      }
+      errors.push(error);
+    }
+  }
+
+  if (results.length === 0 && errors.length > 0) {
+    throw errors[0];
+  }
+
+  return results;
+}
+
+function sourceOf(
+  result: ProviderResult<unknown>,
+  record: { provider?: string; confidence?: number | null; sourceUrl?: string | null }
+): FeeFieldSource {
+  return {
+    provider: record.provider ?? result.provider,
+    fetchedAt: result.fetchedAt,
+    confidence: record.confidence ?? null,
+    sourceUrl: record.sourceUrl ?? null,
+  };
+}
+
+/**
+ * Merge provider results (highest priority first) into one record per exchange
+ * feeSources records which provider supplied each field
+ * A provider may return several records per exchange (e.g. spot and derivatives)
+ */
+export function mergeProviderCEXFeeData(resultsByPriority: ProviderResult<CEXFeeData>[]): CEXFeeData[] {
+  const merged = new Map<string, CEXFeeData>();
+
+  // Walk lowest priority first so higher-priority values overwrite
+  [...resultsByPriority].reverse().forEach(result => {
+    result.records.forEach(record => {
+      const current = merged.get(record.exchangeId);
+      const source = sourceOf(result, record);
+      const feeSources = { ...current?.feeSources };
+
+      if (record.makerFee !== null) feeSources.makerFee = source;
+      if (record.takerFee !== null) feeSources.takerFee = source;
+      if (Object.keys(record.withdrawalFees).length > 0) feeSources.withdrawalFees = source;
+      if (Object.keys(record.depositFees).length > 0) feeSources.depositFees = source;
+      if (record.feeTiers?.length) feeSources.feeTiers = source;
+      if (record.futuresMakerFee != null) feeSources.futuresMakerFee = source;
+      if (record.futuresTakerFee != null) feeSources.futuresTakerFee = source;
+      if (record.fundingRate != null) feeSources.fundingRate = source;
+      if (record.marginBorrowRate != null) feeSources.marginBorrowRate = source;
+
+      merged.set(record.exchangeId, {
+        exchangeId: record.exchangeId,
+        makerFee: record.makerFee ?? current?.makerFee ?? null,
+        takerFee: record.takerFee ?? current?.takerFee ?? null,
+        withdrawalFees: mergeWithdrawalFees(current?.withdrawalFees, record.withdrawalFees),
+        depositFees: { ...current?.depositFees, ...record.depositFees },
+        // Tier schedules are only consistent as a whole - never mix providers
+        feeTiers: record.feeTiers?.length ? record.feeTiers : current?.feeTiers ?? [],
+        futuresMakerFee: record.futuresMakerFee ?? current?.futuresMakerFee ?? null,
+        futuresTakerFee: record.futuresTakerFee ?? current?.futuresTakerFee ?? null,
+        fundingRate: record.fundingRate ?? current?.fundingRate ?? null,
+        marginBorrowRate: record.marginBorrowRate ?? current?.marginBorrowRate ?? null,
+        feeSources,
+      });
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
+export function mergeProviderDEXFeeData(resultsByPriority: ProviderResult<DEXFeeData>[]): DEXFeeData[] {
+  const merged = new Map<string, DEXFeeData>();
+
+  [...resultsByPriority].reverse().forEach(result => {
+    result.records.forEach(record => {
+      const current = merged.get(record.dexId);
+      const source = sourceOf(result, record);
+      const feeSources = { ...current?.feeSources };
+
+      if (record.swapFee !== null) feeSources.swapFee = source;
+      if (Object.keys(record.gasFeeEstimate).length > 0) feeSources.gasFeeEstimate = source;
+
+      merged.set(record.dexId, {
+        dexId: record.dexId,
+        swapFee: record.swapFee ?? current?.swapFee ?? null,
+        gasFeeEstimate: { ...current?.gasFeeEstimate, ...record.gasFeeEstimate },
+        feeSources,
+      });
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Fetch and merge CEX fee records from all enabled providers
+ */
+export async function fetchCEXFeesFromProviders(
+  exchanges: CEXFees[],
+  options: ProviderFetchOptions = {}
+): Promise<CEXFeeData[]> {
+  const results = await collectProviderResults(
+    getFeeProviders('cex'),
+    provider => provider.fetchCEXFees?.(exchanges),
+    options
+  );
+  return mergeProviderCEXFeeData(results);
+}
+
+/**
+ * Fetch and merge DEX fee records from all enabled providers
+ */
+export async function fetchDEXFeesFromProviders(
+  dexes: DEXFees[],
+  options: ProviderFetchOptions = {}
+): Promise<DEXFeeData[]> {
+  const results = await collectProviderResults(
+    getFeeProviders('dex'),
+    provider => provider.fetchDEXFees?.(dexes),
+    options
+  );
+  return mergeProviderDEXFeeData(results);
+}
+
+export type { FeeProvider } from './types';
@@ -0,0 +1,76 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { STATIC_FEES_FILE } from '@/config/constants';
+import { validateCEXFeeData, validateDEXFeeData } from '@/lib/api/ai-validation';
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { CEXFeeData, DEXFeeData } from '@/lib/types/api';
+import { FeeProvider } from './types';
+
+/**
+ * Static JSON File Fee Provider
+ *
+ * Reads curated fee records from STATIC_FEES_FILE (default data/static-fees.json):
+ * { "cex": CEXFeeData[], "dex": DEXFeeData[] }
+ *
+ * Records go through the same validation as AI responses.
+ * The provider is disabled when the file does not exist.
+ */
+
+interface StaticFeesFile {
+  cex?: unknown[];
+  dex?: unknown[];
+}
+
+function resolveFilePath(): string {
+  return path.resolve(process.cwd(), STATIC_FEES_FILE);
+}
+
+async function readStaticFees(): Promise<StaticFeesFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(resolveFilePath(), 'utf8'));
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`❌ Failed to read static fees from ${STATIC_FEES_FILE}:`, error);
+    }
+    return {};
+  }
+}
+
+// Only keep records for the requested ids so unrelated entries aren't reported as unknown
+function pickRecords(records: unknown[] | undefined, idField: string, ids: Set<string>): unknown[] {
+  if (!Array.isArray(records)) {
+    return [];
+  }
+  return records.filter(record =>
+    typeof record === 'object' && record !== null &&
+    ids.has((record as Record<string, unknown>)[idField] as string)
+  );
+}
+
+export const staticFileProvider: FeeProvider = {
+  name: 'static',
+  supports: { cex: true, dex: true },
+
+  isEnabled() {
+    return existsSync(resolveFilePath());
+  },
+
+  async fetchCEXFees(exchanges: CEXFees[]): Promise<CEXFeeData[]> {
+    const ids = exchanges.map(exchange => exchange.exchangeId);
+    const { cex } = await readStaticFees();
+    const result = validateCEXFeeData(pickRecords(cex, 'exchangeId', new Set(ids)), ids);
+
+    result.rejected.forEach(error => console.warn(`⚠️ Static fees: ${error.message}`));
+    return result.accepted;
+  },
+
+  async fetchDEXFees(dexes: DEXFees[]): Promise<DEXFeeData[]> {
+    const requested = dexes.map(dex => ({ dexId: dex.dexId, blockchain: dex.blockchain }));
+    const { dex } = await readStaticFees();
+    const result = validateDEXFeeData(pickRecords(dex, 'dexId', new Set(requested.map(item => item.dexId))), requested);
+
+    result.rejected.forEach(error => console.warn(`⚠️ Static fees: ${error.message}`));
+    return result.accepted;
+  },
+};
@@ -0,0 +1,19 @@
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { CEXFeeData, DEXFeeData } from '@/lib/types/api';
+
+/**
+ * Fee Provider Types
+ *
+ * A fee provider supplies fee records for a list of exchanges/DEXes.
+ * Results from all enabled providers are merged by priority in the registry.
+ */
+export interface FeeProvider {
+  readonly name: string;
+  readonly supports: { cex: boolean; dex: boolean };
+
+  // Whether the provider can run right now (configured, not circuit-broken)
+  isEnabled(type: 'cex' | 'dex'): boolean;
+
+  fetchCEXFees?(exchanges: CEXFees[]): Promise<CEXFeeData[]>;
+  fetchDEXFees?(dexes: DEXFees[]): Promise<DEXFeeData[]>;
+}
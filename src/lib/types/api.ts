@@ -1,3 +1,5 @@
+import { CEXFees, CEXFeeSources, CEXFeeTier, DEXFees, DEXFeeSources, WithdrawalFees } from './exchange';
+
 // API Response wrapper
 export interface APIResponse<T> {
   data: T;
@@ -23,6 +25,42 @@ export interface CoinGeckoExchange {
   tickers?: any[];
 }
 
+// Fee provider record types (one record per requested exchange)
+// confidence/sourceUrl are reported by the source; provider refines the provider name (e.g. 'ai:gemini')
+// feeSources is filled in when provider results are merged
+export interface CEXFeeData {
+  exchangeId: string;
+  makerFee: number | null;
+  takerFee: number | null;
+  withdrawalFees: WithdrawalFees;
+  depositFees: { [coin: string]: number };
+  feeTiers?: CEXFeeTier[];
+  futuresMakerFee?: number | null;
+  futuresTakerFee?: number | null;
+  fundingRate?: number | null;
+  marginBorrowRate?: number | null;
+  confidence?: number | null;
+  sourceUrl?: string | null;
+  provider?: string;
+  feeSources?: CEXFeeSources;
+}
+
+export interface DEXFeeData {
+  dexId: string;
+  swapFee: number | null;
+  gasFeeEstimate: {
+    [blockchain: string]: {
+      low: number;
+      average: number;
+      high: number;
+    };
+  };
+  confidence?: number | null;
+  sourceUrl?: string | null;
+  provider?: string;
+  feeSources?: DEXFeeSources;
+}
+
 // Error response
 export interface ErrorResponse {
   error: string;
@@ -36,3 +74,25 @@ export interface CacheMetadata {
   expiresAt: number;
   source: string;
 }
+
+// Cache update events pushed over /api/events (Server-Sent Events)
+export type CacheEventMarket = 'cex' | 'dex';
+
+export type CacheEvent =
+  | {
+      type: 'batch'; // A background enhancement batch was merged into the cache
+      market: CacheEventMarket;
+      batch: number;
+      totalBatches: number;
+      records: CEXFees[] | DEXFees[]; // Changed records only, overrides applied
+      cachedAt: string;
+    }
+  | { type: 'rebuilt'; market: CacheEventMarket; records: number; cachedAt: string | null } // Stale cache replaced with a fresh listing
+  | { type: 'finished'; market: CacheEventMarket; cachedAt: string | null }
+  | { type: 'error'; market: CacheEventMarket; message: string; batch?: number };
+
+// First event on every /api/events connection
+export interface CacheEventsReady {
+  cex: { processing: boolean; cachedAt: string | null };
+  dex: { processing: boolean; cachedAt: string | null };
+}
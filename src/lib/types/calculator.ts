@@ -0,0 +1,130 @@
+// CEX trade cost calculator input - trade size is in units of the asset
+export type OrderType = 'maker' | 'taker';
+
+export interface CEXTradeCostInput {
+  tradeSize: number;
+  asset: string;           // e.g. 'BTC' - used for withdrawal/deposit fee lookup
+  orderType: OrderType;
+  roundTrips: number;      // Each round trip is one buy and one sell
+}
+
+// Cost of the trade on one exchange, all amounts in units of the asset
+export interface CEXTradeCost {
+  exchangeId: string;
+  exchangeName: string;
+  logo: string;
+  url: string;
+  feeRate: number;               // Maker or taker fee percentage used
+  tradingFee: number;            // Across all trades
+  depositFee: number | null;     // null when the exchange has no data for the asset
+  withdrawalFee: number | null;
+  withdrawalNetwork: string | null; // Cheapest open network the withdrawal fee is for
+  totalCost: number;             // Trading fees plus known transfer fees
+  totalCostPercent: number;      // totalCost as a percentage of tradeSize
+  missingData: ('depositFee' | 'withdrawalFee')[];
+}
+
+export interface CEXTradeCostResponse {
+  input: CEXTradeCostInput;
+  results: CEXTradeCost[];        // Cheapest first, exchanges with missing transfer data last
+  excluded: number;               // Exchanges without a fee for the order type
+  cachedAt: string | null;
+}
+
+// DEX swap cost calculator input - swap size in USD
+export interface DEXSwapCostInput {
+  swapSize: number;
+  chain: string;
+}
+
+export interface GasLevels {
+  low: number;
+  average: number;
+  high: number;
+}
+
+// Cost of the swap on one DEX, all amounts in USD
+export interface DEXSwapCost {
+  dexId: string;
+  dexName: string;
+  logo: string;
+  url: string;
+  protocol: string;
+  swapFeeRate: number;             // Percentage
+  swapFeeCost: number;
+  gasCost: GasLevels | null;       // null when there is no gas estimate for the chain
+  totalCost: GasLevels;            // Swap fee plus gas (swap fee only when gas is unknown)
+  totalCostPercent: number;        // Average total as a percentage of swapSize
+  breakevenSize: GasLevels | null; // Swap size where the swap fee equals gas - null without gas data or with a zero fee
+}
+
+export interface DEXSwapCostResponse {
+  input: DEXSwapCostInput;
+  results: DEXSwapCost[];          // Cheapest average total first, DEXes without gas data last
+  excluded: number;                // DEXes on the chain without a swap fee
+  chains: string[];                // Chains available in the cached DEX data
+  cachedAt: string | null;
+}
+
+// Cross-venue route comparison - buy `size` USD worth of the base asset and withdraw it to `chain`
+export interface RouteComparisonInput {
+  pair: string;            // e.g. 'ETH/USDT'
+  base: string;
+  quote: string;
+  size: number;            // USD
+  chain: string;           // Chain the user holds funds on / withdraws to
+}
+
+export interface RouteCostComponent {
+  label: string;           // e.g. 'Taker fee', 'Withdrawal fee', 'Gas (average)'
+  amount: number | null;   // USD - null when unknown
+  detail: string;          // How the amount was derived
+}
+
+export interface VenueRoute {
+  venue: 'cex' | 'dex';
+  id: string;
+  name: string;
+  logo: string;
+  url: string;
+  totalCost: number;        // USD, known components only
+  totalCostPercent: number; // totalCost as a percentage of size
+  breakdown: RouteCostComponent[];
+  incomplete: boolean;      // Some components are unknown
+}
+
+export interface RouteComparisonResponse {
+  input: RouteComparisonInput;
+  routes: VenueRoute[];     // Cheapest first, incomplete routes last
+  excluded: { cex: number; dex: number };
+  basePriceUSD: number | null;
+  chains: string[];
+  cachedAt: { cex: string | null; dex: string | null };
+}
+
+// Withdrawal fee comparison - one coin on one network (network null = most widely listed)
+export interface WithdrawalComparisonInput {
+  coin: string;
+  network: string | null;
+}
+
+export interface WithdrawalFeeRow {
+  exchangeId: string;
+  exchangeName: string;
+  logo: string;
+  url: string;
+  fee: number;                   // In the coin
+  feeUSD: number | null;         // null when no USD price is available
+  minWithdrawal: number | null;  // In the coin
+  enabled: boolean;
+}
+
+export interface WithdrawalComparisonResponse {
+  input: { coin: string; network: string | null }; // network resolved
+  results: WithdrawalFeeRow[];   // Open networks first, cheapest first
+  missing: number;               // Exchanges without data for the coin on the network
+  coinPriceUSD: number | null;
+  coins: string[];               // Coins with withdrawal fee data
+  networks: string[];            // Networks with data for the coin, most widely listed first
+  cachedAt: string | null;
+}
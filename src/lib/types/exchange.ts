@@ -1,3 +1,50 @@
+// Where a fee value came from (answers "where does this number come from?")
+export interface FeeFieldSource {
+  provider: string;            // Fee provider name, e.g. 'static', 'ai:gemini'
+  fetchedAt: string;           // ISO timestamp
+  confidence: number | null;   // 0-1 as reported by the source - null when not reported
+  sourceUrl: string | null;    // Fee page cited by the source
+  note?: string;               // e.g. manual override reason
+}
+
+export type CEXFeeField =
+  | 'makerFee'
+  | 'takerFee'
+  | 'withdrawalFees'
+  | 'depositFees'
+  | 'feeTiers'
+  | 'futuresMakerFee'
+  | 'futuresTakerFee'
+  | 'fundingRate'
+  | 'marginBorrowRate';
+export type DEXFeeField = 'swapFee' | 'gasFeeEstimate';
+
+export type CEXFeeSources = Partial<Record<CEXFeeField, FeeFieldSource>>;
+export type DEXFeeSources = Partial<Record<DEXFeeField, FeeFieldSource>>;
+
+// VIP / volume fee tier - an exchange's tiers are ordered by minVolume30d ascending
+export interface CEXFeeTier {
+  name: string | null;           // e.g. 'VIP 1'
+  minVolume30d: number;          // 30-day trading volume threshold in USD
+  makerFee: number | null;       // Percentage - null when data not available
+  takerFee: number | null;       // Percentage - null when data not available
+  tokenDiscount: number | null;  // Percent off fees when holding / paying with the exchange token
+}
+
+// Withdrawal fee for one coin on one network
+export interface WithdrawalNetworkFee {
+  fee: number;                   // Absolute amount in the coin
+  minWithdrawal: number | null;  // Minimum withdrawal in the coin - null when not available
+  enabled: boolean;              // Withdrawals currently open on this network
+}
+
+// coin -> network -> fee, network names normalized to chain names (see withdrawal-fees.ts)
+export interface WithdrawalFees {
+  [coin: string]: {
+    [network: string]: WithdrawalNetworkFee;
+  };
+}
+
 // CEX (Centralized Exchange) Fee Structure
 export interface CEXFees {
   exchangeId: string;
@@ -5,9 +52,7 @@ export interface CEXFees {
   logo: string;
   makerFee: number | null;        // Percentage (e.g., 0.1 for 0.1%) - null when data not available
   takerFee: number | null;        // Percentage - null when data not available
-  withdrawalFees: {
-    [coin: string]: number; // Absolute amount
-  };
+  withdrawalFees: WithdrawalFees;
   depositFees: {
     [coin: string]: number;
   };
@@ -17,6 +62,12 @@ export interface CEXFees {
   country: string;
   url: string;
   lastUpdated: string;     // ISO timestamp
+  feeTiers?: CEXFeeTier[]; // Volume tiers - makerFee/takerFee above are the lowest tier
+  futuresMakerFee: number | null;  // Perpetual futures maker fee percentage - null when data not available
+  futuresTakerFee: number | null;  // Perpetual futures taker fee percentage - null when data not available
+  fundingRate: number | null;      // Placeholder: typical perpetual funding rate per 8h (%) - can be negative
+  marginBorrowRate: number | null; // Placeholder: USDT margin borrow rate, annualized (%)
+  feeSources?: CEXFeeSources; // Per-field provenance - absent until fee data is merged
 }
 
 // DEX (Decentralized Exchange) Fee Structure
@@ -37,16 +88,149 @@ export interface DEXFees {
   liquidityUSD: number;
   volume24h: number;
   url: string;
+  defiLlamaUrl?: string | null; // DeFiLlama page the volume/TVL/chain data comes from
   lastUpdated: string;
+  feeSources?: DEXFeeSources; // Per-field provenance - absent until fee data is merged
 }
 
+// Market shown for CEX fees
+export type MarketType = 'spot' | 'futures';
+
 // Sort options
-export type SortOption = 'rank' | 'name' | 'makerFee' | 'takerFee' | 'volume' | 'trustScore';
+export type SortOption =
+  | 'rank'
+  | 'name'
+  | 'makerFee'
+  | 'takerFee'
+  | 'volume'
+  | 'trustScore'
+  | 'country'
+  | 'withdrawalBTC'
+  | 'withdrawalETH'
+  | 'withdrawalUSDT';
+export type DEXSortOption = 'name' | 'swapFee' | 'volume' | 'liquidity';
+export type SortDirection = 'asc' | 'desc';
+
+// List pages render cards or a dense table
+export type ViewMode = 'grid' | 'table';
 
-// Filter state
-export interface FilterState {
+// Table view layout remembered per list page - every column id in display order, plus the hidden ones
+export interface TableLayout {
+  view: ViewMode;
+  order: string[];
+  hidden: string[];
+}
+
+// Advanced CEX list filters - 0/null/empty means the filter is off
+export interface CEXAdvancedFilters {
+  minTrustScore: number;
+  maxMakerFee: number | null;  // Percentage, checked against the selected market's fees
+  maxTakerFee: number | null;
+  countries: string[];
+  onlyWithFeeData: boolean;    // Maker and taker fee both known
+  minYearEstablished: number | null;
+  maxYearEstablished: number | null;
+}
+
+// Filter state - mirrored to the list page query string (see filter-params.ts)
+export interface FilterState extends CEXAdvancedFilters {
   searchQuery: string;
   sortBy: SortOption;
-  minTrustScore?: number;
-  maxFee?: number;
+  sortDirection: SortDirection;
+  marketType: MarketType;
+  monthlyVolume: number;
+  useTokenDiscount: boolean; // Fees paid with the exchange token (tier tokenDiscount applied)
+  showCount: number;
+}
+
+// Advanced DEX list filters - empty/null/false means the filter is off
+export interface DEXAdvancedFilters {
+  chains: string[];                  // Listed on any of these chains
+  protocols: DEXFees['protocol'][];
+  minLiquidityUSD: number | null;
+  minVolume24h: number | null;       // USD
+  onlyWithSwapFee: boolean;
+}
+
+export interface DEXFilterState extends DEXAdvancedFilters {
+  searchQuery: string;
+  sortBy: DEXSortOption;
+  sortDirection: SortDirection;
+  showCount: number;
+}
+
+// Side-by-side comparison (/compare) - one row per fee field, one value per compared record
+export type ComparisonType = 'cex' | 'dex';
+
+export interface ComparisonRow {
+  section: string;
+  label: string;
+  values: (number | null)[];
+  format: 'fee' | 'usd' | 'amount' | 'score';
+  unit?: string; // coin symbol for 'amount' rows
+  best: 'lowest' | 'highest' | null; // null = informational, nothing highlighted
+  disabled?: boolean[]; // e.g. suspended withdrawal networks - shown but never highlighted
+}
+
+// Point-in-time copy of a CEX record's fee fields
+export interface CEXFeeSnapshot {
+  recordedAt: string;      // ISO timestamp
+  makerFee: number | null;
+  takerFee: number | null;
+  withdrawalFees: CEXFees['withdrawalFees'];
+  depositFees: CEXFees['depositFees'];
+}
+
+// Point-in-time copy of a DEX record's fee fields
+export interface DEXFeeSnapshot {
+  recordedAt: string;      // ISO timestamp
+  swapFee: number | null;
+  gasFeeEstimate: DEXFees['gasFeeEstimate'];
+}
+
+// Fee changelog entry detected between consecutive refreshes
+export type FeeChangeKind = 'fee_changed' | 'listed' | 'delisted';
+
+export interface FeeChange {
+  id: string;              // Unique, stable event id
+  kind: FeeChangeKind;
+  market: 'cex' | 'dex';
+  entityId: string;        // exchangeId or dexId
+  entityName: string;
+  field?: 'makerFee' | 'takerFee' | 'swapFee'; // Only for fee_changed
+  previousValue?: number | null;
+  currentValue?: number | null;
+  delta?: number | null;   // currentValue - previousValue (percentage points)
+  detectedAt: string;      // ISO timestamp
+}
+
+// Manual fee override (data/fee-overrides.json) - set fields replace provider values
+export interface FeeOverrideMeta {
+  reason: string;
+  createdAt: string;         // ISO timestamp
+  expiresAt: string | null;  // ISO timestamp - null never expires
+  sourceUrl?: string | null;
+}
+
+export interface CEXFeeOverride extends FeeOverrideMeta {
+  makerFee?: number;
+  takerFee?: number;
+  withdrawalFees?: CEXFees['withdrawalFees'];
+  depositFees?: CEXFees['depositFees'];
+}
+
+export interface DEXFeeOverride extends FeeOverrideMeta {
+  swapFee?: number;
+  gasFeeEstimate?: DEXFees['gasFeeEstimate'];
+}
+
+export interface FeeOverrides {
+  cex: { [exchangeId: string]: CEXFeeOverride };
+  dex: { [dexId: string]: DEXFeeOverride };
+}
+
+// Admin API edits layered over the committed overrides file - null removes a file override
+export interface FeeOverrideEdits {
+  cex: { [exchangeId: string]: CEXFeeOverride | null };
+  dex: { [dexId: string]: DEXFeeOverride | null };
 }
@@ -0,0 +1,59 @@
+import { timingSafeEqual } from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+/**
+ * Admin API Authentication
+ *
+ * Admin routes require `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ * When ADMIN_API_TOKEN is not set the admin API is disabled entirely.
+ * Cron routes work the same way with CRON_SECRET.
+ */
+
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function checkBearerToken(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  expected: string | undefined,
+  disabled: { error: string; message: string }
+): boolean {
+  if (!expected) {
+    res.status(503).json(disabled);
+    return false;
+  }
+
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (!provided || !tokensMatch(provided, expected)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check the request token, sending 503/401 when it fails
+ * Returns true when the handler may continue
+ */
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  return checkBearerToken(req, res, process.env.ADMIN_API_TOKEN, {
+    error: 'Admin API disabled',
+    message: 'Set ADMIN_API_TOKEN to enable admin endpoints',
+  });
+}
+
+/**
+ * Same check for /api/cron/* against CRON_SECRET, so schedulers don't need the admin token
+ */
+export function requireCronSecret(req: NextApiRequest, res: NextApiResponse): boolean {
+  return checkBearerToken(req, res, process.env.CRON_SECRET, {
+    error: 'Cron API disabled',
+    message: 'Set CRON_SECRET to enable cron endpoints',
+  });
+}
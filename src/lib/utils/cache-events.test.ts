@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheEvent } from '@/lib/types/api';
+import { publishCacheEvent, subscribeCacheEvents } from './cache-events';
+
+const finished: CacheEvent = { type: 'finished', market: 'cex', cachedAt: '2024-01-01T00:00:00.000Z' };
+
+describe('cache events', () => {
+  beforeEach(() => {
+    global.cacheEventEmitter = undefined;
+  });
+
+  it('delivers published events to every subscriber in order', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    subscribeCacheEvents(first);
+    subscribeCacheEvents(second);
+
+    const error: CacheEvent = { type: 'error', market: 'dex', message: 'failed', batch: 2 };
+    publishCacheEvent(error);
+    publishCacheEvent(finished);
+
+    expect(first.mock.calls.map(([event]) => event)).toEqual([error, finished]);
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops delivering after unsubscribing', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeCacheEvents(listener);
+
+    unsubscribe();
+    publishCacheEvent(finished);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('shares one emitter through the global object', () => {
+    const listener = vi.fn();
+    subscribeCacheEvents(listener);
+
+    global.cacheEventEmitter?.emit('cache-event', finished);
+
+    expect(listener).toHaveBeenCalledWith(finished);
+  });
+});
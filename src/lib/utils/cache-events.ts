@@ -0,0 +1,41 @@
+/**
+ * Cache Update Events
+ *
+ * In-process pub/sub for background enhancement progress. The fee routes
+ * publish an event after each merged batch, when processing finishes and on
+ * errors; /api/events relays them to browsers as Server-Sent Events.
+ *
+ * Events only reach subscribers in the same server process, so clients keep
+ * polling /api/cache-status as a fallback when the stream is unavailable.
+ */
+
+import { EventEmitter } from 'events';
+import { CacheEvent } from '@/lib/types/api';
+
+declare global {
+  var cacheEventEmitter: EventEmitter | undefined;
+}
+
+const CACHE_EVENT = 'cache-event';
+
+// Kept on the global object so every API route shares one emitter
+function getEmitter(): EventEmitter {
+  if (!global.cacheEventEmitter) {
+    global.cacheEventEmitter = new EventEmitter();
+    global.cacheEventEmitter.setMaxListeners(0); // One listener per open stream
+  }
+  return global.cacheEventEmitter;
+}
+
+export function publishCacheEvent(event: CacheEvent): void {
+  getEmitter().emit(CACHE_EVENT, event);
+}
+
+// Returns an unsubscribe function
+export function subscribeCacheEvents(listener: (event: CacheEvent) => void): () => void {
+  const emitter = getEmitter();
+  emitter.on(CACHE_EVENT, listener);
+  return () => {
+    emitter.off(CACHE_EVENT, listener);
+  };
+}
@@ -5,6 +5,7 @@
  */
 
 import { CEX_CACHE_DURATION, DEX_CACHE_DURATION } from '@/config/constants';
+import { getCacheStore } from '@/lib/cache';
 
 export interface CacheHeaders {
   'Cache-Control': string;
@@ -21,12 +22,11 @@ export interface CacheState {
 }
 
 // Initialize global cache state safely
+// Cached datasets live in the configured cache store; only per-process
+// processing flags and errors are kept on the global object
 export function initializeGlobalCache() {
   if (typeof global !== 'undefined') {
-    // CEX Cache
-    if (!global.cexCompleteCache) {
-      global.cexCompleteCache = null;
-    }
+    // CEX processing state
     if (global.cexAIProcessing === undefined) {
       global.cexAIProcessing = false;
     }
@@ -34,10 +34,7 @@ export function initializeGlobalCache() {
       global.lastAIError = null;
     }
     
-    // DEX Cache
-    if (!global.dexCompleteCache) {
-      global.dexCompleteCache = null;
-    }
+    // DEX processing state
     if (global.dexAIProcessing === undefined) {
       global.dexAIProcessing = false;
     }
@@ -53,40 +50,39 @@ export function initializeGlobalCache() {
 }
 
 // Safe cache getter with fallback
-export function getCacheState(type: 'cex' | 'dex'): CacheState | null {
+export async function getCacheState(type: 'cex' | 'dex'): Promise<CacheState | null> {
   initializeGlobalCache();
   
-  if (type === 'cex') {
-    return global.cexCompleteCache ? {
-      data: global.cexCompleteCache.data,
-      timestamp: global.cexCompleteCache.timestamp,
-      isProcessing: global.cexAIProcessing || false,
-      lastError: global.lastAIError || null,
-    } : null;
-  } else {
-    return global.dexCompleteCache ? {
-      data: global.dexCompleteCache.data,
-      timestamp: global.dexCompleteCache.timestamp,
-      isProcessing: global.dexAIProcessing || false,
-      lastError: global.lastDEXAIError || null,
-    } : null;
+  const store = await getCacheStore();
+  const entry = await store.get<any[]>(generateCacheKey(type));
+  
+  if (!entry) {
+    return null;
   }
+  
+  return {
+    data: entry.data,
+    timestamp: entry.timestamp,
+    isProcessing: (type === 'cex' ? global.cexAIProcessing : global.dexAIProcessing) || false,
+    lastError: (type === 'cex' ? global.lastAIError : global.lastDEXAIError) || null,
+  };
 }
 
 // Safe cache setter
-export function setCacheState(type: 'cex' | 'dex', data: any[], timestamp?: number): void {
+export async function setCacheState(type: 'cex' | 'dex', data: any[], timestamp?: number): Promise<void> {
   initializeGlobalCache();
   
-  const cacheData = {
+  const store = await getCacheStore();
+  await store.set(generateCacheKey(type), {
     data,
     timestamp: timestamp || Date.now(),
-  };
-  
-  if (type === 'cex') {
-    global.cexCompleteCache = cacheData;
-  } else {
-    global.dexCompleteCache = cacheData;
-  }
+  });
+}
+
+// Remove cached dataset from the store
+export async function clearCacheState(type: 'cex' | 'dex'): Promise<void> {
+  const store = await getCacheStore();
+  await store.delete(generateCacheKey(type));
 }
 
 // Safe processing state management
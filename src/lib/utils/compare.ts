@@ -0,0 +1,135 @@
+import { COMPARE_MAX_ITEMS } from '@/config/constants';
+import { CEXFees, ComparisonRow, ComparisonType, DEXFees } from '@/lib/types/exchange';
+import { findGasEstimate } from './fee-calculator';
+
+/**
+ * Side-by-side Comparison
+ *
+ * Builds the aligned rows for /compare: every fee field of the compared
+ * exchanges, one value per exchange (null when that exchange has no data).
+ * Rows that only exist for some exchanges (a withdrawal network, a chain)
+ * are included with null for the others.
+ */
+
+/**
+ * Parse the ids query param (?ids=a,b,c) - de-duplicated, capped at COMPARE_MAX_ITEMS
+ */
+export function parseCompareIds(ids: string | string[] | undefined): string[] {
+  const raw = Array.isArray(ids) ? ids.join(',') : ids || '';
+  const parsed = raw.split(',').map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(parsed)).slice(0, COMPARE_MAX_ITEMS);
+}
+
+/**
+ * Shareable /compare URL for the given records
+ */
+export function getCompareHref(type: ComparisonType, ids: string[]): string {
+  const params = new URLSearchParams({ ids: ids.join(',') });
+  if (type === 'dex') params.set('type', 'dex');
+  return `/compare?${params.toString().replace(/%2C/g, ',')}`;
+}
+
+/**
+ * Indexes of the best values in a row - empty when fewer than two values can
+ * be compared or when every compared value is the same (no winner to show)
+ */
+export function getBestIndexes(row: ComparisonRow): number[] {
+  if (!row.best) return [];
+
+  const candidates = row.values
+    .map((value, index) => ({ value, index }))
+    .filter((cell): cell is { value: number; index: number } => cell.value !== null && !row.disabled?.[cell.index]);
+  if (candidates.length < 2) return [];
+
+  const values = candidates.map(cell => cell.value);
+  const best = row.best === 'lowest' ? Math.min(...values) : Math.max(...values);
+  const winners = candidates.filter(cell => cell.value === best).map(cell => cell.index);
+
+  return winners.length === candidates.length ? [] : winners;
+}
+
+export function buildCEXComparisonRows(exchanges: CEXFees[]): ComparisonRow[] {
+  const rows: ComparisonRow[] = [
+    { section: 'Spot', label: 'Maker fee', values: exchanges.map(e => e.makerFee), format: 'fee', best: 'lowest' },
+    { section: 'Spot', label: 'Taker fee', values: exchanges.map(e => e.takerFee), format: 'fee', best: 'lowest' },
+    { section: 'Futures', label: 'Maker fee', values: exchanges.map(e => e.futuresMakerFee ?? null), format: 'fee', best: 'lowest' },
+    { section: 'Futures', label: 'Taker fee', values: exchanges.map(e => e.futuresTakerFee ?? null), format: 'fee', best: 'lowest' },
+    // Funding is paid or received depending on position side - nothing to highlight
+    { section: 'Futures', label: 'Funding rate (8h)', values: exchanges.map(e => e.fundingRate ?? null), format: 'fee', best: null },
+    { section: 'Futures', label: 'Margin borrow (USDT, yearly)', values: exchanges.map(e => e.marginBorrowRate ?? null), format: 'fee', best: 'lowest' },
+  ];
+
+  // Every coin/network any compared exchange supports
+  const withdrawalKeys = new Map<string, { coin: string; network: string }>();
+  exchanges.forEach(exchange => {
+    Object.entries(exchange.withdrawalFees || {}).forEach(([coin, networks]) => {
+      Object.keys(networks || {}).forEach(network => withdrawalKeys.set(`${coin}|${network}`, { coin, network }));
+    });
+  });
+  Array.from(withdrawalKeys.values())
+    .sort((a, b) => a.coin.localeCompare(b.coin) || a.network.localeCompare(b.network))
+    .forEach(({ coin, network }) => {
+      const fees = exchanges.map(exchange => exchange.withdrawalFees?.[coin]?.[network] || null);
+      rows.push({
+        section: 'Withdrawal',
+        label: `${coin} (${network})`,
+        values: fees.map(fee => fee?.fee ?? null),
+        format: 'amount',
+        unit: coin,
+        best: 'lowest',
+        disabled: fees.map(fee => fee !== null && !fee.enabled),
+      });
+    });
+
+  const depositCoins = new Set<string>();
+  exchanges.forEach(exchange => Object.keys(exchange.depositFees || {}).forEach(coin => depositCoins.add(coin)));
+  Array.from(depositCoins).sort().forEach(coin => {
+    rows.push({
+      section: 'Deposit',
+      label: coin,
+      values: exchanges.map(exchange => exchange.depositFees?.[coin] ?? null),
+      format: 'amount',
+      unit: coin,
+      best: 'lowest',
+    });
+  });
+
+  rows.push(
+    { section: 'Overview', label: 'Trust score', values: exchanges.map(e => e.trustScore), format: 'score', best: 'highest' },
+    { section: 'Overview', label: '24h volume', values: exchanges.map(e => e.volume24h || null), format: 'usd', best: 'highest' }
+  );
+
+  return rows;
+}
+
+export function buildDEXComparisonRows(dexes: DEXFees[]): ComparisonRow[] {
+  const rows: ComparisonRow[] = [
+    { section: 'Trading', label: 'Swap fee', values: dexes.map(d => d.swapFee), format: 'fee', best: 'lowest' },
+  ];
+
+  // Every chain any compared DEX lists or has gas estimates for - names differ in case between sources
+  const chains = new Map<string, string>();
+  dexes.forEach(dex => {
+    [...dex.blockchain, ...Object.keys(dex.gasFeeEstimate || {})].forEach(chain => {
+      if (!chains.has(chain.toLowerCase())) chains.set(chain.toLowerCase(), chain);
+    });
+  });
+  Array.from(chains.values())
+    .sort((a, b) => a.localeCompare(b))
+    .forEach(chain => {
+      rows.push({
+        section: 'Gas (average)',
+        label: chain,
+        values: dexes.map(dex => findGasEstimate(dex, chain)?.average ?? null),
+        format: 'usd',
+        best: 'lowest',
+      });
+    });
+
+  rows.push(
+    { section: 'Overview', label: 'TVL', values: dexes.map(d => d.liquidityUSD || null), format: 'usd', best: 'highest' },
+    { section: 'Overview', label: '24h volume', values: dexes.map(d => d.volume24h || null), format: 'usd', best: 'highest' }
+  );
+
+  return rows;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronRun, matchesCron, parseCron } from './cron';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe('parseCron', () => {
+  it('expands lists, ranges, steps and shortcuts', () => {
+    const schedule = parseCron('0,30 */6 1-5 * 1-5/2');
+
+    expect(Array.from(schedule.minutes)).toEqual([0, 30]);
+    expect(Array.from(schedule.hours)).toEqual([0, 6, 12, 18]);
+    expect(Array.from(schedule.daysOfMonth)).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.months.size).toBe(12);
+    expect(Array.from(schedule.daysOfWeek)).toEqual([1, 3, 5]);
+    expect(parseCron('@daily').hours).toEqual(new Set([0]));
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(Array.from(parseCron('0 0 * * 7').daysOfWeek)).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 0 * *')).toThrow(/5 fields/);
+    expect(() => parseCron('60 0 * * *')).toThrow(/minute/);
+    expect(() => parseCron('0 0 * * */0')).toThrow(/step/);
+    expect(() => parseCron('0 5-1 * * *')).toThrow(/hour/);
+  });
+
+  it('only counts day fields that do not start with * as restricted', () => {
+    expect(parseCron('0 0 */2 * *')).toMatchObject({ dayOfMonthRestricted: false, dayOfWeekRestricted: false });
+    expect(parseCron('0 0 1 * 1')).toMatchObject({ dayOfMonthRestricted: true, dayOfWeekRestricted: true });
+  });
+});
+
+describe('matchesCron', () => {
+  it('matches either day field when both are restricted', () => {
+    const schedule = parseCron('0 0 1 * 1');
+
+    expect(matchesCron(schedule, at('2024-05-01T00:00:00'))).toBe(true); // 1st, a Wednesday
+    expect(matchesCron(schedule, at('2024-05-06T00:00:00'))).toBe(true); // a Monday
+    expect(matchesCron(schedule, at('2024-05-07T00:00:00'))).toBe(false);
+  });
+
+  it('requires both day fields when one starts with *', () => {
+    const schedule = parseCron('0 0 */2 * 1');
+
+    expect(matchesCron(schedule, at('2024-05-13T00:00:00'))).toBe(true); // Monday the 13th
+    expect(matchesCron(schedule, at('2024-05-06T00:00:00'))).toBe(false); // Monday the 6th
+    expect(matchesCron(schedule, at('2024-05-03T00:00:00'))).toBe(false); // Friday the 3rd
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    expect(getNextCronRun(parseCron('*/15 * * * *'), at('2024-05-01T10:15:00'))).toEqual(at('2024-05-01T10:30:00'));
+    expect(getNextCronRun(parseCron('30 2 * * *'), at('2024-05-31T23:59:30'))).toEqual(at('2024-06-01T02:30:00'));
+    expect(getNextCronRun(parseCron('0 0 29 2 *'), at('2024-03-01T00:00:00'))).toEqual(at('2028-02-29T00:00:00'));
+  });
+
+  it('returns null for a schedule that never matches', () => {
+    expect(getNextCronRun(parseCron('0 0 31 2 *'), at('2024-01-01T00:00:00'))).toBeNull();
+  });
+});
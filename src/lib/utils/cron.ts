@@ -0,0 +1,155 @@
+/**
+ * Cron Expressions
+ *
+ * Minimal 5-field parser (minute hour day-of-month month day-of-week) for the
+ * refresh scheduler. Supports *, lists (1,15), ranges (1-5), steps (*\/6, 0-30/10)
+ * and the @hourly, @daily, @weekly and @monthly shortcuts. Times are in UTC.
+ *
+ * As in standard cron, when both day-of-month and day-of-week are restricted
+ * a day matches if either field does.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const SHORTCUTS: { [name: string]: string } = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 7 = Sunday
+];
+
+// Searching further ahead than this means the expression never matches (e.g. 31 February)
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+// NaN for anything but plain digits, so "", "1.5" and "-1" are rejected
+function toNumber(text: string): number {
+  return /^\d+$/.test(text) ? Number(text) : NaN;
+}
+
+function parseField(value: string, field: typeof FIELDS[number]): Set<number> {
+  const result = new Set<number>();
+
+  value.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : toNumber(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron ${field.name} field`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = toNumber(startText);
+      end = endText === undefined ? (stepText === undefined ? start : field.max) : toNumber(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${field.name} field (${field.min}-${field.max})`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      result.add(n);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Parse a cron expression
+ * Throws an Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}" - expected 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Like Vixie cron, a field starting with * (including */2) counts as unrestricted
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getUTCMinutes()) &&
+    schedule.hours.has(date.getUTCHours()) &&
+    schedule.months.has(date.getUTCMonth() + 1) &&
+    matchesDay(schedule, date)
+  );
+}
+
+/**
+ * First time strictly after `after` (to the minute) that matches the schedule
+ * Returns null if nothing matches within five years
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  // Skip whole months/days/hours that can't match instead of stepping minute by minute
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
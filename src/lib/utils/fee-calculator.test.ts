@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import {
+  calculateCEXTradeCosts,
+  calculateDEXSwapCosts,
+  compareVenueRoutes,
+  getDEXChains,
+  parseCEXTradeCostQuery,
+  parseDEXSwapCostQuery,
+  parseRouteComparisonQuery,
+} from './fee-calculator';
+
+function exchange(fields: Partial<CEXFees>): CEXFees {
+  return {
+    exchangeId: 'binance',
+    exchangeName: 'Binance',
+    logo: '',
+    makerFee: null,
+    takerFee: null,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: null,
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
+    ...fields,
+  };
+}
+
+function dex(fields: Partial<DEXFees>): DEXFees {
+  return {
+    dexId: 'uniswap',
+    dexName: 'Uniswap',
+    logo: '',
+    protocol: 'AMM',
+    blockchain: ['Ethereum'],
+    swapFee: null,
+    gasFeeEstimate: {},
+    liquidityUSD: 0,
+    volume24h: 0,
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+describe('parseCEXTradeCostQuery', () => {
+  it('applies defaults and normalizes the asset', () => {
+    expect(parseCEXTradeCostQuery({ tradeSize: '2', asset: ' eth ' })).toEqual({
+      input: { tradeSize: 2, asset: 'ETH', orderType: 'taker', roundTrips: 1 },
+      error: null,
+    });
+  });
+
+  it('rejects invalid values', () => {
+    expect(parseCEXTradeCostQuery({ tradeSize: '0' }).error).toMatch(/tradeSize/);
+    expect(parseCEXTradeCostQuery({ tradeSize: '1', asset: 'B' }).error).toMatch(/asset/);
+    expect(parseCEXTradeCostQuery({ tradeSize: '1', orderType: 'limit' }).error).toMatch(/orderType/);
+    expect(parseCEXTradeCostQuery({ tradeSize: '1', roundTrips: '101' }).error).toMatch(/roundTrips/);
+  });
+});
+
+describe('calculateCEXTradeCosts', () => {
+  const input = { tradeSize: 1, asset: 'BTC', orderType: 'taker' as const, roundTrips: 2 };
+
+  it('adds trading fees for every buy and sell to deposit and cheapest withdrawal fees', () => {
+    const { results, excluded } = calculateCEXTradeCosts([
+      exchange({
+        takerFee: 0.1,
+        depositFees: { BTC: 0 },
+        withdrawalFees: {
+          BTC: {
+            Bitcoin: { fee: 0.0005, minWithdrawal: null, enabled: true },
+            Lightning: { fee: 0.00001, minWithdrawal: null, enabled: false },
+          },
+        },
+      }),
+    ], input);
+
+    expect(excluded).toBe(0);
+    expect(results[0].tradingFee).toBeCloseTo(0.004);
+    expect(results[0].withdrawalFee).toBe(0.0005);
+    expect(results[0].withdrawalNetwork).toBe('Bitcoin');
+    expect(results[0].totalCost).toBeCloseTo(0.0045);
+    expect(results[0].totalCostPercent).toBeCloseTo(0.45);
+    expect(results[0].missingData).toEqual([]);
+  });
+
+  it('excludes exchanges without the fee and ranks incomplete records last', () => {
+    const { results, excluded } = calculateCEXTradeCosts([
+      exchange({ exchangeId: 'cheap-but-unknown', takerFee: 0.01 }),
+      exchange({
+        exchangeId: 'complete',
+        takerFee: 0.1,
+        depositFees: { BTC: 0 },
+        withdrawalFees: { BTC: { Bitcoin: { fee: 0.0002, minWithdrawal: null, enabled: true } } },
+      }),
+      exchange({ exchangeId: 'no-fee' }),
+    ], input);
+
+    expect(excluded).toBe(1);
+    expect(results.map(result => result.exchangeId)).toEqual(['complete', 'cheap-but-unknown']);
+    expect(results[1].missingData).toEqual(['depositFee', 'withdrawalFee']);
+  });
+});
+
+describe('parseDEXSwapCostQuery', () => {
+  it('requires a positive size and a chain', () => {
+    expect(parseDEXSwapCostQuery({ swapSize: '1000', chain: ' Ethereum ' })).toEqual({
+      input: { swapSize: 1000, chain: 'Ethereum' },
+      error: null,
+    });
+    expect(parseDEXSwapCostQuery({ swapSize: '-5', chain: 'Ethereum' }).error).toMatch(/swapSize/);
+    expect(parseDEXSwapCostQuery({ swapSize: '5' }).error).toMatch(/chain/);
+  });
+});
+
+describe('getDEXChains', () => {
+  it('orders chains by the number of DEXes on them', () => {
+    expect(getDEXChains([
+      dex({ blockchain: ['Ethereum', 'Arbitrum'] }),
+      dex({ blockchain: ['Arbitrum'] }),
+      dex({ blockchain: ['Base'] }),
+    ])).toEqual(['Arbitrum', 'Base', 'Ethereum']);
+  });
+});
+
+describe('calculateDEXSwapCosts', () => {
+  it('adds gas per level, computes breakeven sizes and ranks DEXes without gas data last', () => {
+    const { results, excluded } = calculateDEXSwapCosts([
+      dex({ dexId: 'no-gas', swapFee: 0.05 }),
+      dex({ dexId: 'uniswap', swapFee: 0.3, gasFeeEstimate: { ethereum: { low: 1, average: 3, high: 6 } } }),
+      dex({ dexId: 'no-fee', gasFeeEstimate: { ethereum: { low: 1, average: 2, high: 3 } } }),
+      dex({ dexId: 'other-chain', blockchain: ['Solana'], swapFee: 0.25 }),
+    ], { swapSize: 1000, chain: 'Ethereum' });
+
+    expect(excluded).toBe(1);
+    expect(results.map(result => result.dexId)).toEqual(['uniswap', 'no-gas']);
+    expect(results[0].swapFeeCost).toBeCloseTo(3);
+    expect(results[0].totalCost).toEqual({ low: 4, average: 6, high: 9 });
+    expect(results[0].breakevenSize?.average).toBeCloseTo(1000);
+    expect(results[1].gasCost).toBeNull();
+    expect(results[1].breakevenSize).toBeNull();
+  });
+});
+
+describe('parseRouteComparisonQuery', () => {
+  it('splits the pair on / or -', () => {
+    expect(parseRouteComparisonQuery({ pair: 'eth-usdt', size: '500', chain: 'Arbitrum' }).input).toEqual({
+      pair: 'ETH/USDT',
+      base: 'ETH',
+      quote: 'USDT',
+      size: 500,
+      chain: 'Arbitrum',
+    });
+    expect(parseRouteComparisonQuery({ pair: 'ETH', size: '500', chain: 'Arbitrum' }).error).toMatch(/pair/);
+  });
+});
+
+describe('compareVenueRoutes', () => {
+  const input = { pair: 'ETH/USDT', base: 'ETH', quote: 'USDT', size: 1000, chain: 'Arbitrum' };
+
+  it('prices CEX withdrawals in USD and ranks complete routes by total cost', () => {
+    const { routes, excluded } = compareVenueRoutes(
+      [
+        exchange({
+          exchangeId: 'binance',
+          takerFee: 0.1,
+          withdrawalFees: { ETH: { Arbitrum: { fee: 0.0001, minWithdrawal: null, enabled: true } } },
+        }),
+        exchange({ exchangeId: 'no-withdrawal-data', takerFee: 0.05 }),
+        exchange({ exchangeId: 'no-fee' }),
+      ],
+      [dex({ dexId: 'uniswap', blockchain: ['Arbitrum'], swapFee: 0.3, gasFeeEstimate: { arbitrum: { low: 0.1, average: 0.2, high: 0.5 } } })],
+      input,
+      2000
+    );
+
+    expect(excluded).toEqual({ cex: 1, dex: 0 });
+    expect(routes.map(route => route.id)).toEqual(['binance', 'uniswap', 'no-withdrawal-data']);
+    expect(routes[0].totalCost).toBeCloseTo(1.2);
+    expect(routes[1].totalCost).toBeCloseTo(3.2);
+    expect(routes[2].incomplete).toBe(true);
+  });
+
+  it('leaves the withdrawal cost unknown without a USD price', () => {
+    const { routes } = compareVenueRoutes(
+      [exchange({ takerFee: 0.1, withdrawalFees: { ETH: { Arbitrum: { fee: 0.0001, minWithdrawal: null, enabled: true } } } })],
+      [],
+      input,
+      null
+    );
+
+    expect(routes[0].incomplete).toBe(true);
+    expect(routes[0].breakdown[1].amount).toBeNull();
+  });
+});
@@ -0,0 +1,406 @@
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import {
+  CEXTradeCost,
+  CEXTradeCostInput,
+  DEXSwapCost,
+  DEXSwapCostInput,
+  GasLevels,
+  OrderType,
+  RouteComparisonInput,
+  VenueRoute,
+  WithdrawalComparisonInput,
+  WithdrawalFeeRow,
+} from '@/lib/types/calculator';
+import { formatAmount, formatFee, formatUSD } from './formatters';
+import { getCheapestWithdrawal, getWithdrawalFee, normalizeNetwork } from './withdrawal-fees';
+
+/**
+ * Fee Calculator
+ *
+ * Turns cached fee records into the total cost of a trade.
+ * Exchanges without the needed fee data are left out rather than estimated.
+ */
+
+export const MAX_ROUND_TRIPS = 100;
+
+type ParsedInput<T> = { input: T; error: null } | { input: null; error: string };
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Parse and validate calculator query parameters
+ */
+export function parseCEXTradeCostQuery(
+  query: { [key: string]: string | string[] | undefined }
+): ParsedInput<CEXTradeCostInput> {
+  const tradeSize = parseFloat(firstValue(query.tradeSize) || '');
+  const asset = (firstValue(query.asset) || 'BTC').trim().toUpperCase();
+  const orderType = (firstValue(query.orderType) || 'taker') as OrderType;
+  const roundTrips = parseInt(firstValue(query.roundTrips) || '1', 10);
+
+  if (!Number.isFinite(tradeSize) || tradeSize <= 0) {
+    return { input: null, error: 'tradeSize must be a positive number' };
+  }
+  if (!/^[A-Z0-9]{2,10}$/.test(asset)) {
+    return { input: null, error: 'asset must be a coin symbol such as BTC' };
+  }
+  if (orderType !== 'maker' && orderType !== 'taker') {
+    return { input: null, error: 'orderType must be maker or taker' };
+  }
+  if (!Number.isInteger(roundTrips) || roundTrips < 1 || roundTrips > MAX_ROUND_TRIPS) {
+    return { input: null, error: `roundTrips must be a whole number between 1 and ${MAX_ROUND_TRIPS}` };
+  }
+
+  return { input: { tradeSize, asset, orderType, roundTrips }, error: null };
+}
+
+/**
+ * Calculate the cost of a trade on each exchange, cheapest first
+ *
+ * Trading fee: tradeSize x fee rate for each buy and sell (2 trades per round trip)
+ * Transfer fees: one deposit in and one withdrawal out of the exchange (cheapest open network)
+ */
+export function calculateCEXTradeCosts(
+  exchanges: CEXFees[],
+  input: CEXTradeCostInput
+): { results: CEXTradeCost[]; excluded: number } {
+  const results: CEXTradeCost[] = [];
+  let excluded = 0;
+
+  exchanges.forEach(exchange => {
+    const feeRate = input.orderType === 'maker' ? exchange.makerFee : exchange.takerFee;
+    if (feeRate === null) {
+      excluded++;
+      return;
+    }
+
+    const tradingFee = input.tradeSize * (feeRate / 100) * input.roundTrips * 2;
+    const depositFee = exchange.depositFees[input.asset] ?? null;
+    const withdrawal = getCheapestWithdrawal(exchange, input.asset);
+    const withdrawalFee = withdrawal?.fee.fee ?? null;
+    const totalCost = tradingFee + (depositFee ?? 0) + (withdrawalFee ?? 0);
+
+    const missingData: CEXTradeCost['missingData'] = [];
+    if (depositFee === null) missingData.push('depositFee');
+    if (withdrawalFee === null) missingData.push('withdrawalFee');
+
+    results.push({
+      exchangeId: exchange.exchangeId,
+      exchangeName: exchange.exchangeName,
+      logo: exchange.logo,
+      url: exchange.url,
+      feeRate,
+      tradingFee,
+      depositFee,
+      withdrawalFee,
+      withdrawalNetwork: withdrawal?.network ?? null,
+      totalCost,
+      totalCostPercent: (totalCost / input.tradeSize) * 100,
+      missingData,
+    });
+  });
+
+  // Complete records first so unknown transfer fees can't make an exchange look cheaper
+  results.sort((a, b) =>
+    Number(a.missingData.length > 0) - Number(b.missingData.length > 0) ||
+    a.totalCost - b.totalCost
+  );
+
+  return { results, excluded };
+}
+
+/**
+ * Parse and validate DEX swap calculator query parameters
+ */
+export function parseDEXSwapCostQuery(
+  query: { [key: string]: string | string[] | undefined }
+): ParsedInput<DEXSwapCostInput> {
+  const swapSize = parseFloat(firstValue(query.swapSize) || '');
+  const chain = (firstValue(query.chain) || '').trim();
+
+  if (!Number.isFinite(swapSize) || swapSize <= 0) {
+    return { input: null, error: 'swapSize must be a positive USD amount' };
+  }
+  if (!chain || chain.length > 50) {
+    return { input: null, error: 'chain is required, e.g. Ethereum' };
+  }
+
+  return { input: { swapSize, chain }, error: null };
+}
+
+/**
+ * Chains present in the DEX data, most DEXes first
+ */
+export function getDEXChains(dexes: DEXFees[]): string[] {
+  const counts = new Map<string, number>();
+  dexes.forEach(dex => dex.blockchain.forEach(chain => counts.set(chain, (counts.get(chain) || 0) + 1)));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([chain]) => chain);
+}
+
+// gasFeeEstimate keys come from the AI response, so match chain names case-insensitively
+export function findGasEstimate(dex: DEXFees, chain: string): GasLevels | null {
+  const key = Object.keys(dex.gasFeeEstimate).find(name => name.toLowerCase() === chain.toLowerCase());
+  return key ? dex.gasFeeEstimate[key] : null;
+}
+
+function mapLevels(levels: GasLevels, fn: (value: number) => number): GasLevels {
+  return { low: fn(levels.low), average: fn(levels.average), high: fn(levels.high) };
+}
+
+/**
+ * Calculate the cost of a swap on each DEX listed on the chain, cheapest first
+ *
+ * Swap fee: swapSize x swap fee rate
+ * Gas: the chain's low/average/high estimate, independent of swap size
+ * Breakeven: swap size where the swap fee equals gas (gas / fee rate) -
+ * below it gas is the larger part of the cost
+ */
+export function calculateDEXSwapCosts(
+  dexes: DEXFees[],
+  input: DEXSwapCostInput
+): { results: DEXSwapCost[]; excluded: number } {
+  const chain = input.chain.toLowerCase();
+  const results: DEXSwapCost[] = [];
+  let excluded = 0;
+
+  dexes
+    .filter(dex => dex.blockchain.some(name => name.toLowerCase() === chain))
+    .forEach(dex => {
+      if (dex.swapFee === null) {
+        excluded++;
+        return;
+      }
+
+      const swapFeeRate = dex.swapFee;
+      const swapFeeCost = input.swapSize * (swapFeeRate / 100);
+      const gasCost = findGasEstimate(dex, input.chain);
+      const totalCost = gasCost
+        ? mapLevels(gasCost, gas => swapFeeCost + gas)
+        : { low: swapFeeCost, average: swapFeeCost, high: swapFeeCost };
+
+      results.push({
+        dexId: dex.dexId,
+        dexName: dex.dexName,
+        logo: dex.logo,
+        url: dex.url,
+        protocol: dex.protocol,
+        swapFeeRate,
+        swapFeeCost,
+        gasCost,
+        totalCost,
+        totalCostPercent: (totalCost.average / input.swapSize) * 100,
+        breakevenSize: gasCost && swapFeeRate > 0
+          ? mapLevels(gasCost, gas => gas / (swapFeeRate / 100))
+          : null,
+      });
+    });
+
+  // DEXes without gas data last so an unknown gas cost can't look cheaper
+  results.sort((a, b) =>
+    Number(a.gasCost === null) - Number(b.gasCost === null) ||
+    a.totalCost.average - b.totalCost.average
+  );
+
+  return { results, excluded };
+}
+
+/**
+ * Parse and validate route comparison query parameters
+ */
+export function parseRouteComparisonQuery(
+  query: { [key: string]: string | string[] | undefined }
+): ParsedInput<RouteComparisonInput> {
+  const pair = (firstValue(query.pair) || '').trim().toUpperCase();
+  const [base, quote] = pair.split(/[/\-]/);
+  const size = parseFloat(firstValue(query.size) || '');
+  const chain = (firstValue(query.chain) || '').trim();
+
+  if (!base || !quote || !/^[A-Z0-9]{2,10}$/.test(base) || !/^[A-Z0-9]{2,10}$/.test(quote)) {
+    return { input: null, error: 'pair must look like ETH/USDT' };
+  }
+  if (!Number.isFinite(size) || size <= 0) {
+    return { input: null, error: 'size must be a positive USD amount' };
+  }
+  if (!chain || chain.length > 50) {
+    return { input: null, error: 'chain is required, e.g. Ethereum' };
+  }
+
+  return { input: { pair: `${base}/${quote}`, base, quote, size, chain }, error: null };
+}
+
+/**
+ * Rank CEX and DEX routes for buying `size` USD of the base asset
+ *
+ * CEX: taker fee on the trade + withdrawal fee for the base asset on the chosen chain (coin amount x basePriceUSD)
+ * DEX on the chain: swap fee + average gas (from calculateDEXSwapCosts)
+ * Whether a venue lists the pair is not known from the fee data.
+ */
+export function compareVenueRoutes(
+  exchanges: CEXFees[],
+  dexes: DEXFees[],
+  input: RouteComparisonInput,
+  basePriceUSD: number | null
+): { routes: VenueRoute[]; excluded: { cex: number; dex: number } } {
+  const routes: VenueRoute[] = [];
+  let excludedCEX = 0;
+
+  exchanges.forEach(exchange => {
+    if (exchange.takerFee === null) {
+      excludedCEX++;
+      return;
+    }
+
+    const tradingFee = input.size * (exchange.takerFee / 100);
+    const withdrawal = getWithdrawalFee(exchange, input.base, input.chain);
+    const withdrawalCoins = withdrawal?.enabled ? withdrawal.fee : null;
+    const withdrawalFee = withdrawalCoins !== null && basePriceUSD !== null
+      ? withdrawalCoins * basePriceUSD
+      : null;
+
+    const withdrawalDetail = !withdrawal
+      ? `No ${input.base} withdrawal fee data for ${input.chain}`
+      : !withdrawal.enabled
+        ? `${input.base} withdrawals on ${input.chain} are suspended`
+        : basePriceUSD === null
+          ? `${formatAmount(withdrawal.fee)} ${input.base} on ${input.chain} - no USD price available`
+          : `${formatAmount(withdrawal.fee)} ${input.base} on ${input.chain} at ${formatUSD(basePriceUSD)}`;
+
+    const totalCost = tradingFee + (withdrawalFee ?? 0);
+
+    routes.push({
+      venue: 'cex',
+      id: exchange.exchangeId,
+      name: exchange.exchangeName,
+      logo: exchange.logo,
+      url: exchange.url,
+      totalCost,
+      totalCostPercent: (totalCost / input.size) * 100,
+      breakdown: [
+        { label: 'Taker fee', amount: tradingFee, detail: `${formatFee(exchange.takerFee)} of ${formatUSD(input.size)}` },
+        { label: 'Withdrawal fee', amount: withdrawalFee, detail: withdrawalDetail },
+      ],
+      incomplete: withdrawalFee === null,
+    });
+  });
+
+  const { results: dexCosts, excluded: excludedDEX } = calculateDEXSwapCosts(dexes, {
+    swapSize: input.size,
+    chain: input.chain,
+  });
+
+  dexCosts.forEach(cost => {
+    routes.push({
+      venue: 'dex',
+      id: cost.dexId,
+      name: cost.dexName,
+      logo: cost.logo,
+      url: cost.url,
+      totalCost: cost.totalCost.average,
+      totalCostPercent: cost.totalCostPercent,
+      breakdown: [
+        { label: 'Swap fee', amount: cost.swapFeeCost, detail: `${formatFee(cost.swapFeeRate)} of ${formatUSD(input.size)}` },
+        {
+          label: 'Gas (average)',
+          amount: cost.gasCost?.average ?? null,
+          detail: cost.gasCost
+            ? `${input.chain} gas ranges ${formatUSD(cost.gasCost.low)} - ${formatUSD(cost.gasCost.high)}`
+            : `No ${input.chain} gas estimate`,
+        },
+      ],
+      incomplete: cost.gasCost === null,
+    });
+  });
+
+  routes.sort((a, b) =>
+    Number(a.incomplete) - Number(b.incomplete) ||
+    a.totalCost - b.totalCost
+  );
+
+  return { routes, excluded: { cex: excludedCEX, dex: excludedDEX } };
+}
+
+/**
+ * Parse and validate withdrawal fee comparison query parameters
+ */
+export function parseWithdrawalComparisonQuery(
+  query: { [key: string]: string | string[] | undefined }
+): ParsedInput<WithdrawalComparisonInput> {
+  const coin = (firstValue(query.coin) || '').trim().toUpperCase();
+  const network = (firstValue(query.network) || '').trim();
+
+  if (!/^[A-Z0-9]{2,10}$/.test(coin)) {
+    return { input: null, error: 'coin must be a coin symbol such as USDT' };
+  }
+  if (network.length > 50) {
+    return { input: null, error: 'network name is too long' };
+  }
+
+  return { input: { coin, network: network ? normalizeNetwork(network) : null }, error: null };
+}
+
+/**
+ * Coins with withdrawal fee data on any exchange
+ */
+export function getWithdrawalCoins(exchanges: CEXFees[]): string[] {
+  const coins = new Set<string>();
+  exchanges.forEach(exchange => {
+    Object.keys(exchange.withdrawalFees || {}).forEach(coin => coins.add(coin));
+  });
+  return Array.from(coins).sort();
+}
+
+/**
+ * Networks with withdrawal fee data for a coin, most widely listed first
+ */
+export function getWithdrawalNetworks(exchanges: CEXFees[], coin: string): string[] {
+  const counts = new Map<string, number>();
+  exchanges.forEach(exchange => {
+    Object.keys(exchange.withdrawalFees?.[coin] || {}).forEach(network => {
+      counts.set(network, (counts.get(network) || 0) + 1);
+    });
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([network]) => network);
+}
+
+/**
+ * Rank exchanges by the cost of withdrawing a coin on a network
+ * Suspended networks are listed after open ones
+ */
+export function compareWithdrawalFees(
+  exchanges: CEXFees[],
+  coin: string,
+  network: string,
+  coinPriceUSD: number | null
+): { results: WithdrawalFeeRow[]; missing: number } {
+  const results: WithdrawalFeeRow[] = [];
+  let missing = 0;
+
+  exchanges.forEach(exchange => {
+    const withdrawal = getWithdrawalFee(exchange, coin, network);
+    if (!withdrawal) {
+      missing++;
+      return;
+    }
+
+    results.push({
+      exchangeId: exchange.exchangeId,
+      exchangeName: exchange.exchangeName,
+      logo: exchange.logo,
+      url: exchange.url,
+      fee: withdrawal.fee,
+      feeUSD: coinPriceUSD !== null ? withdrawal.fee * coinPriceUSD : null,
+      minWithdrawal: withdrawal.minWithdrawal,
+      enabled: withdrawal.enabled,
+    });
+  });
+
+  results.sort((a, b) => Number(b.enabled) - Number(a.enabled) || a.fee - b.fee);
+
+  return { results, missing };
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CEXFees, FeeChange } from '@/lib/types/exchange';
+import {
+  describeFeeChange,
+  detectCEXListingChanges,
+  diffCEXSnapshots,
+  getFeeChanges,
+  parseFeeChangeQuery,
+  recordFeeChanges,
+} from './fee-changes';
+
+const binance = { exchangeId: 'binance', exchangeName: 'Binance' };
+const snapshot = (recordedAt: string, makerFee: number | null, takerFee: number | null) => ({
+  recordedAt,
+  makerFee,
+  takerFee,
+  withdrawalFees: {},
+  depositFees: {},
+});
+
+function change(fields: Partial<FeeChange>): FeeChange {
+  return {
+    id: 'cex-binance-takerFee-1',
+    kind: 'fee_changed',
+    market: 'cex',
+    entityId: 'binance',
+    entityName: 'Binance',
+    detectedAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  global.memoryCacheEntries = undefined;
+  global.cacheStorePromise = undefined;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('diffCEXSnapshots', () => {
+  it('reports each changed fee with its delta', () => {
+    const changes = diffCEXSnapshots(
+      binance,
+      snapshot('2024-01-01T00:00:00.000Z', 0.1, 0.1),
+      snapshot('2024-01-02T00:00:00.000Z', 0.1, null)
+    );
+
+    expect(changes).toEqual([{
+      id: `cex-binance-takerFee-${new Date('2024-01-02T00:00:00.000Z').getTime()}`,
+      kind: 'fee_changed',
+      market: 'cex',
+      entityId: 'binance',
+      entityName: 'Binance',
+      field: 'takerFee',
+      previousValue: 0.1,
+      currentValue: null,
+      delta: null,
+      detectedAt: '2024-01-02T00:00:00.000Z',
+    }]);
+  });
+
+  it('reports nothing for identical fees', () => {
+    expect(diffCEXSnapshots(binance, snapshot('a', 0.1, 0.2), snapshot('b', 0.1, 0.2))).toEqual([]);
+  });
+});
+
+describe('detectCEXListingChanges', () => {
+  it('reports exchanges entering and leaving the top list', () => {
+    const toExchange = (exchangeId: string) => ({ exchangeId, exchangeName: exchangeId.toUpperCase() }) as CEXFees;
+
+    const changes = detectCEXListingChanges(['binance', 'ftx'].map(toExchange), ['binance', 'kraken'].map(toExchange));
+
+    expect(changes.map(entry => [entry.kind, entry.entityId])).toEqual([['listed', 'kraken'], ['delisted', 'ftx']]);
+  });
+});
+
+describe('recordFeeChanges / getFeeChanges', () => {
+  it('stores changes and returns them newest first with filters', async () => {
+    await recordFeeChanges([
+      change({ id: '1', detectedAt: '2024-01-01T00:00:00.000Z' }),
+      change({ id: '2', market: 'dex', detectedAt: '2024-01-02T00:00:00.000Z' }),
+    ]);
+    await recordFeeChanges([change({ id: '3', kind: 'listed', detectedAt: '2024-01-03T00:00:00.000Z' })]);
+
+    expect((await getFeeChanges()).map(entry => entry.id)).toEqual(['3', '2', '1']);
+    expect((await getFeeChanges({ market: 'cex' })).map(entry => entry.id)).toEqual(['3', '1']);
+    expect((await getFeeChanges({ kind: 'fee_changed', limit: 1 })).map(entry => entry.id)).toEqual(['2']);
+    expect((await getFeeChanges({ since: '2024-01-02' })).map(entry => entry.id)).toEqual(['3', '2']);
+  });
+});
+
+describe('describeFeeChange', () => {
+  it('summarizes fee changes and listings', () => {
+    expect(describeFeeChange(change({ field: 'takerFee', previousValue: 0.1, currentValue: 0.08, delta: -0.02 })))
+      .toBe('Binance taker fee changed from 0.1% to 0.08% (-0.02 pp)');
+    expect(describeFeeChange(change({ field: 'makerFee', previousValue: null, currentValue: 0.1, delta: null })))
+      .toBe('Binance maker fee changed from unknown to 0.1%');
+    expect(describeFeeChange(change({ kind: 'delisted', market: 'dex' }))).toBe('Binance dropped out of the DEX top list');
+  });
+});
+
+describe('parseFeeChangeQuery', () => {
+  it('keeps known values and caps the limit', () => {
+    expect(parseFeeChangeQuery({ market: 'cex', kind: 'moved', limit: '5000', since: ['2024-01-01', 'x'] })).toEqual({
+      market: 'cex',
+      kind: undefined,
+      since: '2024-01-01',
+      limit: 1000,
+    });
+    expect(parseFeeChangeQuery({ limit: 'all' }).limit).toBe(100);
+  });
+});
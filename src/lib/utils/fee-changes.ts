@@ -0,0 +1,214 @@
+/**
+ * Fee Change Detection
+ *
+ * Diffs consecutive fee snapshots and top-50 listings, and keeps the
+ * resulting changelog in the cache store for /api/changes and its feeds.
+ */
+
+import { getCacheStore } from '@/lib/cache';
+import {
+  CEXFees,
+  DEXFees,
+  CEXFeeSnapshot,
+  DEXFeeSnapshot,
+  FeeChange,
+} from '@/lib/types/exchange';
+
+const CHANGELOG_KEY = 'fee-changes';
+
+// Upper bound on stored changelog entries (oldest are dropped first)
+export const MAX_CHANGELOG_ENTRIES = 1000;
+
+function createFeeChange(change: Omit<FeeChange, 'id'>): FeeChange {
+  const suffix = change.field || change.kind;
+  return {
+    id: `${change.market}-${change.entityId}-${suffix}-${new Date(change.detectedAt).getTime()}`,
+    ...change,
+  };
+}
+
+function diffFeeField(
+  market: 'cex' | 'dex',
+  entityId: string,
+  entityName: string,
+  field: 'makerFee' | 'takerFee' | 'swapFee',
+  previousValue: number | null,
+  currentValue: number | null,
+  detectedAt: string
+): FeeChange | null {
+  if (previousValue === currentValue) {
+    return null;
+  }
+
+  return createFeeChange({
+    kind: 'fee_changed',
+    market,
+    entityId,
+    entityName,
+    field,
+    previousValue,
+    currentValue,
+    delta: previousValue !== null && currentValue !== null
+      ? Number((currentValue - previousValue).toFixed(6))
+      : null,
+    detectedAt,
+  });
+}
+
+/**
+ * Diff maker/taker fees between two CEX snapshots
+ */
+export function diffCEXSnapshots(
+  exchange: Pick<CEXFees, 'exchangeId' | 'exchangeName'>,
+  previous: CEXFeeSnapshot,
+  current: CEXFeeSnapshot
+): FeeChange[] {
+  return [
+    diffFeeField('cex', exchange.exchangeId, exchange.exchangeName, 'makerFee', previous.makerFee, current.makerFee, current.recordedAt),
+    diffFeeField('cex', exchange.exchangeId, exchange.exchangeName, 'takerFee', previous.takerFee, current.takerFee, current.recordedAt),
+  ].filter((change): change is FeeChange => change !== null);
+}
+
+/**
+ * Diff swap fee between two DEX snapshots
+ */
+export function diffDEXSnapshots(
+  dex: Pick<DEXFees, 'dexId' | 'dexName'>,
+  previous: DEXFeeSnapshot,
+  current: DEXFeeSnapshot
+): FeeChange[] {
+  const change = diffFeeField('dex', dex.dexId, dex.dexName, 'swapFee', previous.swapFee, current.swapFee, current.recordedAt);
+  return change ? [change] : [];
+}
+
+function diffListings(
+  market: 'cex' | 'dex',
+  previous: { id: string; name: string }[],
+  current: { id: string; name: string }[]
+): FeeChange[] {
+  const detectedAt = new Date().toISOString();
+  const previousIds = new Set(previous.map(entry => entry.id));
+  const currentIds = new Set(current.map(entry => entry.id));
+
+  const listed = current
+    .filter(entry => !previousIds.has(entry.id))
+    .map(entry => createFeeChange({ kind: 'listed', market, entityId: entry.id, entityName: entry.name, detectedAt }));
+
+  const delisted = previous
+    .filter(entry => !currentIds.has(entry.id))
+    .map(entry => createFeeChange({ kind: 'delisted', market, entityId: entry.id, entityName: entry.name, detectedAt }));
+
+  return [...listed, ...delisted];
+}
+
+/**
+ * Detect exchanges that entered or left the CMC top list between refreshes
+ */
+export function detectCEXListingChanges(previous: CEXFees[], current: CEXFees[]): FeeChange[] {
+  const toEntry = (ex: CEXFees) => ({ id: ex.exchangeId, name: ex.exchangeName });
+  return diffListings('cex', previous.map(toEntry), current.map(toEntry));
+}
+
+/**
+ * Detect DEXes that entered or left the DeFiLlama top list between refreshes
+ */
+export function detectDEXListingChanges(previous: DEXFees[], current: DEXFees[]): FeeChange[] {
+  const toEntry = (dex: DEXFees) => ({ id: dex.dexId, name: dex.dexName });
+  return diffListings('dex', previous.map(toEntry), current.map(toEntry));
+}
+
+/**
+ * Append detected changes to the stored changelog
+ */
+export async function recordFeeChanges(changes: FeeChange[]): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  try {
+    const store = await getCacheStore();
+    const existing = (await store.get<FeeChange[]>(CHANGELOG_KEY))?.data || [];
+    const changelog = [...existing, ...changes].slice(-MAX_CHANGELOG_ENTRIES);
+
+    await store.set(CHANGELOG_KEY, { data: changelog, timestamp: Date.now() });
+    console.log(`📝 Recorded ${changes.length} fee change(s)`);
+  } catch (error) {
+    console.error('Failed to record fee changes:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Get changelog entries, newest first
+ */
+export async function getFeeChanges(options: {
+  market?: 'cex' | 'dex';
+  kind?: FeeChange['kind'];
+  since?: string;
+  limit?: number;
+} = {}): Promise<FeeChange[]> {
+  const store = await getCacheStore();
+  let changes = (await store.get<FeeChange[]>(CHANGELOG_KEY))?.data || [];
+
+  if (options.market) {
+    changes = changes.filter(change => change.market === options.market);
+  }
+
+  if (options.kind) {
+    changes = changes.filter(change => change.kind === options.kind);
+  }
+
+  if (options.since) {
+    const sinceTime = new Date(options.since).getTime();
+    if (!isNaN(sinceTime)) {
+      changes = changes.filter(change => new Date(change.detectedAt).getTime() >= sinceTime);
+    }
+  }
+
+  const newestFirst = [...changes].reverse();
+  return options.limit && options.limit > 0 ? newestFirst.slice(0, options.limit) : newestFirst;
+}
+
+/**
+ * Human readable one-line summary of a change (used for feed titles)
+ */
+export function describeFeeChange(change: FeeChange): string {
+  const market = change.market.toUpperCase();
+
+  if (change.kind === 'listed') {
+    return `${change.entityName} entered the ${market} top list`;
+  }
+
+  if (change.kind === 'delisted') {
+    return `${change.entityName} dropped out of the ${market} top list`;
+  }
+
+  const fieldLabel = {
+    makerFee: 'maker fee',
+    takerFee: 'taker fee',
+    swapFee: 'swap fee',
+  }[change.field || 'swapFee'];
+
+  const format = (value: number | null | undefined) => value === null || value === undefined ? 'unknown' : `${value}%`;
+  const delta = change.delta !== null && change.delta !== undefined
+    ? ` (${change.delta > 0 ? '+' : ''}${change.delta} pp)`
+    : '';
+
+  return `${change.entityName} ${fieldLabel} changed from ${format(change.previousValue)} to ${format(change.currentValue)}${delta}`;
+}
+
+/**
+ * Parse /api/changes query params (market, kind, since, limit)
+ */
+export function parseFeeChangeQuery(query: Partial<Record<string, string | string[]>>) {
+  const single = (value: string | string[] | undefined) => Array.isArray(value) ? value[0] : value;
+  const market = single(query.market);
+  const kind = single(query.kind);
+  const limit = parseInt(single(query.limit) || '100', 10);
+
+  return {
+    market: market === 'cex' || market === 'dex' ? market : undefined,
+    kind: kind === 'fee_changed' || kind === 'listed' || kind === 'delisted' ? kind : undefined,
+    since: single(query.since),
+    limit: isNaN(limit) ? 100 : Math.min(limit, MAX_CHANGELOG_ENTRIES),
+  } as const;
+}
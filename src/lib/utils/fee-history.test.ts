@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CEXFees, DEXFees } from '@/lib/types/exchange';
+import { getFeeChanges } from './fee-changes';
+import { filterHistory, getCEXFeeHistory, getDEXFeeHistory, recordCEXFeeHistory, recordDEXFeeHistory } from './fee-history';
+
+function exchange(fields: Partial<CEXFees>): CEXFees {
+  return {
+    exchangeId: 'binance',
+    exchangeName: 'Binance',
+    logo: '',
+    makerFee: 0.1,
+    takerFee: 0.1,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: null,
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
+    ...fields,
+  };
+}
+
+function dex(fields: Partial<DEXFees>): DEXFees {
+  return {
+    dexId: 'uniswap',
+    dexName: 'Uniswap',
+    logo: '',
+    protocol: 'AMM',
+    blockchain: ['Ethereum'],
+    swapFee: 0.3,
+    gasFeeEstimate: {},
+    liquidityUSD: 0,
+    volume24h: 0,
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+const network = (fee: number) => ({ fee, minWithdrawal: null, enabled: true });
+
+beforeEach(() => {
+  global.memoryCacheEntries = undefined;
+  global.cacheStorePromise = undefined;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('recordCEXFeeHistory', () => {
+  it('appends a snapshot only when fee values change and records the change', async () => {
+    await recordCEXFeeHistory([exchange({})]);
+    await recordCEXFeeHistory([exchange({ lastUpdated: '2024-01-02T00:00:00.000Z' })]);
+    await recordCEXFeeHistory([exchange({ takerFee: 0.08, lastUpdated: '2024-01-03T00:00:00.000Z' })]);
+
+    const history = await getCEXFeeHistory('binance');
+    expect(history.map(snapshot => snapshot.recordedAt)).toEqual(['2024-01-01T00:00:00.000Z', '2024-01-03T00:00:00.000Z']);
+
+    const changes = await getFeeChanges();
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ kind: 'fee_changed', field: 'takerFee', previousValue: 0.1, currentValue: 0.08, delta: -0.02 });
+  });
+
+  it('treats withdrawal and deposit maps in a different key order as unchanged', async () => {
+    await recordCEXFeeHistory([exchange({
+      withdrawalFees: { BTC: { Bitcoin: network(0.0005), Lightning: network(0) }, ETH: { Ethereum: network(0.002) } },
+      depositFees: { BTC: 0, ETH: 0 },
+    })]);
+    const recorded = await recordCEXFeeHistory([exchange({
+      withdrawalFees: { ETH: { Ethereum: network(0.002) }, BTC: { Lightning: network(0), Bitcoin: network(0.0005) } },
+      depositFees: { ETH: 0, BTC: 0 },
+      lastUpdated: '2024-01-02T00:00:00.000Z',
+    })]);
+
+    expect(recorded).toBe(0);
+    expect(await getCEXFeeHistory('binance')).toHaveLength(1);
+  });
+
+  it('still detects a changed withdrawal fee', async () => {
+    await recordCEXFeeHistory([exchange({ withdrawalFees: { BTC: { Bitcoin: network(0.0005) } } })]);
+    const recorded = await recordCEXFeeHistory([exchange({ withdrawalFees: { BTC: { Bitcoin: network(0.0004) } } })]);
+
+    expect(recorded).toBe(1);
+    expect(await getFeeChanges()).toHaveLength(0); // Only maker/taker fees go to the changelog
+  });
+
+  it('skips placeholder records', async () => {
+    expect(await recordCEXFeeHistory([exchange({ makerFee: null, takerFee: null })])).toBe(0);
+    expect(await getCEXFeeHistory('binance')).toEqual([]);
+  });
+});
+
+describe('recordDEXFeeHistory', () => {
+  it('ignores gas estimate key order and records swap fee changes', async () => {
+    await recordDEXFeeHistory([dex({ gasFeeEstimate: { ethereum: { low: 1, average: 2, high: 3 } } })]);
+    await recordDEXFeeHistory([dex({ gasFeeEstimate: { ethereum: { high: 3, average: 2, low: 1 } } })]);
+    await recordDEXFeeHistory([dex({ swapFee: 0.25, lastUpdated: '2024-01-02T00:00:00.000Z' })]);
+
+    expect(await getDEXFeeHistory('uniswap')).toHaveLength(2);
+    expect((await getFeeChanges({ market: 'dex' }))[0]).toMatchObject({ field: 'swapFee', previousValue: 0.3, currentValue: 0.25 });
+  });
+});
+
+describe('filterHistory', () => {
+  it('filters by date and keeps the most recent entries', () => {
+    const snapshots = ['2024-01-01', '2024-01-02', '2024-01-03'].map(day => ({ recordedAt: `${day}T00:00:00.000Z` }));
+
+    expect(filterHistory(snapshots, '2024-01-02')).toEqual(snapshots.slice(1));
+    expect(filterHistory(snapshots, undefined, 1)).toEqual(snapshots.slice(2));
+    expect(filterHistory(snapshots, 'not a date')).toEqual(snapshots);
+  });
+});
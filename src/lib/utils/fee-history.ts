@@ -0,0 +1,177 @@
+/**
+ * Fee History Utilities
+ *
+ * Keeps a timestamped time series of fee values per exchange/DEX in the
+ * configured cache store, so fee schedule changes survive cache rebuilds.
+ * A snapshot is only appended when the fee values differ from the latest one,
+ * and each such change is diffed into the fee changelog.
+ */
+
+import { getCacheStore } from '@/lib/cache';
+import { CEXFees, DEXFees, CEXFeeSnapshot, DEXFeeSnapshot, FeeChange } from '@/lib/types/exchange';
+import { diffCEXSnapshots, diffDEXSnapshots, recordFeeChanges } from './fee-changes';
+
+// Upper bound on stored snapshots per record (oldest are dropped first)
+export const MAX_HISTORY_SNAPSHOTS = 500;
+
+function historyKey(type: 'cex' | 'dex', id: string): string {
+  return `history-${type}-${id}`;
+}
+
+// Deep equality that ignores key order (providers return coin/network maps in any order)
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+// Compare fee fields only (recordedAt always differs)
+function hasSameFees<T extends { recordedAt: string }>(a: T, b: T): boolean {
+  const { recordedAt: _a, ...feesA } = a;
+  const { recordedAt: _b, ...feesB } = b;
+  return isSameValue(feesA, feesB);
+}
+
+// Returns whether the snapshot was appended and the snapshot it follows
+async function appendSnapshot<T extends { recordedAt: string }>(
+  type: 'cex' | 'dex',
+  id: string,
+  snapshot: T
+): Promise<{ added: boolean; previous: T | null }> {
+  const store = await getCacheStore();
+  const key = historyKey(type, id);
+  const existing = (await store.get<T[]>(key))?.data || [];
+  const latest = existing[existing.length - 1];
+
+  if (latest && hasSameFees(latest, snapshot)) {
+    return { added: false, previous: latest };
+  }
+
+  const snapshots = [...existing, snapshot].slice(-MAX_HISTORY_SNAPSHOTS);
+  await store.set(key, { data: snapshots, timestamp: Date.now() });
+  return { added: true, previous: latest || null };
+}
+
+/**
+ * Record fee snapshots for CEX records that have fee data
+ * Placeholder records (no maker/taker fee) are skipped
+ */
+export async function recordCEXFeeHistory(exchanges: CEXFees[]): Promise<number> {
+  let recorded = 0;
+  const changes: FeeChange[] = [];
+
+  for (const exchange of exchanges) {
+    if (exchange.makerFee === null && exchange.takerFee === null) {
+      continue;
+    }
+
+    try {
+      const snapshot: CEXFeeSnapshot = {
+        recordedAt: exchange.lastUpdated,
+        makerFee: exchange.makerFee,
+        takerFee: exchange.takerFee,
+        withdrawalFees: exchange.withdrawalFees || {},
+        depositFees: exchange.depositFees || {},
+      };
+      const { added, previous } = await appendSnapshot('cex', exchange.exchangeId, snapshot);
+      
+      if (added) {
+        recorded++;
+        if (previous) {
+          changes.push(...diffCEXSnapshots(exchange, previous, snapshot));
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to record fee history for ${exchange.exchangeId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await recordFeeChanges(changes);
+  return recorded;
+}
+
+/**
+ * Record fee snapshots for DEX records that have fee data
+ * Placeholder records (no swap fee) are skipped
+ */
+export async function recordDEXFeeHistory(dexes: DEXFees[]): Promise<number> {
+  let recorded = 0;
+  const changes: FeeChange[] = [];
+
+  for (const dex of dexes) {
+    if (dex.swapFee === null) {
+      continue;
+    }
+
+    try {
+      const snapshot: DEXFeeSnapshot = {
+        recordedAt: dex.lastUpdated,
+        swapFee: dex.swapFee,
+        gasFeeEstimate: dex.gasFeeEstimate || {},
+      };
+      const { added, previous } = await appendSnapshot('dex', dex.dexId, snapshot);
+      
+      if (added) {
+        recorded++;
+        if (previous) {
+          changes.push(...diffDEXSnapshots(dex, previous, snapshot));
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to record fee history for ${dex.dexId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await recordFeeChanges(changes);
+  return recorded;
+}
+
+/**
+ * Get the fee time series for a CEX (oldest first)
+ */
+export async function getCEXFeeHistory(exchangeId: string): Promise<CEXFeeSnapshot[]> {
+  const store = await getCacheStore();
+  return (await store.get<CEXFeeSnapshot[]>(historyKey('cex', exchangeId)))?.data || [];
+}
+
+/**
+ * Get the fee time series for a DEX (oldest first)
+ */
+export async function getDEXFeeHistory(dexId: string): Promise<DEXFeeSnapshot[]> {
+  const store = await getCacheStore();
+  return (await store.get<DEXFeeSnapshot[]>(historyKey('dex', dexId)))?.data || [];
+}
+
+/**
+ * Apply optional `since` (ISO date) and `limit` (most recent N) filters
+ */
+export function filterHistory<T extends { recordedAt: string }>(
+  snapshots: T[],
+  since?: string,
+  limit?: number
+): T[] {
+  let filtered = snapshots;
+
+  if (since) {
+    const sinceTime = new Date(since).getTime();
+    if (!isNaN(sinceTime)) {
+      filtered = filtered.filter(snapshot => new Date(snapshot.recordedAt).getTime() >= sinceTime);
+    }
+  }
+
+  if (limit && limit > 0) {
+    filtered = filtered.slice(-limit);
+  }
+
+  return filtered;
+}
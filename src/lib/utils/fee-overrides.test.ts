@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CEXFees } from '@/lib/types/exchange';
+import {
+  applyCEXFeeOverrides,
+  canPersistFeeOverrideEdits,
+  getFeeOverrides,
+  removeFeeOverride,
+  setFeeOverride,
+} from './fee-overrides';
+
+vi.mock('@/config/constants', async importOriginal => ({
+  ...await importOriginal<typeof import('@/config/constants')>(),
+  FEE_OVERRIDES_FILE: 'data/does-not-exist.json',
+  CACHE_STORE: 'memory',
+}));
+
+const override = { reason: 'Fee page says 0.05%', createdAt: '2024-01-01T00:00:00.000Z', expiresAt: null, takerFee: 0.05 };
+
+beforeEach(() => {
+  global.memoryCacheEntries = undefined;
+  global.cacheStorePromise = undefined;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('canPersistFeeOverrideEdits', () => {
+  it('is false for the in-memory store', async () => {
+    expect(await canPersistFeeOverrideEdits()).toBe(false);
+  });
+});
+
+describe('admin override edits', () => {
+  it('are applied on top of provider values until removed', async () => {
+    const binance = { exchangeId: 'binance', makerFee: 0.1, takerFee: 0.1, withdrawalFees: {}, depositFees: {} } as unknown as CEXFees;
+
+    await setFeeOverride('cex', 'binance', override);
+    const [overridden] = await applyCEXFeeOverrides([binance]);
+
+    expect(overridden.takerFee).toBe(0.05);
+    expect(overridden.makerFee).toBe(0.1);
+    expect(overridden.feeSources?.takerFee).toMatchObject({ provider: 'override', note: 'Fee page says 0.05%' });
+
+    expect(await removeFeeOverride('cex', 'binance')).toBe(true);
+    expect(await removeFeeOverride('cex', 'binance')).toBe(false);
+    expect(await getFeeOverrides()).toEqual({ cex: {}, dex: {} });
+  });
+
+  it('skip expired overrides', async () => {
+    await setFeeOverride('cex', 'binance', { ...override, expiresAt: '2000-01-01T00:00:00.000Z' });
+    const binance = { exchangeId: 'binance', takerFee: 0.1 } as CEXFees;
+
+    expect(await applyCEXFeeOverrides([binance])).toEqual([binance]);
+  });
+});
@@ -0,0 +1,303 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FEE_OVERRIDES_FILE } from '@/config/constants';
+import { FieldIssue, validateCEXFeeData, validateDEXFeeData } from '@/lib/api/ai-validation';
+import { getCacheStore } from '@/lib/cache';
+import {
+  CEXFees,
+  CEXFeeOverride,
+  DEXFees,
+  DEXFeeOverride,
+  FeeFieldSource,
+  FeeOverrideEdits,
+  FeeOverrideMeta,
+  FeeOverrides,
+} from '@/lib/types/exchange';
+import { mergeWithdrawalFees } from './withdrawal-fees';
+
+/**
+ * Manual Fee Overrides
+ *
+ * Version-controlled corrections in FEE_OVERRIDES_FILE (default data/fee-overrides.json),
+ * keyed by exchangeId/dexId. Overrides are applied when fee data is served, on
+ * top of merged provider values - the cached provider data and fee history are
+ * never modified, so removing or expiring an override restores the provider value.
+ *
+ * The file is only read at runtime (deploys may have a read-only filesystem).
+ * Admin API edits are kept in the cache store and layered over it; copy them
+ * into the file to put them under version control. Edits are refused with the
+ * in-memory store, where they would be lost on restart and differ per instance.
+ */
+
+type Market = 'cex' | 'dex';
+
+const OVERRIDE_EDITS_KEY = 'fee-override-edits';
+
+function resolveFilePath(): string {
+  return path.resolve(process.cwd(), FEE_OVERRIDES_FILE);
+}
+
+async function readFileOverrides(): Promise<FeeOverrides> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(resolveFilePath(), 'utf8'));
+    return { cex: parsed?.cex || {}, dex: parsed?.dex || {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`❌ Failed to read fee overrides from ${FEE_OVERRIDES_FILE}:`, error);
+    }
+    return { cex: {}, dex: {} };
+  }
+}
+
+/**
+ * Whether admin edits survive a restart (file or sqlite cache store)
+ */
+export async function canPersistFeeOverrideEdits(): Promise<boolean> {
+  const store = await getCacheStore();
+  return store.type !== 'memory';
+}
+
+/**
+ * Read admin API edits from the cache store
+ */
+export async function getFeeOverrideEdits(): Promise<FeeOverrideEdits> {
+  const store = await getCacheStore();
+  const entry = await store.get<FeeOverrideEdits>(OVERRIDE_EDITS_KEY);
+  return { cex: entry?.data.cex || {}, dex: entry?.data.dex || {} };
+}
+
+async function saveFeeOverrideEdits(edits: FeeOverrideEdits): Promise<void> {
+  const store = await getCacheStore();
+  await store.set(OVERRIDE_EDITS_KEY, { data: edits, timestamp: Date.now() });
+}
+
+// File overrides with edits applied - null edits remove the file entry
+function applyEdits<T>(
+  fileOverrides: { [id: string]: T },
+  edits: { [id: string]: T | null }
+): { [id: string]: T } {
+  const merged = { ...fileOverrides };
+  Object.entries(edits).forEach(([id, override]) => {
+    if (override) {
+      merged[id] = override;
+    } else {
+      delete merged[id];
+    }
+  });
+  return merged;
+}
+
+/**
+ * Read all overrides (including expired ones): the committed file with admin edits applied
+ */
+export async function getFeeOverrides(): Promise<FeeOverrides> {
+  const [fileOverrides, edits] = await Promise.all([readFileOverrides(), getFeeOverrideEdits()]);
+  return {
+    cex: applyEdits(fileOverrides.cex, edits.cex),
+    dex: applyEdits(fileOverrides.dex, edits.dex),
+  };
+}
+
+export function isOverrideActive(override: FeeOverrideMeta, now = Date.now()): boolean {
+  return !override.expiresAt || new Date(override.expiresAt).getTime() > now;
+}
+
+function overrideSource(override: FeeOverrideMeta): FeeFieldSource {
+  return {
+    provider: 'override',
+    fetchedAt: override.createdAt,
+    confidence: null,
+    sourceUrl: override.sourceUrl ?? null,
+    note: override.reason,
+  };
+}
+
+/**
+ * Replace provider fee values with active CEX overrides
+ */
+export async function applyCEXFeeOverrides(exchanges: CEXFees[]): Promise<CEXFees[]> {
+  const { cex } = await getFeeOverrides();
+
+  return exchanges.map(exchange => {
+    const override = cex[exchange.exchangeId];
+    if (!override || !isOverrideActive(override)) {
+      return exchange;
+    }
+
+    const source = overrideSource(override);
+    const feeSources = { ...exchange.feeSources };
+    const result: CEXFees = { ...exchange, feeSources };
+
+    if (override.makerFee !== undefined) {
+      result.makerFee = override.makerFee;
+      feeSources.makerFee = source;
+    }
+    if (override.takerFee !== undefined) {
+      result.takerFee = override.takerFee;
+      feeSources.takerFee = source;
+    }
+    if (override.withdrawalFees) {
+      result.withdrawalFees = mergeWithdrawalFees(exchange.withdrawalFees, override.withdrawalFees);
+      feeSources.withdrawalFees = source;
+    }
+    if (override.depositFees) {
+      result.depositFees = { ...exchange.depositFees, ...override.depositFees };
+      feeSources.depositFees = source;
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Replace provider fee values with active DEX overrides
+ */
+export async function applyDEXFeeOverrides(dexes: DEXFees[]): Promise<DEXFees[]> {
+  const { dex: overrides } = await getFeeOverrides();
+
+  return dexes.map(dex => {
+    const override = overrides[dex.dexId];
+    if (!override || !isOverrideActive(override)) {
+      return dex;
+    }
+
+    const source = overrideSource(override);
+    const feeSources = { ...dex.feeSources };
+    const result: DEXFees = { ...dex, feeSources };
+
+    if (override.swapFee !== undefined) {
+      result.swapFee = override.swapFee;
+      feeSources.swapFee = source;
+    }
+    if (override.gasFeeEstimate) {
+      result.gasFeeEstimate = { ...dex.gasFeeEstimate, ...override.gasFeeEstimate };
+      feeSources.gasFeeEstimate = source;
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Validate an admin request body into an override
+ * Fee values go through the same checks as provider records
+ */
+export function parseFeeOverride(
+  market: Market,
+  id: string,
+  body: Record<string, unknown>
+): { override: CEXFeeOverride | DEXFeeOverride | null; issues: FieldIssue[] } {
+  const issues: FieldIssue[] = [];
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) {
+    issues.push({ field: 'reason', reason: 'invalid_shape', value: body.reason, message: 'reason is required' });
+  }
+
+  let expiresAt: string | null = null;
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    const expiry = new Date(String(body.expiresAt));
+    if (isNaN(expiry.getTime()) || expiry.getTime() <= Date.now()) {
+      issues.push({ field: 'expiresAt', reason: 'invalid_shape', value: body.expiresAt, message: 'expiresAt must be a future ISO date' });
+    } else {
+      expiresAt = expiry.toISOString();
+    }
+  }
+
+  const meta: FeeOverrideMeta = {
+    reason,
+    createdAt: new Date().toISOString(),
+    expiresAt,
+  };
+
+  let override: CEXFeeOverride | DEXFeeOverride | null = null;
+
+  if (market === 'cex') {
+    const validation = validateCEXFeeData([{
+      exchangeId: id,
+      makerFee: body.makerFee ?? null,
+      takerFee: body.takerFee ?? null,
+      withdrawalFees: body.withdrawalFees,
+      depositFees: body.depositFees,
+      sourceUrl: body.sourceUrl,
+    }], [id]);
+    validation.rejected.forEach(error => issues.push(...error.issues));
+    issues.push(...validation.sanitized);
+
+    const record = validation.accepted[0];
+    if (record) {
+      override = {
+        ...meta,
+        ...(record.makerFee !== null ? { makerFee: record.makerFee } : {}),
+        ...(record.takerFee !== null ? { takerFee: record.takerFee } : {}),
+        ...(Object.keys(record.withdrawalFees).length > 0 ? { withdrawalFees: record.withdrawalFees } : {}),
+        ...(Object.keys(record.depositFees).length > 0 ? { depositFees: record.depositFees } : {}),
+        sourceUrl: record.sourceUrl ?? null,
+      };
+    }
+  } else {
+    // Chains aren't known here, so gas estimates are only checked for shape
+    const validation = validateDEXFeeData([{
+      dexId: id,
+      swapFee: body.swapFee ?? null,
+      gasFeeEstimate: body.gasFeeEstimate,
+      sourceUrl: body.sourceUrl,
+    }], [{ dexId: id, blockchain: [] }]);
+    validation.rejected.forEach(error => issues.push(...error.issues));
+    issues.push(...validation.sanitized);
+
+    const record = validation.accepted[0];
+    if (record) {
+      override = {
+        ...meta,
+        ...(record.swapFee !== null ? { swapFee: record.swapFee } : {}),
+        ...(Object.keys(record.gasFeeEstimate).length > 0 ? { gasFeeEstimate: record.gasFeeEstimate } : {}),
+        sourceUrl: record.sourceUrl ?? null,
+      };
+    }
+  }
+
+  const overridesFee = override && Object.keys(override).some(key =>
+    !['reason', 'createdAt', 'expiresAt', 'sourceUrl'].includes(key)
+  );
+  if (override && !overridesFee) {
+    issues.push({ field: 'record', reason: 'invalid_shape', value: body, message: 'Override must set at least one fee field' });
+  }
+
+  return { override: issues.length === 0 ? override : null, issues };
+}
+
+/**
+ * Add or replace the override for an exchange/DEX (stored as an admin edit)
+ */
+export async function setFeeOverride(
+  market: Market,
+  id: string,
+  override: CEXFeeOverride | DEXFeeOverride
+): Promise<void> {
+  const edits = await getFeeOverrideEdits();
+  edits[market][id] = override;
+  await saveFeeOverrideEdits(edits);
+  console.log(`✏️ Fee override set for ${market}/${id}: ${override.reason}`);
+}
+
+/**
+ * Remove an override - returns false when none existed
+ * An override from the committed file is hidden by an admin edit until the file is changed
+ */
+export async function removeFeeOverride(market: Market, id: string): Promise<boolean> {
+  const [fileOverrides, edits] = await Promise.all([readFileOverrides(), getFeeOverrideEdits()]);
+  const current = applyEdits<CEXFeeOverride | DEXFeeOverride>(fileOverrides[market], edits[market]);
+  if (!current[id]) {
+    return false;
+  }
+
+  if (fileOverrides[market][id]) {
+    edits[market][id] = null;
+  } else {
+    delete edits[market][id];
+  }
+  await saveFeeOverrideEdits(edits);
+  console.log(`🗑️ Fee override removed for ${market}/${id}`);
+  return true;
+}
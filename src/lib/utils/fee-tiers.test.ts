@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { CEXFees, CEXFeeTier } from '@/lib/types/exchange';
+import { getEffectiveCEXFees, getFeeTier, getMarketCEXFees } from './fee-tiers';
+
+function tier(minVolume30d: number, makerFee: number | null, takerFee: number | null, tokenDiscount: number | null = null): CEXFeeTier {
+  return { name: `VIP ${minVolume30d}`, minVolume30d, makerFee, takerFee, tokenDiscount };
+}
+
+function exchange(fields: Partial<CEXFees>): CEXFees {
+  return {
+    exchangeId: 'binance',
+    exchangeName: 'Binance',
+    logo: '',
+    makerFee: 0.1,
+    takerFee: 0.1,
+    withdrawalFees: {},
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: 0.02,
+    futuresTakerFee: 0.05,
+    fundingRate: null,
+    marginBorrowRate: null,
+    ...fields,
+  };
+}
+
+const feeTiers = [tier(1000000, 0.09, null), tier(0, 0.1, 0.1, 25), tier(5000000, 0.08, 0.09, 20)];
+
+describe('getFeeTier', () => {
+  it('picks the highest threshold reached regardless of order', () => {
+    expect(getFeeTier(exchange({ feeTiers }), 2000000)?.minVolume30d).toBe(1000000);
+    expect(getFeeTier(exchange({ feeTiers }), 5000000)?.minVolume30d).toBe(5000000);
+    expect(getFeeTier(exchange({}), 5000000)).toBeNull();
+  });
+});
+
+describe('getEffectiveCEXFees', () => {
+  it('uses base fees without volume and falls back to them for unknown tier fees', () => {
+    expect(getEffectiveCEXFees(exchange({ feeTiers }), 0)).toEqual({ makerFee: 0.1, takerFee: 0.1, tier: null, tokenDiscount: null });
+
+    const fees = getEffectiveCEXFees(exchange({ feeTiers }), 2000000);
+    expect(fees.makerFee).toBe(0.09);
+    expect(fees.takerFee).toBe(0.1);
+  });
+
+  it('applies the token discount only when requested', () => {
+    expect(getEffectiveCEXFees(exchange({ feeTiers }), 6000000).tokenDiscount).toBeNull();
+
+    const fees = getEffectiveCEXFees(exchange({ feeTiers }), 6000000, true);
+    expect(fees.tokenDiscount).toBe(20);
+    expect(fees.makerFee).toBeCloseTo(0.064);
+    expect(fees.takerFee).toBeCloseTo(0.072);
+  });
+
+  it("uses the base tier's discount below every volume threshold", () => {
+    const fees = getEffectiveCEXFees(exchange({ feeTiers }), 0, true);
+    expect(fees.tier).toBeNull();
+    expect(fees.tokenDiscount).toBe(25);
+    expect(fees.takerFee).toBeCloseTo(0.075);
+  });
+
+  it('keeps manually overridden fees at every volume', () => {
+    const override = { provider: 'override', fetchedAt: '2024-01-01T00:00:00.000Z', confidence: null, sourceUrl: null };
+    const takerOnly = exchange({ feeTiers, takerFee: 0.2, feeSources: { takerFee: override } });
+
+    expect(getEffectiveCEXFees(takerOnly, 6000000)).toMatchObject({ makerFee: 0.08, takerFee: 0.2 });
+    expect(getEffectiveCEXFees(takerOnly, 6000000).tier?.minVolume30d).toBe(5000000);
+
+    const both = exchange({ feeTiers, makerFee: 0.15, takerFee: 0.2, feeSources: { makerFee: override, takerFee: override } });
+    expect(getEffectiveCEXFees(both, 6000000)).toEqual({ makerFee: 0.15, takerFee: 0.2, tier: null, tokenDiscount: null });
+  });
+});
+
+describe('getMarketCEXFees', () => {
+  it('ignores tiers and token discounts for futures', () => {
+    expect(getMarketCEXFees(exchange({ feeTiers }), 'futures', 6000000, true)).toEqual({
+      makerFee: 0.02,
+      takerFee: 0.05,
+      tier: null,
+      tokenDiscount: null,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { CEXFees, CEXFeeTier, MarketType } from '@/lib/types/exchange';
+
+/**
+ * VIP / Volume Fee Tiers
+ *
+ * Picks the fee tier a trader reaches with their 30-day volume.
+ * Tier fees that are unknown fall back to the exchange's base fees, which
+ * are the most a trader pays - never a made-up discount. Base fees set by a
+ * manual override are used at every volume.
+ *
+ * The exchange-token discount is only applied when the trader opts in
+ * (holds / pays fees with the exchange token) and the tier reports one.
+ */
+
+export interface EffectiveCEXFees {
+  makerFee: number | null;
+  takerFee: number | null;
+  tier: CEXFeeTier | null;  // null = base fees apply (no tiers or below the first threshold)
+  tokenDiscount: number | null; // Percent taken off makerFee/takerFee - null when not applied
+}
+
+/**
+ * Highest tier whose volume threshold is met
+ */
+export function getFeeTier(exchange: CEXFees, monthlyVolume: number): CEXFeeTier | null {
+  const tiers = exchange.feeTiers || [];
+  let reached: CEXFeeTier | null = null;
+
+  tiers.forEach(tier => {
+    if (tier.minVolume30d <= monthlyVolume && (!reached || tier.minVolume30d >= reached.minVolume30d)) {
+      reached = tier;
+    }
+  });
+
+  return reached;
+}
+
+function applyDiscount(fee: number | null, discount: number | null): number | null {
+  return fee !== null && discount !== null ? fee * (1 - discount / 100) : fee;
+}
+
+/**
+ * Maker/taker fees at the given 30-day volume (USD), with the exchange-token discount if requested
+ */
+export function getEffectiveCEXFees(
+  exchange: CEXFees,
+  monthlyVolume: number,
+  useTokenDiscount = false
+): EffectiveCEXFees {
+  const reachedTier = monthlyVolume > 0 ? getFeeTier(exchange, monthlyVolume) : null;
+  // Below every threshold the base (zero-volume) tier's discount applies
+  const discountTier = reachedTier ?? getFeeTier(exchange, 0);
+  const tokenDiscount = useTokenDiscount ? discountTier?.tokenDiscount ?? null : null;
+
+  // Manual overrides replace the base fees but not the provider's tier schedule - they win over it
+  const makerOverridden = exchange.feeSources?.makerFee?.provider === 'override';
+  const takerOverridden = exchange.feeSources?.takerFee?.provider === 'override';
+  const makerFee = makerOverridden ? exchange.makerFee : reachedTier?.makerFee ?? exchange.makerFee;
+  const takerFee = takerOverridden ? exchange.takerFee : reachedTier?.takerFee ?? exchange.takerFee;
+
+  return {
+    makerFee: applyDiscount(makerFee, tokenDiscount),
+    takerFee: applyDiscount(takerFee, tokenDiscount),
+    tier: makerOverridden && takerOverridden ? null : reachedTier,
+    tokenDiscount,
+  };
+}
+
+/**
+ * Maker/taker fees for the selected market - volume tiers and token discounts only cover spot
+ */
+export function getMarketCEXFees(
+  exchange: CEXFees,
+  marketType: MarketType,
+  monthlyVolume: number,
+  useTokenDiscount = false
+): EffectiveCEXFees {
+  if (marketType === 'futures') {
+    return {
+      makerFee: exchange.futuresMakerFee ?? null,
+      takerFee: exchange.futuresTakerFee ?? null,
+      tier: null,
+      tokenDiscount: null,
+    };
+  }
+
+  return getEffectiveCEXFees(exchange, monthlyVolume, useTokenDiscount);
+}
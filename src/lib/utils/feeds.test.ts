@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { SITE_URL } from '@/config/constants';
+import { FeeChange } from '@/lib/types/exchange';
+import { generateAtomFeed, generateRSSFeed } from './feeds';
+
+const changes: FeeChange[] = [
+  {
+    id: 'cex-a&b-delisted-2',
+    kind: 'delisted',
+    market: 'cex',
+    entityId: 'a&b',
+    entityName: 'A&B <Exchange>',
+    detectedAt: '2024-01-02T00:00:00.000Z',
+  },
+  {
+    id: 'dex-uniswap-swapFee-1',
+    kind: 'fee_changed',
+    market: 'dex',
+    entityId: 'uniswap',
+    entityName: 'Uniswap',
+    field: 'swapFee',
+    previousValue: 0.3,
+    currentValue: 0.25,
+    delta: -0.05,
+    detectedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+describe('generateRSSFeed', () => {
+  it('renders one escaped item per change', () => {
+    const feed = generateRSSFeed(changes);
+
+    expect(feed.match(/<item>/g)).toHaveLength(2);
+    expect(feed).toContain('<title>A&amp;B &lt;Exchange&gt; dropped out of the CEX top list</title>');
+    expect(feed).toContain(`<link>${SITE_URL}/</link>`); // Delisted exchanges link to the list page
+    expect(feed).toContain(`<link>${SITE_URL}/dex/uniswap</link>`);
+    expect(feed).toContain(`<lastBuildDate>${new Date('2024-01-02T00:00:00.000Z').toUTCString()}</lastBuildDate>`);
+  });
+});
+
+describe('generateAtomFeed', () => {
+  it('renders entries with stable ids and the newest change as updated time', () => {
+    const feed = generateAtomFeed(changes);
+
+    expect(feed.match(/<entry>/g)).toHaveLength(2);
+    expect(feed).toContain('<id>urn:cryptofees:change:dex-uniswap-swapFee-1</id>');
+    expect(feed).toContain('<summary>Uniswap swap fee changed from 0.3% to 0.25% (-0.05 pp)</summary>');
+    expect(feed).toContain('<updated>2024-01-02T00:00:00.000Z</updated>');
+  });
+
+  it('renders an empty feed without entries', () => {
+    expect(generateAtomFeed([])).not.toContain('<entry>');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * RSS 2.0 / Atom 1.0 feed generation for the fee changelog
+ */
+
+import { SITE_NAME, SITE_URL } from '@/config/constants';
+import { FeeChange } from '@/lib/types/exchange';
+import { describeFeeChange } from './fee-changes';
+
+const FEED_TITLE = `${SITE_NAME} - Fee Changes`;
+const FEED_DESCRIPTION = 'Exchange fee changes and top list movements detected between data refreshes';
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Link to the affected exchange's detail page, or the page listing its market
+// (delisted exchanges no longer have a detail page)
+function changeLink(change: FeeChange): string {
+  const listPath = change.market === 'dex' ? '/dex' : '/';
+  const detailPath = change.market === 'dex' ? '/dex' : '/exchange';
+
+  return change.kind === 'delisted'
+    ? `${SITE_URL}${listPath}`
+    : `${SITE_URL}${detailPath}/${encodeURIComponent(change.entityId)}`;
+}
+
+/**
+ * Generate an RSS 2.0 feed (changes newest first)
+ */
+export function generateRSSFeed(changes: FeeChange[]): string {
+  const lastBuildDate = new Date(changes[0]?.detectedAt || Date.now()).toUTCString();
+
+  const items = changes.map(change => `    <item>
+      <title>${escapeXML(describeFeeChange(change))}</title>
+      <link>${escapeXML(changeLink(change))}</link>
+      <guid isPermaLink="false">${escapeXML(change.id)}</guid>
+      <pubDate>${new Date(change.detectedAt).toUTCString()}</pubDate>
+      <category>${change.market.toUpperCase()}</category>
+      <description>${escapeXML(describeFeeChange(change))}</description>
+    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXML(FEED_TITLE)}</title>
+    <link>${escapeXML(SITE_URL)}</link>
+    <description>${escapeXML(FEED_DESCRIPTION)}</description>
+    <atom:link href="${escapeXML(`${SITE_URL}/api/changes/rss`)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${lastBuildDate}</lastBuildDate>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Generate an Atom 1.0 feed (changes newest first)
+ */
+export function generateAtomFeed(changes: FeeChange[]): string {
+  const updated = new Date(changes[0]?.detectedAt || Date.now()).toISOString();
+
+  const entries = changes.map(change => `  <entry>
+    <title>${escapeXML(describeFeeChange(change))}</title>
+    <link href="${escapeXML(changeLink(change))}" />
+    <id>urn:cryptofees:change:${escapeXML(change.id)}</id>
+    <updated>${new Date(change.detectedAt).toISOString()}</updated>
+    <category term="${change.market}" />
+    <summary>${escapeXML(describeFeeChange(change))}</summary>
+  </entry>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXML(FEED_TITLE)}</title>
+  <subtitle>${escapeXML(FEED_DESCRIPTION)}</subtitle>
+  <link href="${escapeXML(`${SITE_URL}/api/changes/atom`)}" rel="self" />
+  <link href="${escapeXML(SITE_URL)}" />
+  <id>${escapeXML(`${SITE_URL}/api/changes/atom`)}</id>
+  <updated>${updated}</updated>
+  <author><name>${escapeXML(SITE_NAME)}</name></author>
+${entries}
+</feed>
+`;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CEX_FILTERS,
+  DEFAULT_DEX_FILTERS,
+  parseCEXFilterQuery,
+  parseDEXFilterQuery,
+  toCEXFilterQuery,
+  toDEXFilterQuery,
+} from './filter-params';
+
+describe('parseCEXFilterQuery', () => {
+  it('returns the defaults for an empty query', () => {
+    expect(parseCEXFilterQuery({})).toEqual(DEFAULT_CEX_FILTERS);
+  });
+
+  it('reads search, sort and market and uses the sort option default direction', () => {
+    const filters = parseCEXFilterQuery({ q: 'bin', sort: 'takerFee', market: 'futures', show: '30' });
+
+    expect(filters.searchQuery).toBe('bin');
+    expect(filters.sortBy).toBe('takerFee');
+    expect(filters.sortDirection).toBe('asc');
+    expect(filters.marketType).toBe('futures');
+    expect(filters.showCount).toBe(30);
+  });
+
+  it('ignores invalid values', () => {
+    const filters = parseCEXFilterQuery({ sort: 'price', dir: 'up', market: 'options', show: '2', volume: 'lots' });
+
+    expect(filters).toEqual(DEFAULT_CEX_FILTERS);
+  });
+});
+
+describe('toCEXFilterQuery', () => {
+  it('writes only values that differ from the defaults', () => {
+    expect(toCEXFilterQuery(DEFAULT_CEX_FILTERS)).toEqual({});
+    expect(toCEXFilterQuery({ ...DEFAULT_CEX_FILTERS, sortBy: 'takerFee', sortDirection: 'asc', searchQuery: 'bin' })).toEqual({
+      q: 'bin',
+      sort: 'takerFee',
+    });
+    expect(toCEXFilterQuery({ ...DEFAULT_CEX_FILTERS, sortBy: 'takerFee', sortDirection: 'desc' })).toEqual({
+      sort: 'takerFee',
+      dir: 'desc',
+    });
+  });
+
+  it('round-trips through the parser', () => {
+    const filters = { ...DEFAULT_CEX_FILTERS, searchQuery: 'kra', sortBy: 'volume' as const, sortDirection: 'asc' as const, showCount: 20 };
+
+    expect(parseCEXFilterQuery(toCEXFilterQuery(filters))).toEqual(filters);
+  });
+});
+
+describe('advanced CEX filters', () => {
+  it('parses and clamps trust, fee and year bounds', () => {
+    const filters = parseCEXFilterQuery({ minTrust: '12', maxMaker: '0.1', maxTaker: '-1', yearFrom: '2015', hasFees: '1' });
+
+    expect(filters.minTrustScore).toBe(10);
+    expect(filters.maxMakerFee).toBe(0.1);
+    expect(filters.maxTakerFee).toBe(0);
+    expect(filters.minYearEstablished).toBe(2015);
+    expect(filters.maxYearEstablished).toBeNull();
+    expect(filters.onlyWithFeeData).toBe(true);
+  });
+
+  it('reads countries from a comma list or repeated params without duplicates', () => {
+    expect(parseCEXFilterQuery({ country: 'Malta, Japan,,Malta' }).countries).toEqual(['Malta', 'Japan']);
+    expect(parseCEXFilterQuery({ country: ['Malta', 'Japan'] }).countries).toEqual(['Malta', 'Japan']);
+  });
+
+  it('round-trips through the parser', () => {
+    const filters = {
+      ...DEFAULT_CEX_FILTERS,
+      minTrustScore: 7,
+      maxTakerFee: 0.1,
+      countries: ['Malta', 'Japan'],
+      onlyWithFeeData: true,
+      maxYearEstablished: 2020,
+    };
+
+    expect(toCEXFilterQuery(filters)).toEqual({ minTrust: '7', maxTaker: '0.1', country: 'Malta,Japan', hasFees: '1', yearTo: '2020' });
+    expect(parseCEXFilterQuery(toCEXFilterQuery(filters))).toEqual(filters);
+  });
+});
+
+describe('DEX filter query', () => {
+  it('returns the defaults for an empty query', () => {
+    expect(parseDEXFilterQuery({})).toEqual(DEFAULT_DEX_FILTERS);
+    expect(toDEXFilterQuery(DEFAULT_DEX_FILTERS)).toEqual({});
+  });
+
+  it('keeps only known protocols and non-negative minimums', () => {
+    const filters = parseDEXFilterQuery({ chain: 'Arbitrum,Base', protocol: 'AMM,Bonding Curve', minTvl: '-5', minVolume: 'many' });
+
+    expect(filters.chains).toEqual(['Arbitrum', 'Base']);
+    expect(filters.protocols).toEqual(['AMM']);
+    expect(filters.minLiquidityUSD).toBe(0);
+    expect(filters.minVolume24h).toBeNull();
+  });
+
+  it('round-trips through the parser', () => {
+    const filters = {
+      ...DEFAULT_DEX_FILTERS,
+      sortBy: 'swapFee' as const,
+      sortDirection: 'asc' as const,
+      chains: ['Arbitrum'],
+      protocols: ['AMM' as const, 'Aggregator' as const],
+      minLiquidityUSD: 1000000,
+      onlyWithSwapFee: true,
+    };
+
+    expect(toDEXFilterQuery(filters)).toEqual({ sort: 'swapFee', chain: 'Arbitrum', protocol: 'AMM,Aggregator', minTvl: '1000000', hasFee: '1' });
+    expect(parseDEXFilterQuery(toDEXFilterQuery(filters))).toEqual(filters);
+  });
+});
@@ -0,0 +1,151 @@
+import { ParsedUrlQuery } from 'querystring';
+import { DEX_PROTOCOLS, INITIAL_DISPLAY_COUNT } from '@/config/constants';
+import { CEXAdvancedFilters, DEXAdvancedFilters, DEXFees, DEXFilterState, FilterState } from '@/lib/types/exchange';
+import {
+  getDefaultCEXSortDirection,
+  getDefaultDEXSortDirection,
+  isCEXSortOption,
+  isDEXSortOption,
+} from './sorting';
+
+/**
+ * List Filters <-> Query String
+ *
+ * Filter and sort state of the CEX and DEX list pages is kept in the URL
+ * (e.g. /?q=bin&sort=takerFee&minTrust=7) so a filtered view can be bookmarked and shared.
+ * Only values that differ from the defaults are written; unknown or invalid
+ * values are ignored when parsing.
+ */
+
+export type FilterQuery = Record<string, string>;
+
+export const DEFAULT_CEX_ADVANCED_FILTERS: CEXAdvancedFilters = {
+  minTrustScore: 0,
+  maxMakerFee: null,
+  maxTakerFee: null,
+  countries: [],
+  onlyWithFeeData: false,
+  minYearEstablished: null,
+  maxYearEstablished: null,
+};
+
+export const DEFAULT_CEX_FILTERS: FilterState = {
+  ...DEFAULT_CEX_ADVANCED_FILTERS,
+  searchQuery: '',
+  sortBy: 'trustScore',
+  sortDirection: 'desc',
+  marketType: 'spot',
+  monthlyVolume: 0,
+  useTokenDiscount: false,
+  showCount: INITIAL_DISPLAY_COUNT,
+};
+
+export const DEFAULT_DEX_ADVANCED_FILTERS: DEXAdvancedFilters = {
+  chains: [],
+  protocols: [],
+  minLiquidityUSD: null,
+  minVolume24h: null,
+  onlyWithSwapFee: false,
+};
+
+export const DEFAULT_DEX_FILTERS: DEXFilterState = {
+  ...DEFAULT_DEX_ADVANCED_FILTERS,
+  searchQuery: '',
+  sortBy: 'liquidity',
+  sortDirection: 'desc',
+  showCount: INITIAL_DISPLAY_COUNT,
+};
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseNumber(value: string | string[] | undefined, min: number, max: number): number | null {
+  const parsed = Number(first(value));
+  if (first(value) === undefined || !Number.isFinite(parsed)) return null;
+  return Math.min(Math.max(parsed, min), max);
+}
+
+function parseList(value: string | string[] | undefined): string[] {
+  const list = Array.isArray(value) ? value.join(',') : value || '';
+  return Array.from(new Set(list.split(',').map(item => item.trim()).filter(Boolean)));
+}
+
+function parseDirection(value: string | string[] | undefined) {
+  const direction = first(value);
+  return direction === 'asc' || direction === 'desc' ? direction : null;
+}
+
+export function parseCEXFilterQuery(query: ParsedUrlQuery): FilterState {
+  const sort = first(query.sort);
+  const sortBy = sort && isCEXSortOption(sort) ? sort : DEFAULT_CEX_FILTERS.sortBy;
+
+  return {
+    searchQuery: first(query.q) || '',
+    sortBy,
+    sortDirection: parseDirection(query.dir) || getDefaultCEXSortDirection(sortBy),
+    marketType: first(query.market) === 'futures' ? 'futures' : 'spot',
+    monthlyVolume: parseNumber(query.volume, 0, Number.MAX_SAFE_INTEGER) ?? 0,
+    useTokenDiscount: first(query.token) === '1',
+    showCount: Math.round(parseNumber(query.show, INITIAL_DISPLAY_COUNT, Number.MAX_SAFE_INTEGER) ?? INITIAL_DISPLAY_COUNT),
+    minTrustScore: parseNumber(query.minTrust, 0, 10) ?? 0,
+    maxMakerFee: parseNumber(query.maxMaker, 0, 100),
+    maxTakerFee: parseNumber(query.maxTaker, 0, 100),
+    countries: parseList(query.country),
+    onlyWithFeeData: first(query.hasFees) === '1',
+    minYearEstablished: parseNumber(query.yearFrom, 0, 9999),
+    maxYearEstablished: parseNumber(query.yearTo, 0, 9999),
+  };
+}
+
+export function toCEXFilterQuery(filters: FilterState): FilterQuery {
+  const query: FilterQuery = {};
+  if (filters.searchQuery) query.q = filters.searchQuery;
+  if (filters.sortBy !== DEFAULT_CEX_FILTERS.sortBy) query.sort = filters.sortBy;
+  if (filters.sortDirection !== getDefaultCEXSortDirection(filters.sortBy)) query.dir = filters.sortDirection;
+  if (filters.marketType !== DEFAULT_CEX_FILTERS.marketType) query.market = filters.marketType;
+  if (filters.monthlyVolume > 0) query.volume = String(filters.monthlyVolume);
+  if (filters.useTokenDiscount) query.token = '1';
+  if (filters.showCount > INITIAL_DISPLAY_COUNT) query.show = String(filters.showCount);
+  if (filters.minTrustScore > 0) query.minTrust = String(filters.minTrustScore);
+  if (filters.maxMakerFee !== null) query.maxMaker = String(filters.maxMakerFee);
+  if (filters.maxTakerFee !== null) query.maxTaker = String(filters.maxTakerFee);
+  if (filters.countries.length > 0) query.country = filters.countries.join(',');
+  if (filters.onlyWithFeeData) query.hasFees = '1';
+  if (filters.minYearEstablished !== null) query.yearFrom = String(filters.minYearEstablished);
+  if (filters.maxYearEstablished !== null) query.yearTo = String(filters.maxYearEstablished);
+  return query;
+}
+
+export function parseDEXFilterQuery(query: ParsedUrlQuery): DEXFilterState {
+  const sort = first(query.sort);
+  const sortBy = sort && isDEXSortOption(sort) ? sort : DEFAULT_DEX_FILTERS.sortBy;
+
+  return {
+    searchQuery: first(query.q) || '',
+    sortBy,
+    sortDirection: parseDirection(query.dir) || getDefaultDEXSortDirection(sortBy),
+    showCount: Math.round(parseNumber(query.show, INITIAL_DISPLAY_COUNT, Number.MAX_SAFE_INTEGER) ?? INITIAL_DISPLAY_COUNT),
+    chains: parseList(query.chain),
+    protocols: parseList(query.protocol).filter(
+      (protocol): protocol is DEXFees['protocol'] => (DEX_PROTOCOLS as readonly string[]).includes(protocol)
+    ),
+    minLiquidityUSD: parseNumber(query.minTvl, 0, Number.MAX_SAFE_INTEGER),
+    minVolume24h: parseNumber(query.minVolume, 0, Number.MAX_SAFE_INTEGER),
+    onlyWithSwapFee: first(query.hasFee) === '1',
+  };
+}
+
+export function toDEXFilterQuery(filters: DEXFilterState): FilterQuery {
+  const query: FilterQuery = {};
+  if (filters.searchQuery) query.q = filters.searchQuery;
+  if (filters.sortBy !== DEFAULT_DEX_FILTERS.sortBy) query.sort = filters.sortBy;
+  if (filters.sortDirection !== getDefaultDEXSortDirection(filters.sortBy)) query.dir = filters.sortDirection;
+  if (filters.showCount > INITIAL_DISPLAY_COUNT) query.show = String(filters.showCount);
+  if (filters.chains.length > 0) query.chain = filters.chains.join(',');
+  if (filters.protocols.length > 0) query.protocol = filters.protocols.join(',');
+  if (filters.minLiquidityUSD !== null) query.minTvl = String(filters.minLiquidityUSD);
+  if (filters.minVolume24h !== null) query.minVolume = String(filters.minVolume24h);
+  if (filters.onlyWithSwapFee) query.hasFee = '1';
+  return query;
+}
@@ -45,6 +45,13 @@ export function formatUSD(amount: number): string {
   }).format(amount);
 }
 
+// Format a coin amount - more decimals for small values (e.g. 0.00012345 BTC)
+export function formatAmount(amount: number): string {
+  if (amount === 0) return '0';
+  const decimals = Math.abs(amount) >= 1 ? 4 : 8;
+  return parseFloat(amount.toFixed(decimals)).toString();
+}
+
 // Format large numbers
 export function formatNumber(num: number): string {
   return new Intl.NumberFormat('en-US').format(num);
@@ -77,6 +84,24 @@ export function formatRelativeTime(dateString: string): string {
   return `${diffDays} day${diffDays > 1 ? 's' : ''} ago`;
 }
 
+// Format fee provider name for provenance tooltips ('ai:gemini' -> 'AI (gemini)')
+export function formatFeeProvider(provider: string): string {
+  const [name, detail] = provider.split(':');
+  const labels: { [name: string]: string } = {
+    ai: 'AI',
+    static: 'Static fee file',
+    override: 'Manual override',
+  };
+  const label = labels[name] || name;
+  return detail ? `${label} (${detail})` : label;
+}
+
+// Format 0-1 confidence score as percentage
+export function formatConfidence(confidence: number | null): string {
+  if (confidence === null) return 'Not reported';
+  return `${Math.round(confidence * 100)}%`;
+}
+
 // Truncate text
 export function truncate(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -1,5 +1,6 @@
 import { CEXFees, DEXFees } from '@/lib/types/exchange';
 import { CoinGeckoExchange } from '@/lib/types/api';
+import { DEFILLAMA_PROTOCOL_URL } from '@/config/constants';
 
 /**
  * Normalize combined exchange data (CMC + CoinGecko)
@@ -15,6 +16,10 @@ export function normalizeCombinedExchangeData(rawData: any): CEXFees {
     takerFee: null, // Placeholder: Fee data not available
     withdrawalFees: {}, // Placeholder: Will be populated from dedicated fee sources
     depositFees: {}, // Placeholder: Will be populated from dedicated fee sources
+    futuresMakerFee: null, // Placeholder: Derivatives fees come from dedicated fee sources
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
     trustScore: rawData.trust_score || 0,
     volume24h: rawData.spot_volume_usd || 0, // Use real USD volume only, no fake conversions
     yearEstablished: rawData.date_launched ? new Date(rawData.date_launched).getFullYear() : 
@@ -39,6 +44,10 @@ export function normalizeCEXData(rawData: CoinGeckoExchange): CEXFees {
     takerFee: null, // Placeholder: Fee data not available from CoinGecko
     withdrawalFees: {}, // Placeholder: Will be populated from dedicated fee sources
     depositFees: {}, // Placeholder: Will be populated from dedicated fee sources
+    futuresMakerFee: null, // Placeholder: Derivatives fees come from dedicated fee sources
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
     trustScore: rawData.trust_score || 0,
     volume24h: 0, // CoinGecko BTC volume not converted - need USD volume source
     yearEstablished: rawData.year_established,
@@ -64,6 +73,7 @@ export function normalizeDEXData(rawData: any): DEXFees {
     liquidityUSD: rawData.liquidityUSD || 0, // Real liquidity data from DeFiLlama
     volume24h: rawData.volume24h || rawData.total24h || 0, // Use real USD volume from DeFiLlama
     url: rawData.url || '', // Only use real URLs from API, no fake URLs
+    defiLlamaUrl: rawData.slug ? `${DEFILLAMA_PROTOCOL_URL}/${rawData.slug}` : null,
     lastUpdated: new Date().toISOString(),
   };
 }
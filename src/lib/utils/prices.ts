@@ -0,0 +1,35 @@
+import { fetchUSDPriceBySymbol } from '@/lib/api/coingecko';
+import { getCacheStore } from '@/lib/cache';
+import { isCacheValid } from './cache-optimizer';
+
+/**
+ * Coin USD Prices
+ *
+ * Used to convert coin-denominated withdrawal fees to USD.
+ * Prices are cached for PRICE_CACHE_DURATION in the cache store.
+ */
+
+const PRICE_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Get the USD price for a coin symbol - null when unavailable
+ */
+export async function getUSDPrice(symbol: string): Promise<number | null> {
+  const store = await getCacheStore();
+  const key = `price-${symbol.toUpperCase()}`;
+
+  const cached = await store.get<number | null>(key);
+  if (cached && isCacheValid(cached.timestamp, PRICE_CACHE_DURATION)) {
+    return cached.data;
+  }
+
+  try {
+    const price = await fetchUSDPriceBySymbol(symbol);
+    await store.set(key, { data: price, timestamp: Date.now() });
+    return price;
+  } catch (error) {
+    console.error(`❌ Failed to fetch USD price for ${symbol}:`, error instanceof Error ? error.message : error);
+    // Fall back to the last known price rather than dropping the conversion
+    return cached?.data ?? null;
+  }
+}
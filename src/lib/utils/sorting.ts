@@ -1,60 +1,111 @@
-import { CEXFees, DEXFees, SortOption } from '@/lib/types/exchange';
+import { CEXAdvancedFilters, CEXFees, DEXAdvancedFilters, DEXFees, DEXSortOption, SortDirection, SortOption } from '@/lib/types/exchange';
+import { getCheapestWithdrawal } from './withdrawal-fees';
 
-export function sortCEXExchanges(exchanges: CEXFees[], sortBy: SortOption): CEXFees[] {
-  const sorted = [...exchanges];
+type SortValue = number | string | null;
 
-  switch (sortBy) {
+// Fees an exchange is ranked by - defaults to the base spot fees
+type FeeGetter = (exchange: CEXFees) => { makerFee: number | null; takerFee: number | null };
+
+// Direction a sort starts in - fees cheapest first, scores and volume highest first
+const CEX_DEFAULT_DIRECTIONS: Record<SortOption, SortDirection> = {
+  rank: 'asc',
+  name: 'asc',
+  makerFee: 'asc',
+  takerFee: 'asc',
+  volume: 'desc',
+  trustScore: 'desc',
+  country: 'asc',
+  withdrawalBTC: 'asc',
+  withdrawalETH: 'asc',
+  withdrawalUSDT: 'asc',
+};
+
+const DEX_DEFAULT_DIRECTIONS: Record<DEXSortOption, SortDirection> = {
+  name: 'asc',
+  swapFee: 'asc',
+  volume: 'desc',
+  liquidity: 'desc',
+};
+
+export function isCEXSortOption(value: string): value is SortOption {
+  return Object.prototype.hasOwnProperty.call(CEX_DEFAULT_DIRECTIONS, value);
+}
+
+export function isDEXSortOption(value: string): value is DEXSortOption {
+  return Object.prototype.hasOwnProperty.call(DEX_DEFAULT_DIRECTIONS, value);
+}
+
+export function getDefaultCEXSortDirection(sortBy: SortOption): SortDirection {
+  return CEX_DEFAULT_DIRECTIONS[sortBy];
+}
+
+export function getDefaultDEXSortDirection(sortBy: DEXSortOption): SortDirection {
+  return DEX_DEFAULT_DIRECTIONS[sortBy];
+}
+
+// Handle null values - put null values at the end in either direction
+function compareValues(a: SortValue, b: SortValue, direction: SortDirection): number {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const result = typeof a === 'string' || typeof b === 'string'
+    ? String(a).localeCompare(String(b))
+    : a - b;
+  return direction === 'asc' ? result : -result;
+}
+
+function sortBy<T>(items: T[], value: (item: T) => SortValue, direction: SortDirection): T[] {
+  return [...items].sort((a, b) => compareValues(value(a), value(b), direction));
+}
+
+export function sortCEXExchanges(
+  exchanges: CEXFees[],
+  sortOption: SortOption,
+  direction: SortDirection = getDefaultCEXSortDirection(sortOption),
+  feesOf: FeeGetter = exchange => exchange
+): CEXFees[] {
+  switch (sortOption) {
     case 'name':
-      return sorted.sort((a, b) => a.exchangeName.localeCompare(b.exchangeName));
+      return sortBy(exchanges, e => e.exchangeName, direction);
     case 'makerFee':
-      return sorted.sort((a, b) => {
-        // Handle null values - put null values at the end
-        if (a.makerFee === null && b.makerFee === null) return 0;
-        if (a.makerFee === null) return 1;
-        if (b.makerFee === null) return -1;
-        return a.makerFee - b.makerFee;
-      });
+      return sortBy(exchanges, e => feesOf(e).makerFee, direction);
     case 'takerFee':
-      return sorted.sort((a, b) => {
-        // Handle null values - put null values at the end
-        if (a.takerFee === null && b.takerFee === null) return 0;
-        if (a.takerFee === null) return 1;
-        if (b.takerFee === null) return -1;
-        return a.takerFee - b.takerFee;
-      });
+      return sortBy(exchanges, e => feesOf(e).takerFee, direction);
     case 'volume':
-      return sorted.sort((a, b) => b.volume24h - a.volume24h);
+      return sortBy(exchanges, e => e.volume24h, direction);
     case 'trustScore':
-      return sorted.sort((a, b) => b.trustScore - a.trustScore);
+      return sortBy(exchanges, e => e.trustScore, direction);
+    case 'country':
+      return sortBy(exchanges, e => (e.country && e.country !== 'Unknown' ? e.country : null), direction);
+    case 'withdrawalBTC':
+    case 'withdrawalETH':
+    case 'withdrawalUSDT': {
+      // Cheapest open network for the coin
+      const coin = sortOption.replace('withdrawal', '');
+      return sortBy(exchanges, e => getCheapestWithdrawal(e, coin)?.fee.fee ?? null, direction);
+    }
     case 'rank':
     default:
-      return sorted; // Keep original order
+      return direction === 'asc' ? [...exchanges] : [...exchanges].reverse(); // Keep original order
   }
 }
 
 export function sortDEXExchanges(
   dexes: DEXFees[],
-  sortBy: 'name' | 'swapFee' | 'volume' | 'liquidity'
+  sortOption: DEXSortOption,
+  direction: SortDirection = getDefaultDEXSortDirection(sortOption)
 ): DEXFees[] {
-  const sorted = [...dexes];
-
-  switch (sortBy) {
+  switch (sortOption) {
     case 'name':
-      return sorted.sort((a, b) => a.dexName.localeCompare(b.dexName));
+      return sortBy(dexes, d => d.dexName, direction);
     case 'swapFee':
-      return sorted.sort((a, b) => {
-        // Handle null values - put null values at the end
-        if (a.swapFee === null && b.swapFee === null) return 0;
-        if (a.swapFee === null) return 1;
-        if (b.swapFee === null) return -1;
-        return a.swapFee - b.swapFee;
-      });
+      return sortBy(dexes, d => d.swapFee, direction);
     case 'volume':
-      return sorted.sort((a, b) => b.volume24h - a.volume24h);
+      return sortBy(dexes, d => d.volume24h, direction);
     case 'liquidity':
-      return sorted.sort((a, b) => b.liquidityUSD - a.liquidityUSD);
+      return sortBy(dexes, d => d.liquidityUSD, direction);
     default:
-      return sorted;
+      return [...dexes];
   }
 }
 
@@ -70,3 +121,61 @@ export function filterExchangesBySearch<T extends { exchangeName?: string; dexNa
     return name.includes(query);
   });
 }
+
+// Fees/years that are unknown never pass a bound - the exchange can't be shown to meet it
+function withinMax(value: number | null, max: number | null): boolean {
+  return max === null || (value !== null && value <= max);
+}
+
+function withinMin(value: number | null, min: number | null): boolean {
+  return min === null || (value !== null && value >= min);
+}
+
+/**
+ * Apply the advanced CEX filters - fee bounds use the fees of the selected market
+ */
+export function filterCEXExchanges(
+  exchanges: CEXFees[],
+  filters: CEXAdvancedFilters,
+  feesOf: FeeGetter = exchange => exchange
+): CEXFees[] {
+  return exchanges.filter(exchange => {
+    const { makerFee, takerFee } = feesOf(exchange);
+
+    if (exchange.trustScore < filters.minTrustScore) return false;
+    if (!withinMax(makerFee, filters.maxMakerFee) || !withinMax(takerFee, filters.maxTakerFee)) return false;
+    if (filters.countries.length > 0 && !filters.countries.includes(exchange.country)) return false;
+    if (filters.onlyWithFeeData && (makerFee === null || takerFee === null)) return false;
+    if (!withinMin(exchange.yearEstablished, filters.minYearEstablished)) return false;
+    if (!withinMax(exchange.yearEstablished, filters.maxYearEstablished)) return false;
+
+    return true;
+  });
+}
+
+/**
+ * Countries present in the CEX data, for the country filter
+ */
+export function getCEXCountries(exchanges: CEXFees[]): string[] {
+  const countries = exchanges
+    .map(exchange => exchange.country)
+    .filter(country => country && country !== 'Unknown');
+  return Array.from(new Set(countries)).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Apply the advanced DEX filters - chains match case-insensitively
+ */
+export function filterDEXExchanges(dexes: DEXFees[], filters: DEXAdvancedFilters): DEXFees[] {
+  const chains = filters.chains.map(chain => chain.toLowerCase());
+
+  return dexes.filter(dex => {
+    if (chains.length > 0 && !dex.blockchain.some(chain => chains.includes(chain.toLowerCase()))) return false;
+    if (filters.protocols.length > 0 && !filters.protocols.includes(dex.protocol)) return false;
+    if (!withinMin(dex.liquidityUSD, filters.minLiquidityUSD)) return false;
+    if (!withinMin(dex.volume24h, filters.minVolume24h)) return false;
+    if (filters.onlyWithSwapFee && dex.swapFee === null) return false;
+
+    return true;
+  });
+}
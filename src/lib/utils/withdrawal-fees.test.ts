@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { CEXFees, WithdrawalFees } from '@/lib/types/exchange';
+import { getCheapestWithdrawal, getWithdrawalFee, mergeWithdrawalFees, normalizeNetwork } from './withdrawal-fees';
+
+function exchange(withdrawalFees: WithdrawalFees): CEXFees {
+  return {
+    exchangeId: 'binance',
+    exchangeName: 'Binance',
+    logo: '',
+    makerFee: null,
+    takerFee: null,
+    withdrawalFees,
+    depositFees: {},
+    trustScore: 10,
+    volume24h: 0,
+    yearEstablished: null,
+    country: 'Unknown',
+    url: '',
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    futuresMakerFee: null,
+    futuresTakerFee: null,
+    fundingRate: null,
+    marginBorrowRate: null,
+  };
+}
+
+const fee = (amount: number, enabled = true) => ({ fee: amount, minWithdrawal: null, enabled });
+
+describe('normalizeNetwork', () => {
+  it('maps exchange network names to chain names', () => {
+    expect(normalizeNetwork('ERC-20')).toBe('Ethereum');
+    expect(normalizeNetwork('bep20')).toBe('BSC');
+    expect(normalizeNetwork('Arbitrum One')).toBe('Arbitrum');
+    expect(normalizeNetwork('AVAX C-Chain')).toBe('Avalanche');
+  });
+
+  it('keeps unknown names as given', () => {
+    expect(normalizeNetwork(' Kaspa ')).toBe('Kaspa');
+  });
+});
+
+describe('mergeWithdrawalFees', () => {
+  it('merges per coin and network with the update winning', () => {
+    const merged = mergeWithdrawalFees(
+      { USDT: { Ethereum: fee(5), Tron: fee(1) }, BTC: { Bitcoin: fee(0.0005) } },
+      { USDT: { Tron: fee(0.8), Solana: fee(0.5) } }
+    );
+
+    expect(merged).toEqual({
+      USDT: { Ethereum: fee(5), Tron: fee(0.8), Solana: fee(0.5) },
+      BTC: { Bitcoin: fee(0.0005) },
+    });
+    expect(mergeWithdrawalFees(undefined, { BTC: { Bitcoin: fee(0.0002) } })).toEqual({ BTC: { Bitcoin: fee(0.0002) } });
+  });
+});
+
+describe('getWithdrawalFee', () => {
+  it('matches the coin case-insensitively and the network after normalization', () => {
+    const binance = exchange({ USDT: { Tron: fee(1) } });
+
+    expect(getWithdrawalFee(binance, 'usdt', 'TRC20')).toEqual(fee(1));
+    expect(getWithdrawalFee(binance, 'USDT', 'Ethereum')).toBeNull();
+    expect(getWithdrawalFee(binance, 'BTC', 'Bitcoin')).toBeNull();
+  });
+});
+
+describe('getCheapestWithdrawal', () => {
+  it('picks the cheapest enabled network', () => {
+    const binance = exchange({ USDT: { Ethereum: fee(5), Tron: fee(1), Solana: fee(0.1, false) } });
+
+    expect(getCheapestWithdrawal(binance, 'usdt')).toEqual({ network: 'Tron', fee: fee(1) });
+  });
+
+  it('returns null without an open network', () => {
+    expect(getCheapestWithdrawal(exchange({ USDT: { Solana: fee(0.1, false) } }), 'USDT')).toBeNull();
+    expect(getCheapestWithdrawal(exchange({}), 'USDT')).toBeNull();
+  });
+});
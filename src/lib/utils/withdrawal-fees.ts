@@ -0,0 +1,88 @@
+import { CEXFees, WithdrawalFees, WithdrawalNetworkFee } from '@/lib/types/exchange';
+
+/**
+ * Per-Network Withdrawal Fees
+ *
+ * Exchanges name networks differently (ERC20, ERC-20, Ethereum...).
+ * Network names are normalized to the chain names used for DEX data so a
+ * withdrawal network can be matched against the chain a user holds funds on.
+ */
+
+const NETWORK_ALIASES: { [key: string]: string } = {
+  ERC20: 'Ethereum',
+  ETH: 'Ethereum',
+  ETHEREUM: 'Ethereum',
+  TRC20: 'Tron',
+  TRX: 'Tron',
+  TRON: 'Tron',
+  BEP20: 'BSC',
+  BSC: 'BSC',
+  BNB: 'BSC',
+  BNBSMARTCHAIN: 'BSC',
+  SOL: 'Solana',
+  SPL: 'Solana',
+  SOLANA: 'Solana',
+  MATIC: 'Polygon',
+  POL: 'Polygon',
+  POLYGON: 'Polygon',
+  ARB: 'Arbitrum',
+  ARBITRUM: 'Arbitrum',
+  ARBITRUMONE: 'Arbitrum',
+  OP: 'Optimism',
+  OPTIMISM: 'Optimism',
+  BASE: 'Base',
+  AVAXC: 'Avalanche',
+  AVAXCCHAIN: 'Avalanche',
+  AVALANCHE: 'Avalanche',
+  AVALANCHECCHAIN: 'Avalanche',
+  BTC: 'Bitcoin',
+  BITCOIN: 'Bitcoin',
+  LIGHTNING: 'Lightning',
+  LN: 'Lightning',
+};
+
+/**
+ * Normalize an exchange's network name - unknown names are kept as given
+ */
+export function normalizeNetwork(network: string): string {
+  const trimmed = network.trim();
+  return NETWORK_ALIASES[trimmed.toUpperCase().replace(/[\s\-_()]/g, '')] || trimmed;
+}
+
+/**
+ * Merge withdrawal fees per coin and network - update wins
+ */
+export function mergeWithdrawalFees(base: WithdrawalFees | undefined, update: WithdrawalFees): WithdrawalFees {
+  const merged: WithdrawalFees = { ...base };
+  Object.entries(update).forEach(([coin, networks]) => {
+    merged[coin] = { ...merged[coin], ...networks };
+  });
+  return merged;
+}
+
+/**
+ * Withdrawal fee for a coin on a network (network matched after normalization)
+ */
+export function getWithdrawalFee(exchange: CEXFees, coin: string, network: string): WithdrawalNetworkFee | null {
+  const networks = exchange.withdrawalFees[coin.toUpperCase()] || {};
+  return networks[normalizeNetwork(network)] ?? null;
+}
+
+/**
+ * Cheapest enabled network for a coin - null when the exchange has no open network with data
+ */
+export function getCheapestWithdrawal(
+  exchange: CEXFees,
+  coin: string
+): { network: string; fee: WithdrawalNetworkFee } | null {
+  const networks = exchange.withdrawalFees[coin.toUpperCase()] || {};
+  let cheapest: { network: string; fee: WithdrawalNetworkFee } | null = null;
+
+  Object.entries(networks).forEach(([network, fee]) => {
+    if (fee.enabled && (!cheapest || fee.fee < cheapest.fee.fee)) {
+      cheapest = { network, fee };
+    }
+  });
+
+  return cheapest;
+}
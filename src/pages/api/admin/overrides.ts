@@ -0,0 +1,112 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { requireAdmin } from '@/lib/utils/admin-auth';
+import {
+  canPersistFeeOverrideEdits,
+  getFeeOverrideEdits,
+  getFeeOverrides,
+  isOverrideActive,
+  parseFeeOverride,
+  removeFeeOverride,
+  setFeeOverride,
+} from '@/lib/utils/fee-overrides';
+
+/**
+ * Fee Overrides Admin API
+ *
+ * Requires Authorization: Bearer <ADMIN_API_TOKEN>
+ *
+ * Usage:
+ * - GET /api/admin/overrides - list overrides (?market=cex|dex)
+ * - POST /api/admin/overrides - add/replace { market, id, reason, expiresAt?, sourceUrl?, ...fee fields }
+ *   CEX fee fields: makerFee, takerFee, withdrawalFees ({ coin: { network: { fee, minWithdrawal?, enabled? } } }), depositFees
+ *   DEX fee fields: swapFee, gasFeeEstimate
+ * - DELETE /api/admin/overrides?market=cex&id=binance - remove an override
+ *
+ * Changes are stored in the cache store on top of FEE_OVERRIDES_FILE, which is
+ * never written. POST and DELETE return 409 unless CACHE_STORE is file or sqlite.
+ * Listed overrides marked `edited` exist only in the cache store - copy them into
+ * the file to keep them in git.
+ */
+
+function parseMarket(value: unknown): 'cex' | 'dex' | null {
+  return value === 'cex' || value === 'dex' ? value : null;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    if (req.method === 'GET') {
+      const market = parseMarket(req.query.market);
+      const [overrides, edits] = await Promise.all([getFeeOverrides(), getFeeOverrideEdits()]);
+      const list = (type: 'cex' | 'dex') => Object.entries(overrides[type]).map(([id, override]) => ({
+        id,
+        ...override,
+        active: isOverrideActive(override),
+        edited: id in edits[type],
+      }));
+
+      return res.status(200).json({
+        cex: market === 'dex' ? undefined : list('cex'),
+        dex: market === 'cex' ? undefined : list('dex'),
+      });
+    }
+
+    if (!await canPersistFeeOverrideEdits()) {
+      return res.status(409).json({
+        error: 'Override edits need a persistent cache store',
+        message: 'The in-memory cache store loses edits on restart and is not shared between instances. Set CACHE_STORE=file or CACHE_STORE=sqlite, or edit FEE_OVERRIDES_FILE and redeploy.',
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const market = parseMarket(req.query.market);
+      const id = typeof req.query.id === 'string' ? req.query.id : '';
+
+      if (!market || !id) {
+        return res.status(400).json({ error: 'market (cex|dex) and id are required' });
+      }
+
+      const removed = await removeFeeOverride(market, id);
+      if (!removed) {
+        return res.status(404).json({ error: `No override for ${market}/${id}` });
+      }
+
+      return res.status(200).json({ success: true, market, id });
+    }
+
+    // POST
+    const body = typeof req.body === 'object' && req.body !== null ? req.body : {};
+    const market = parseMarket(body.market);
+    const id = typeof body.id === 'string' ? body.id.trim() : '';
+
+    if (!market || !id) {
+      return res.status(400).json({ error: 'market (cex|dex) and id are required' });
+    }
+
+    const { override, issues } = parseFeeOverride(market, id, body);
+    if (!override) {
+      return res.status(400).json({ error: 'Invalid override', issues });
+    }
+
+    await setFeeOverride(market, id, override);
+
+    return res.status(201).json({ success: true, market, id, override });
+  } catch (error) {
+    console.error('Fee Overrides Admin Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
@@ -1,4 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { getValidationStats } from '@/lib/api/ai-validation';
+import { getFeeProviders } from '@/lib/providers';
+import { getLLMBackendStatus } from '@/lib/api/llm';
 
 /**
  * AI Enhancement Status Check
@@ -14,10 +18,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const hasCMCKey = !!process.env.COINMARKETCAP_API_KEY;
 
   // Check CEX and DEX data
-  const cexCache = (global as any).cexCompleteCache;
-  const dexCache = (global as any).dexCompleteCache;
+  const cexCache = await getCacheState('cex');
+  const dexCache = await getCacheState('dex');
   const lastAIError = (global as any).lastAIError;
   const lastDEXAIError = (global as any).lastDEXAIError;
+  const validationStats = getValidationStats();
   
   let enhancedExchanges = 0;
   let totalExchanges = 0;
@@ -41,6 +46,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   return res.status(200).json({
     geminiConfigured: hasGeminiKey,
     cmcConfigured: hasCMCKey,
+    llmBackends: getLLMBackendStatus(),
+    providers: {
+      cex: getFeeProviders('cex').map(provider => provider.name),
+      dex: getFeeProviders('dex').map(provider => provider.name),
+    },
     cex: {
       cacheExists: !!cexCache,
       totalExchanges,
@@ -48,6 +58,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       enhancementRate: totalExchanges > 0 ? (enhancedExchanges / totalExchanges * 100).toFixed(1) + '%' : '0%',
       lastCacheUpdate: cexCache?.timestamp ? new Date(cexCache.timestamp).toISOString() : null,
       lastError: lastAIError,
+      rejectedRecords: validationStats.cex.rejectedRecords,
+      validation: validationStats.cex,
     },
     dex: {
       cacheExists: !!dexCache,
@@ -56,6 +68,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       enhancementRate: totalDEXes > 0 ? (enhancedDEXes / totalDEXes * 100).toFixed(1) + '%' : '0%',
       lastCacheUpdate: dexCache?.timestamp ? new Date(dexCache.timestamp).toISOString() : null,
       lastError: lastDEXAIError,
+      rejectedRecords: validationStats.dex.rejectedRecords,
+      validation: validationStats.dex,
     },
     // Legacy fields for backward compatibility
     cacheExists: !!cexCache,
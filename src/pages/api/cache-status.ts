@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { CEX_CACHE_DURATION, DEX_CACHE_DURATION } from '@/config/constants';
-import { initializeGlobalCache, getCacheState } from '@/lib/utils/cache-optimizer';
+import { initializeGlobalCache, getCacheState, getCacheStatus } from '@/lib/utils/cache-optimizer';
+import { getCacheStore } from '@/lib/cache';
 
 /**
  * Cache Status API
@@ -10,8 +11,6 @@ import { initializeGlobalCache, getCacheState } from '@/lib/utils/cache-optimize
  */
 
 declare global {
-  var cexCompleteCache: { data: any; timestamp: number } | null;
-  var dexCompleteCache: { data: any; timestamp: number } | null;
   var cexAIProcessing: boolean;
   var dexAIProcessing: boolean;
   var lastAIError: string | null;
@@ -34,8 +33,9 @@ export default async function handler(
     const now = Date.now();
     
     // Get cache states safely
-    const cexCacheState = getCacheState('cex');
-    const dexCacheState = getCacheState('dex');
+    const cexCacheState = await getCacheState('cex');
+    const dexCacheState = await getCacheState('dex');
+    const store = await getCacheStore();
     
     const cexCacheStatus = cexCacheState ? {
       exists: true,
@@ -45,6 +45,7 @@ export default async function handler(
       ageMs: now - cexCacheState.timestamp,
       ageHours: Math.floor((now - cexCacheState.timestamp) / (1000 * 60 * 60)),
       isValid: (now - cexCacheState.timestamp) < CEX_CACHE_DURATION,
+      status: getCacheStatus(cexCacheState.timestamp, CEX_CACHE_DURATION).status, // Stale caches are served while rebuilt
       expiresAt: new Date(cexCacheState.timestamp + CEX_CACHE_DURATION).toISOString(),
       aiProcessing: cexCacheState.isProcessing,
       lastError: cexCacheState.lastError,
@@ -56,6 +57,7 @@ export default async function handler(
       ageMs: 0,
       ageHours: 0,
       isValid: false,
+      status: null,
       expiresAt: null,
       aiProcessing: false,
       lastError: null,
@@ -69,6 +71,7 @@ export default async function handler(
       ageMs: now - dexCacheState.timestamp,
       ageHours: Math.floor((now - dexCacheState.timestamp) / (1000 * 60 * 60)),
       isValid: (now - dexCacheState.timestamp) < DEX_CACHE_DURATION,
+      status: getCacheStatus(dexCacheState.timestamp, DEX_CACHE_DURATION).status, // Stale caches are served while rebuilt
       expiresAt: new Date(dexCacheState.timestamp + DEX_CACHE_DURATION).toISOString(),
       aiProcessing: dexCacheState.isProcessing,
       lastError: dexCacheState.lastError,
@@ -80,6 +83,7 @@ export default async function handler(
       ageMs: 0,
       ageHours: 0,
       isValid: false,
+      status: null,
       expiresAt: null,
       aiProcessing: false,
       lastError: null,
@@ -93,6 +97,7 @@ export default async function handler(
     return res.status(200).json({
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV,
+      store: store.type,
       cex: cexCacheStatus,
       dex: dexCacheStatus,
       ai: {
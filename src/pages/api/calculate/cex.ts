@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { applyCEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import { calculateCEXTradeCosts, parseCEXTradeCostQuery } from '@/lib/utils/fee-calculator';
+import { CEXTradeCostResponse } from '@/lib/types/calculator';
+
+/**
+ * CEX Trade Cost Calculator API
+ *
+ * Ranks exchanges by the total cost of a trade using the cached /api/cex-fees data
+ *
+ * Usage:
+ * - GET /api/calculate/cex?tradeSize=0.5&asset=BTC&orderType=taker&roundTrips=1
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { input, error } = parseCEXTradeCostQuery(req.query);
+  if (!input) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const cacheState = await getCacheState('cex');
+
+    if (!cacheState?.data?.length) {
+      return res.status(503).json({
+        error: 'Exchange data not loaded yet',
+        message: 'Load /api/cex-fees first to build the exchange cache.',
+      });
+    }
+
+    const exchanges = await applyCEXFeeOverrides(cacheState.data);
+    const { results, excluded } = calculateCEXTradeCosts(exchanges, input);
+
+    const response: CEXTradeCostResponse = {
+      input,
+      results,
+      excluded,
+      cachedAt: new Date(cacheState.timestamp).toISOString(),
+    };
+
+    res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=60');
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('CEX Calculator API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
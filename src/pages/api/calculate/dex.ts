@@ -0,0 +1,58 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { applyDEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import { calculateDEXSwapCosts, getDEXChains, parseDEXSwapCostQuery } from '@/lib/utils/fee-calculator';
+import { DEXSwapCostResponse } from '@/lib/types/calculator';
+
+/**
+ * DEX Swap Cost Calculator API
+ *
+ * Ranks DEXes on a chain by swap fee plus gas using the cached /api/dex-fees data
+ *
+ * Usage:
+ * - GET /api/calculate/dex?swapSize=1000&chain=Ethereum
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { input, error } = parseDEXSwapCostQuery(req.query);
+  if (!input) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const cacheState = await getCacheState('dex');
+
+    if (!cacheState?.data?.length) {
+      return res.status(503).json({
+        error: 'DEX data not loaded yet',
+        message: 'Load /api/dex-fees first to build the DEX cache.',
+      });
+    }
+
+    const dexes = await applyDEXFeeOverrides(cacheState.data);
+    const { results, excluded } = calculateDEXSwapCosts(dexes, input);
+
+    const response: DEXSwapCostResponse = {
+      input,
+      results,
+      excluded,
+      chains: getDEXChains(dexes),
+      cachedAt: new Date(cacheState.timestamp).toISOString(),
+    };
+
+    res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=60');
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('DEX Calculator API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
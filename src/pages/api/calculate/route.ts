@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { applyCEXFeeOverrides, applyDEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import { compareVenueRoutes, getDEXChains, parseRouteComparisonQuery } from '@/lib/utils/fee-calculator';
+import { getUSDPrice } from '@/lib/utils/prices';
+import { RouteComparisonResponse } from '@/lib/types/calculator';
+
+/**
+ * Cross-Venue Route Comparison API
+ *
+ * Ranks CEX routes (taker fee + withdrawal fee) alongside DEX routes on the
+ * chosen chain (swap fee + gas) using the cached /api/cex-fees and /api/dex-fees data
+ *
+ * Usage:
+ * - GET /api/calculate/route?pair=ETH/USDT&size=1000&chain=Ethereum
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { input, error } = parseRouteComparisonQuery(req.query);
+  if (!input) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const [cexState, dexState] = await Promise.all([
+      getCacheState('cex'),
+      getCacheState('dex'),
+    ]);
+
+    if (!cexState?.data?.length && !dexState?.data?.length) {
+      return res.status(503).json({
+        error: 'Fee data not loaded yet',
+        message: 'Load /api/cex-fees and /api/dex-fees first to build the caches.',
+      });
+    }
+
+    const [exchanges, dexes, basePriceUSD] = await Promise.all([
+      applyCEXFeeOverrides(cexState?.data || []),
+      applyDEXFeeOverrides(dexState?.data || []),
+      getUSDPrice(input.base),
+    ]);
+
+    const { routes, excluded } = compareVenueRoutes(exchanges, dexes, input, basePriceUSD);
+
+    const response: RouteComparisonResponse = {
+      input,
+      routes,
+      excluded,
+      basePriceUSD,
+      chains: getDEXChains(dexes),
+      cachedAt: {
+        cex: cexState ? new Date(cexState.timestamp).toISOString() : null,
+        dex: dexState ? new Date(dexState.timestamp).toISOString() : null,
+      },
+    };
+
+    res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=60');
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Route Comparison API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { applyCEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import {
+  compareWithdrawalFees,
+  getWithdrawalCoins,
+  getWithdrawalNetworks,
+  parseWithdrawalComparisonQuery,
+} from '@/lib/utils/fee-calculator';
+import { getUSDPrice } from '@/lib/utils/prices';
+import { WithdrawalComparisonResponse } from '@/lib/types/calculator';
+
+/**
+ * Withdrawal Fee Comparison API
+ *
+ * Ranks exchanges by the fee for withdrawing a coin on one network using the cached /api/cex-fees data
+ *
+ * Usage:
+ * - GET /api/calculate/withdrawal?coin=USDT&network=Tron
+ * - GET /api/calculate/withdrawal?coin=USDT (most widely listed network)
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { input, error } = parseWithdrawalComparisonQuery(req.query);
+  if (!input) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const cacheState = await getCacheState('cex');
+
+    if (!cacheState?.data?.length) {
+      return res.status(503).json({
+        error: 'CEX data not loaded yet',
+        message: 'Load /api/cex-fees first to build the CEX cache.',
+      });
+    }
+
+    const exchanges = await applyCEXFeeOverrides(cacheState.data);
+    const networks = getWithdrawalNetworks(exchanges, input.coin);
+    const network = input.network || networks[0] || null;
+
+    const coinPriceUSD = network ? await getUSDPrice(input.coin) : null;
+    const { results, missing } = network
+      ? compareWithdrawalFees(exchanges, input.coin, network, coinPriceUSD)
+      : { results: [], missing: exchanges.length };
+
+    const response: WithdrawalComparisonResponse = {
+      input: { coin: input.coin, network },
+      results,
+      missing,
+      coinPriceUSD,
+      coins: getWithdrawalCoins(exchanges),
+      networks,
+      cachedAt: new Date(cacheState.timestamp).toISOString(),
+    };
+
+    res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=60');
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Withdrawal Fee API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
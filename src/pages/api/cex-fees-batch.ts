@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { handleAPIError } from '@/lib/api/error-handler';
 import { CEX_CACHE_DURATION, CEX_CACHE_DURATION_SECONDS } from '@/config/constants';
 import { initializeGlobalCache, getCacheState, isCacheValid } from '@/lib/utils/cache-optimizer';
+import { applyCEXFeeOverrides } from '@/lib/utils/fee-overrides';
 
 /**
  * CEX Fees Batch API Route
@@ -11,11 +12,6 @@ import { initializeGlobalCache, getCacheState, isCacheValid } from '@/lib/utils/
  * This endpoint remains for backward compatibility.
  */
 
-// Shared cache with main API
-declare global {
-  var cexCompleteCache: { data: any; timestamp: number } | null;
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -33,7 +29,7 @@ export default async function handler(
 
   try {
     // Get cache state safely
-    const cacheState = getCacheState('cex');
+    const cacheState = await getCacheState('cex');
     
     // Check if complete cache exists and is valid
     if (cacheState && isCacheValid(cacheState.timestamp, CEX_CACHE_DURATION)) {
@@ -66,7 +62,7 @@ export default async function handler(
       const hasMore = endIndex < cacheState.data.length;
 
       return res.status(200).json({
-        data: batchData,
+        data: await applyCEXFeeOverrides(batchData),
         batch: batchNum,
         totalBatches,
         hasMore,
@@ -1,21 +1,16 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { fetchCombinedExchangeData } from '@/lib/api/coinmarketcap';
-import { normalizeCombinedExchangeData } from '@/lib/utils/normalize';
 import { handleAPIError } from '@/lib/api/error-handler';
 import { CEX_CACHE_DURATION, CEX_CACHE_DURATION_SECONDS } from '@/config/constants';
 import { 
   generateCacheHeaders, 
-  isCacheValid, 
+  getCacheStatus,
   logCacheOperation,
   initializeGlobalCache,
-  getCacheState,
-  setCacheState,
-  setProcessingState
+  getCacheState
 } from '@/lib/utils/cache-optimizer';
-import { fetchCEXFeesFromAI, mergeCEXFeeData } from '@/lib/api/gemini';
-
-// Get cache hours for logging
-const CEX_CACHE_HOURS = parseInt(process.env.CEX_CACHE_HOURS || '72', 10);
+import { applyCEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import { getActiveJob } from '@/lib/jobs';
+import { isRebuildingInBackground, rebuildCEXCache, startBackgroundRebuild } from '@/lib/jobs/refresh';
 
 /**
  * CEX Fees API Route
@@ -23,18 +18,20 @@ const CEX_CACHE_HOURS = parseInt(process.env.CEX_CACHE_HOURS || '72', 10);
  * DATA STRATEGY:
  * - CoinMarketCap: Exchange rankings, volumes, basic metadata (CMC fee data is unreliable)
  * - CoinGecko: Trust scores, additional metadata
- * - Gemini AI: Real fee data collection using AI-powered analysis
+ * - Fee providers (lib/providers): Gemini AI, static JSON file - merged by FEE_PROVIDER_PRIORITY
  * 
  * FLOW:
  * 1. Fetch exchange metadata from CMC/CoinGecko
- * 2. Use Gemini AI to collect real fee data for those exchanges
- * 3. Merge AI fee data with exchange metadata
+ * 2. Query enabled fee providers for real fee data on those exchanges
+ * 3. Merge provider fee data with exchange metadata
  * 4. Cache for 24 hours to respect API limits
+ *    - Stale cache (up to twice the cache duration) is served immediately and rebuilt in the background
+ *    - Rebuilds keep previous fees for records that haven't been enriched again yet
+ * 5. Enrich in the background as a job (lib/jobs) - progress at /api/jobs, updates pushed to /api/events
  */
 
 // Global cache declarations
 declare global {
-  var cexCompleteCache: { data: any; timestamp: number } | null;
   var cexAIProcessing: boolean;
   var lastAIError: string | null;
   var geminiCircuitBreaker: { blocked: boolean; until: number } | null;
@@ -57,30 +54,40 @@ export default async function handler(
 
   try {
     // Get cache state safely
-    const cacheState = getCacheState('cex');
+    const cacheState = await getCacheState('cex');
     
-    // Check cache for complete AI-enhanced data
-    if (cacheState && isCacheValid(cacheState.timestamp, CEX_CACHE_DURATION)) {
-      logCacheOperation('hit', 'cex', { batch: batchNum, totalExchanges: cacheState.data.length });
+    const cacheStatus = cacheState ? getCacheStatus(cacheState.timestamp, CEX_CACHE_DURATION).status : 'expired';
+    const isStale = cacheStatus === 'stale' && !!cacheState && cacheState.data.length > 0;
+
+    // Serve cached AI-enhanced data - stale data is served immediately while it is rebuilt in the background
+    if (cacheState && (cacheStatus === 'fresh' || isStale)) {
+      if (isStale) {
+        logCacheOperation('stale', 'cex', { batch: batchNum, totalExchanges: cacheState.data.length });
+        startBackgroundRebuild('cex');
+      } else {
+        logCacheOperation('hit', 'cex', { batch: batchNum, totalExchanges: cacheState.data.length });
+      }
       
       const startIndex = (batchNum - 1) * size;
       const endIndex = startIndex + size;
       const batchData = cacheState.data.slice(startIndex, endIndex);
       
       // Set optimized cache headers
-      const headers = generateCacheHeaders('cex', false);
+      const headers = generateCacheHeaders('cex', isStale);
       Object.entries(headers).forEach(([key, value]) => {
         res.setHeader(key, value);
       });
       
       return res.status(200).json({
-        data: batchData,
+        data: await applyCEXFeeOverrides(batchData),
         cached: true,
+        stale: isStale,
         cachedAt: new Date(cacheState.timestamp).toISOString(),
         batch: batchNum,
         totalBatches: Math.ceil(cacheState.data.length / size),
         hasMore: endIndex < cacheState.data.length,
-        backgroundProcessing: cacheState.isProcessing,
+        backgroundProcessing: cacheState.isProcessing || isRebuildingInBackground('cex'),
+        jobId: getActiveJob('cex')?.id ?? null,
       });
     }
 
@@ -95,14 +102,8 @@ export default async function handler(
       });
     }
 
-    // Fetch combined data from CMC (volumes, rankings) + CoinGecko (trust scores)
-    const rawData = await fetchCombinedExchangeData(50);
-    
-    // Normalize data with placeholder fee values
-    const normalizedData = rawData.map(normalizeCombinedExchangeData);
-
-    // Cache the normalized data immediately
-    setCacheState('cex', normalizedData);
+    // Fetch, normalize and cache fresh data, then queue AI enrichment (lib/jobs/refresh)
+    const { data: normalizedData, job } = await rebuildCEXCache();
 
     // Calculate batch response - handle "all" case
     let batchData, totalBatches, hasMore;
@@ -118,84 +119,6 @@ export default async function handler(
       hasMore = endIndex < normalizedData.length;
     }
 
-    // Check circuit breaker before starting AI enhancement
-    const isCircuitBreakerActive = global.geminiCircuitBreaker && 
-      global.geminiCircuitBreaker.blocked && 
-      Date.now() < global.geminiCircuitBreaker.until;
-
-    // Start AI enhancement in background (non-blocking) - only if not already processing
-    if (process.env.GEMINI_API_KEY && normalizedData.length > 0 && !global.cexAIProcessing && !isCircuitBreakerActive) {
-      setProcessingState('cex', true);
-      console.log(`🚀 Starting background AI enhancement for ${normalizedData.length} exchanges...`);
-      
-      // Background AI processing (async, no await)
-      (async () => {
-        try {
-          let completeDataWithAI = [...normalizedData];
-          const aiBatchSize = 10; // Smaller batches to reduce API load
-          const totalAIBatches = Math.ceil(normalizedData.length / aiBatchSize);
-          const delayBetweenBatches = 15000; // 15 seconds between batches
-          
-          console.log(`📊 Processing ${totalAIBatches} AI batches sequentially with ${delayBetweenBatches/1000}s delays...`);
-          
-          for (let i = 0; i < totalAIBatches; i++) {
-            const batchStart = i * aiBatchSize;
-            const batchEnd = batchStart + aiBatchSize;
-            const batchExchanges = normalizedData.slice(batchStart, batchEnd);
-            
-            console.log(`🤖 Processing AI batch ${i + 1}/${totalAIBatches} (${batchExchanges.length} exchanges)...`);
-            
-            try {
-              const aiFeesData = await fetchCEXFeesFromAI(batchExchanges);
-              
-              if (aiFeesData.length > 0) {
-                const enhancedBatch = mergeCEXFeeData(batchExchanges, aiFeesData);
-                completeDataWithAI.splice(batchStart, batchExchanges.length, ...enhancedBatch);
-                
-                // Update cache incrementally after each successful batch
-                setCacheState('cex', completeDataWithAI);
-                
-                console.log(`✓ Enhanced batch ${i + 1}/${totalAIBatches} with AI fee data`);
-              } else {
-                console.log(`⚠️ Batch ${i + 1}/${totalAIBatches} returned no AI data`);
-              }
-            } catch (batchError) {
-              const errorMessage = batchError instanceof Error ? batchError.message : String(batchError);
-              console.error(`❌ Batch ${i + 1}/${totalAIBatches} failed:`, errorMessage);
-              
-              // Activate circuit breaker if API is overloaded
-              if (errorMessage.includes('overloaded') || errorMessage.includes('503')) {
-                global.geminiCircuitBreaker = {
-                  blocked: true,
-                  until: Date.now() + (30 * 60 * 1000) // Block for 30 minutes
-                };
-                console.log('🚫 Circuit breaker activated - stopping AI enhancement for 30 minutes');
-                break; // Stop processing more batches
-              }
-            }
-            
-            // Wait between batches to avoid overloading Gemini API
-            if (i < totalAIBatches - 1) {
-              console.log(`⏳ Waiting ${delayBetweenBatches/1000}s before next batch...`);
-              await new Promise(resolve => setTimeout(resolve, delayBetweenBatches));
-            }
-          }
-          
-          // Final cache update with AI-enhanced data
-          setCacheState('cex', completeDataWithAI);
-          
-          console.log(`🎉 Background AI enhancement complete - cached for ${CEX_CACHE_HOURS} hours`);
-          global.lastAIError = null; // Clear error on success
-        } catch (aiError) {
-          const errorMessage = aiError instanceof Error ? aiError.message : 'Unknown AI error';
-          console.error('Background AI enhancement failed:', errorMessage);
-          global.lastAIError = errorMessage;
-        } finally {
-          setProcessingState('cex', false);
-        }
-      })();
-    }
-
     // Set optimized cache headers for fresh data
     const headers = generateCacheHeaders('cex', false);
     Object.entries(headers).forEach(([key, value]) => {
@@ -203,14 +126,15 @@ export default async function handler(
     });
 
     return res.status(200).json({
-      data: batchData,
+      data: await applyCEXFeeOverrides(batchData),
       cached: false,
       cachedAt: new Date().toISOString(),
       batch: batch === 'all' ? 'all' : batchNum,
       totalBatches,
       hasMore,
       totalExchanges: normalizedData.length,
-      backgroundProcessing: !!process.env.GEMINI_API_KEY && !isCircuitBreakerActive,
+      backgroundProcessing: !!job,
+      jobId: job?.id ?? null,
     });
   } catch (error) {
     console.error('CEX Fees API Error:', error);
@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getFeeChanges, parseFeeChangeQuery, describeFeeChange } from '@/lib/utils/fee-changes';
+
+/**
+ * Fee Changes API
+ *
+ * Changelog of fee changes and top list movements detected between refreshes (newest first)
+ *
+ * Usage:
+ * - GET /api/changes
+ * - GET /api/changes?market=cex&kind=fee_changed&since=2025-01-01&limit=50
+ *
+ * Feeds: /api/changes/rss and /api/changes/atom accept the same filters
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const changes = await getFeeChanges(parseFeeChangeQuery(req.query));
+
+    res.setHeader('Cache-Control', 'public, max-age=300, s-maxage=300');
+
+    return res.status(200).json({
+      changes: changes.map(change => ({
+        ...change,
+        summary: describeFeeChange(change),
+      })),
+      count: changes.length,
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Fee Changes API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getFeeChanges, parseFeeChangeQuery } from '@/lib/utils/fee-changes';
+import { generateRSSFeed } from '@/lib/utils/feeds';
+
+/**
+ * Fee Changes RSS 2.0 Feed
+ *
+ * Same filters as /api/changes (market, kind, since, limit)
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const changes = await getFeeChanges(parseFeeChangeQuery(req.query));
+
+    res.setHeader('Content-Type', 'application/rss+xml; charset=utf-8');
+    res.setHeader('Cache-Control', 'public, max-age=300, s-maxage=300');
+
+    return res.status(200).send(generateRSSFeed(changes));
+  } catch (error) {
+    console.error('Fee Changes RSS Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
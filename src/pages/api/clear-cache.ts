@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { initializeGlobalCache, setProcessingState } from '@/lib/utils/cache-optimizer';
+import { initializeGlobalCache, setProcessingState, clearCacheState } from '@/lib/utils/cache-optimizer';
 
 /**
  * Cache Invalidation API
@@ -9,8 +9,6 @@ import { initializeGlobalCache, setProcessingState } from '@/lib/utils/cache-opt
  */
 
 declare global {
-  var cexCompleteCache: { data: any; timestamp: number } | null;
-  var dexCompleteCache: { data: any; timestamp: number } | null;
   var cexAIProcessing: boolean;
   var dexAIProcessing: boolean;
   var lastAIError: string | null;
@@ -33,14 +31,14 @@ export default async function handler(
     const { type = 'all' } = req.body;
 
     if (type === 'cex' || type === 'all') {
-      global.cexCompleteCache = null;
+      await clearCacheState('cex');
       setProcessingState('cex', false);
       global.lastAIError = null;
       console.log('🗑️ CEX cache cleared');
     }
 
     if (type === 'dex' || type === 'all') {
-      global.dexCompleteCache = null;
+      await clearCacheState('dex');
       setProcessingState('dex', false);
       global.lastDEXAIError = null;
       console.log('🗑️ DEX cache cleared');
@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { requireCronSecret } from '@/lib/utils/admin-auth';
+import { initializeGlobalCache } from '@/lib/utils/cache-optimizer';
+import { runScheduledRefresh, REFRESH_MARKETS } from '@/lib/jobs/scheduler';
+
+/**
+ * Scheduled Refresh API
+ *
+ * Requires Authorization: Bearer <CRON_SECRET>
+ *
+ * Call from a hosted scheduler (Netlify scheduled function, GitHub Actions, cron + curl).
+ * Each call rebuilds the markets whose cache is missing or expires within
+ * REFRESH_LEAD_HOURS and queues their AI enrichment; fresh markets are skipped.
+ *
+ * Usage:
+ * - POST /api/cron/refresh
+ * - POST /api/cron/refresh?market=dex&force=1
+ *
+ * GET is accepted as well for schedulers that can only send GET requests.
+ * Enrichment runs in this server process - progress at /api/jobs.
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireCronSecret(req, res)) {
+    return;
+  }
+
+  const { market, force } = req.query;
+  if (market !== undefined && market !== 'cex' && market !== 'dex') {
+    return res.status(400).json({ error: 'Invalid market', message: 'market must be "cex" or "dex"' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    initializeGlobalCache();
+
+    const results = await runScheduledRefresh({
+      markets: market ? [market] : REFRESH_MARKETS,
+      force: force === '1' || force === 'true',
+    });
+
+    return res.status(results.some(result => result.status === 'failed') ? 502 : 200).json({
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Scheduled Refresh API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
@@ -36,7 +36,7 @@ export default async function handler(
 
     // Get CEX data if requested or no type specified
     if (!type || type === 'cex') {
-      const cexCache = getCacheState('cex');
+      const cexCache = await getCacheState('cex');
       debugData.cex = {
         cached: !!cexCache,
         cacheAge: cexCache ? Math.round((Date.now() - cexCache.timestamp) / (1000 * 60 * 60)) : null,
@@ -54,7 +54,7 @@ export default async function handler(
 
     // Get DEX data if requested or no type specified
     if (!type || type === 'dex') {
-      const dexCache = getCacheState('dex');
+      const dexCache = await getCacheState('dex');
       debugData.dex = {
         cached: !!dexCache,
         cacheAge: dexCache ? Math.round((Date.now() - dexCache.timestamp) / (1000 * 60 * 60)) : null,
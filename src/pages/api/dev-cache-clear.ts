@@ -1,5 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { initializeGlobalCache } from '@/lib/utils/cache-optimizer';
+import { initializeGlobalCache, getCacheState, clearCacheState } from '@/lib/utils/cache-optimizer';
+import { resetValidationStats } from '@/lib/api/ai-validation';
+import { resetLLMCircuitBreakers } from '@/lib/api/llm';
 
 /**
  * Development Cache Clear API Route
@@ -37,8 +39,8 @@ export default async function handler(
 
     // Clear CEX cache
     if (type === 'all' || type === 'cex') {
-      if (global.cexCompleteCache) {
-        global.cexCompleteCache = null;
+      if (await getCacheState('cex')) {
+        await clearCacheState('cex');
         clearedItems.push('CEX cache');
       }
       if (global.cexAIProcessing) {
@@ -53,8 +55,8 @@ export default async function handler(
 
     // Clear DEX cache
     if (type === 'all' || type === 'dex') {
-      if (global.dexCompleteCache) {
-        global.dexCompleteCache = null;
+      if (await getCacheState('dex')) {
+        await clearCacheState('dex');
         clearedItems.push('DEX cache');
       }
       if (global.dexAIProcessing) {
@@ -89,6 +91,10 @@ export default async function handler(
         global.lastDEXAIError = null;
         clearedItems.push('DEX AI error state');
       }
+      resetValidationStats();
+      clearedItems.push('AI validation stats');
+      resetLLMCircuitBreakers();
+      clearedItems.push('LLM backend circuit breakers');
     }
 
     // Clear circuit breaker for all types except 'ai' only
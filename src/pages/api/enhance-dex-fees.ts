@@ -1,5 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { fetchDEXFeesFromAI, mergeDEXFeeData } from '@/lib/api/gemini';
+import { getCacheState, setCacheState } from '@/lib/utils/cache-optimizer';
+import { mergeDEXFeeData } from '@/lib/api/gemini';
+import { fetchDEXFeesFromProviders, hasEnabledFeeProviders } from '@/lib/providers';
+import { recordDEXFeeHistory } from '@/lib/utils/fee-history';
 
 /**
  * Manual DEX Fee Enhancement API
@@ -7,7 +10,6 @@ import { fetchDEXFeesFromAI, mergeDEXFeeData } from '@/lib/api/gemini';
  */
 
 declare global {
-  var dexCompleteCache: { data: any; timestamp: number } | null;
   var dexAIProcessing: boolean;
 }
 
@@ -16,11 +18,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed. Use POST or GET.' });
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    return res.status(400).json({ error: 'GEMINI_API_KEY not configured' });
+  if (!hasEnabledFeeProviders('dex')) {
+    return res.status(400).json({ error: 'No fee provider configured or available' });
   }
 
-  if (!global.dexCompleteCache?.data) {
+  const cacheState = await getCacheState('dex');
+
+  if (!cacheState?.data) {
     return res.status(400).json({ error: 'No DEX data in cache. Load DEX page first.' });
   }
 
@@ -30,25 +34,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     global.dexAIProcessing = true;
-    const dexes = global.dexCompleteCache.data.slice(0, 3); // Test with first 3 DEXes (smaller batch)
+    const dexes = cacheState.data.slice(0, 3); // Test with first 3 DEXes (smaller batch)
     
     console.log(`🧪 Manual DEX AI enhancement test for ${dexes.length} DEXes...`);
     
-    const aiFeesData = await fetchDEXFeesFromAI(dexes);
+    const aiFeesData = await fetchDEXFeesFromProviders(dexes);
     
     if (aiFeesData.length > 0) {
       const enhancedDEXes = mergeDEXFeeData(dexes, aiFeesData);
       
       // Update cache with enhanced data
-      const updatedData = [...global.dexCompleteCache.data];
+      const updatedData = [...cacheState.data];
       enhancedDEXes.forEach((enhanced, index) => {
         updatedData[index] = enhanced;
       });
       
-      global.dexCompleteCache = {
-        data: updatedData,
-        timestamp: Date.now(),
-      };
+      await setCacheState('dex', updatedData);
+      await recordDEXFeeHistory(enhancedDEXes);
       
       const enhancedCount = enhancedDEXes.filter(dex => dex.swapFee !== null).length;
       
@@ -58,6 +60,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         enhancedDEXes: enhancedDEXes.map(dex => ({
           name: dex.dexName,
           swapFee: dex.swapFee,
+          feeSources: dex.feeSources,
         })),
       });
     } else {
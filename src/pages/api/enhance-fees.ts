@@ -1,5 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { fetchCEXFeesFromAI, mergeCEXFeeData } from '@/lib/api/gemini';
+import { getCacheState, setCacheState } from '@/lib/utils/cache-optimizer';
+import { mergeCEXFeeData } from '@/lib/api/gemini';
+import { fetchCEXFeesFromProviders, hasEnabledFeeProviders } from '@/lib/providers';
+import { recordCEXFeeHistory } from '@/lib/utils/fee-history';
 
 /**
  * Manual Fee Enhancement API
@@ -7,7 +10,6 @@ import { fetchCEXFeesFromAI, mergeCEXFeeData } from '@/lib/api/gemini';
  */
 
 declare global {
-  var cexCompleteCache: { data: any; timestamp: number } | null;
   var cexAIProcessing: boolean;
 }
 
@@ -16,11 +18,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed. Use POST or GET.' });
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    return res.status(400).json({ error: 'GEMINI_API_KEY not configured' });
+  if (!hasEnabledFeeProviders('cex')) {
+    return res.status(400).json({ error: 'No fee provider configured or available' });
   }
 
-  if (!global.cexCompleteCache?.data) {
+  const cacheState = await getCacheState('cex');
+
+  if (!cacheState?.data) {
     return res.status(400).json({ error: 'No exchange data in cache. Load main page first.' });
   }
 
@@ -30,25 +34,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     global.cexAIProcessing = true;
-    const exchanges = global.cexCompleteCache.data.slice(0, 3); // Test with first 3 exchanges (smaller batch)
+    const exchanges = cacheState.data.slice(0, 3); // Test with first 3 exchanges (smaller batch)
     
     console.log(`🧪 Manual AI enhancement test for ${exchanges.length} exchanges...`);
     
-    const aiFeesData = await fetchCEXFeesFromAI(exchanges);
+    const aiFeesData = await fetchCEXFeesFromProviders(exchanges);
     
     if (aiFeesData.length > 0) {
       const enhancedExchanges = mergeCEXFeeData(exchanges, aiFeesData);
       
       // Update cache with enhanced data
-      const updatedData = [...global.cexCompleteCache.data];
+      const updatedData = [...cacheState.data];
       enhancedExchanges.forEach((enhanced, index) => {
         updatedData[index] = enhanced;
       });
       
-      global.cexCompleteCache = {
-        data: updatedData,
-        timestamp: Date.now(),
-      };
+      await setCacheState('cex', updatedData);
+      await recordCEXFeeHistory(enhancedExchanges);
       
       const enhancedCount = enhancedExchanges.filter(ex => ex.makerFee !== null || ex.takerFee !== null).length;
       
@@ -59,6 +61,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           name: ex.exchangeName,
           makerFee: ex.makerFee,
           takerFee: ex.takerFee,
+          feeSources: ex.feeSources,
         })),
       });
     } else {
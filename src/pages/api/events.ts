@@ -0,0 +1,89 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { initializeGlobalCache, getCacheState } from '@/lib/utils/cache-optimizer';
+import { subscribeCacheEvents } from '@/lib/utils/cache-events';
+import { CacheEventMarket, CacheEventsReady } from '@/lib/types/api';
+
+/**
+ * Cache Events API (Server-Sent Events)
+ *
+ * GET /api/events?market=cex|dex
+ *
+ * Streams background enhancement progress so the list pages can apply changed
+ * records in place instead of polling /api/cache-status:
+ * - ready: current processing state and cache time per market (sent on connect)
+ * - rebuilt: a stale cache was replaced with a fresh listing - reload the list
+ * - batch: a batch was enhanced - carries the changed records
+ * - finished: background processing is done
+ * - error: a batch or the whole run failed
+ *
+ * Omit market to receive events for both markets.
+ */
+
+const HEARTBEAT_INTERVAL = 25000; // Keeps proxies from closing an idle stream
+
+async function getReadyState(): Promise<CacheEventsReady> {
+  const [cexCacheState, dexCacheState] = await Promise.all([getCacheState('cex'), getCacheState('dex')]);
+
+  return {
+    cex: {
+      processing: global.cexAIProcessing || false,
+      cachedAt: cexCacheState ? new Date(cexCacheState.timestamp).toISOString() : null,
+    },
+    dex: {
+      processing: global.dexAIProcessing || false,
+      cachedAt: dexCacheState ? new Date(dexCacheState.timestamp).toISOString() : null,
+    },
+  };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { market } = req.query;
+  if (market !== undefined && market !== 'cex' && market !== 'dex') {
+    return res.status(400).json({ error: 'Invalid market', message: 'market must be "cex" or "dex"' });
+  }
+
+  initializeGlobalCache();
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable response buffering behind nginx
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Subscribe before reading the ready state so no event falls in between
+  const unsubscribe = subscribeCacheEvents(event => {
+    if (market && event.market !== (market as CacheEventMarket)) return;
+    send(event.type, event);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+  req.on('close', close);
+
+  try {
+    send('ready', await getReadyState());
+  } catch (error) {
+    // Ending the stream makes the client fall back to polling
+    console.error('Cache events error:', error);
+    close();
+  }
+}
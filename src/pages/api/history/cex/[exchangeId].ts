@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getCEXFeeHistory, filterHistory } from '@/lib/utils/fee-history';
+
+/**
+ * CEX Fee History API
+ *
+ * Returns the recorded maker/taker/withdrawal/deposit fee time series for one exchange
+ *
+ * Usage:
+ * - GET /api/history/cex/binance
+ * - GET /api/history/cex/binance?since=2025-01-01&limit=20
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { exchangeId, since, limit } = req.query;
+
+  if (typeof exchangeId !== 'string' || !exchangeId) {
+    return res.status(400).json({ error: 'exchangeId is required' });
+  }
+
+  try {
+    const history = await getCEXFeeHistory(exchangeId);
+    const snapshots = filterHistory(
+      history,
+      typeof since === 'string' ? since : undefined,
+      typeof limit === 'string' ? parseInt(limit, 10) : undefined
+    );
+
+    return res.status(200).json({
+      exchangeId,
+      snapshots,
+      count: snapshots.length,
+      totalSnapshots: history.length,
+      firstRecordedAt: history[0]?.recordedAt || null,
+      lastRecordedAt: history[history.length - 1]?.recordedAt || null,
+    });
+  } catch (error) {
+    console.error('CEX Fee History API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getDEXFeeHistory, filterHistory } from '@/lib/utils/fee-history';
+
+/**
+ * DEX Fee History API
+ *
+ * Returns the recorded swap fee and gas estimate time series for one DEX
+ *
+ * Usage:
+ * - GET /api/history/dex/uniswap
+ * - GET /api/history/dex/uniswap?since=2025-01-01&limit=20
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { dexId, since, limit } = req.query;
+
+  if (typeof dexId !== 'string' || !dexId) {
+    return res.status(400).json({ error: 'dexId is required' });
+  }
+
+  try {
+    const history = await getDEXFeeHistory(dexId);
+    const snapshots = filterHistory(
+      history,
+      typeof since === 'string' ? since : undefined,
+      typeof limit === 'string' ? parseInt(limit, 10) : undefined
+    );
+
+    return res.status(200).json({
+      dexId,
+      snapshots,
+      count: snapshots.length,
+      totalSnapshots: history.length,
+      firstRecordedAt: history[0]?.recordedAt || null,
+      lastRecordedAt: history[history.length - 1]?.recordedAt || null,
+    });
+  } catch (error) {
+    console.error('DEX Fee History API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
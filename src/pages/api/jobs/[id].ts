@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { cancelJob, getJob, getJobProgress, isJobFinished } from '@/lib/jobs';
+import { requireAdmin } from '@/lib/utils/admin-auth';
+
+/**
+ * Background Job API
+ *
+ * Usage:
+ * - GET /api/jobs/cex-m1abc2-x7y8z9 - job with per-batch status and progress
+ * - DELETE /api/jobs/cex-m1abc2-x7y8z9 - cancel; a running job stops after its current batch
+ *   (admin token required outside development, where the cache monitor cancels without one)
+ */
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (req.method === 'DELETE' && process.env.NODE_ENV !== 'development' && !requireAdmin(req, res)) {
+    return;
+  }
+
+  const { id } = req.query;
+
+  if (typeof id !== 'string' || !id) {
+    return res.status(400).json({ error: 'id is required' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  const job = getJob(id);
+  if (!job) {
+    return res.status(404).json({ error: `No job ${id}` });
+  }
+
+  if (req.method === 'DELETE') {
+    if (isJobFinished(job)) {
+      return res.status(409).json({ error: `Job ${id} already ${job.status}` });
+    }
+    cancelJob(id);
+  }
+
+  return res.status(200).json({ ...job, progress: getJobProgress(job) });
+}
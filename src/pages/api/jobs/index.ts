@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleAPIError } from '@/lib/api/error-handler';
+import { getActiveJob, getJobProgress, listJobs } from '@/lib/jobs';
+
+/**
+ * Background Jobs API
+ *
+ * Lists AI enrichment jobs of this server process, newest first, with
+ * per-batch status, attempts and a progress summary
+ *
+ * Usage:
+ * - GET /api/jobs
+ * - GET /api/jobs?market=cex
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { market } = req.query;
+  if (market !== undefined && market !== 'cex' && market !== 'dex') {
+    return res.status(400).json({ error: 'Invalid market', message: 'market must be "cex" or "dex"' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    const jobs = listJobs(market).map(job => ({ ...job, progress: getJobProgress(job) }));
+
+    return res.status(200).json({
+      jobs,
+      active: {
+        cex: market === 'dex' ? undefined : getActiveJob('cex')?.id ?? null,
+        dex: market === 'cex' ? undefined : getActiveJob('dex')?.id ?? null,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Jobs API Error:', error);
+    const errorResponse = handleAPIError(error);
+    return res.status(500).json(errorResponse);
+  }
+}
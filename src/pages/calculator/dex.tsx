@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Button,
+  FormControl,
+  FormLabel,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Badge,
+  Link,
+  Spinner,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { Layout } from '@/components/layout/Layout';
+import { ErrorAlert } from '@/components/common/ErrorAlert';
+import { DEXCostTable } from '@/components/calculator/DEXCostTable';
+import { useDEXSwapCost } from '@/lib/hooks/useCalculator';
+import { DEXSwapCostInput } from '@/lib/types/calculator';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+
+const DEFAULT_INPUT: DEXSwapCostInput = { swapSize: 1000, chain: 'Ethereum' };
+
+export default function DEXCalculatorPage() {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const [swapSize, setSwapSize] = useState(String(DEFAULT_INPUT.swapSize));
+  const [chain, setChain] = useState(DEFAULT_INPUT.chain);
+  // Calculate the defaults right away so the chain list comes from the cached data
+  const [submitted, setSubmitted] = useState<DEXSwapCostInput>(DEFAULT_INPUT);
+
+  const { result, isLoading, isError, errorMessage } = useDEXSwapCost(submitted);
+  const chains = result?.chains.length ? result.chains : [DEFAULT_INPUT.chain];
+
+  const handleCalculate = () => {
+    setSubmitted({ swapSize: parseFloat(swapSize), chain });
+  };
+
+  return (
+    <Layout>
+      <VStack spacing={6} align="stretch">
+        <Box>
+          <Heading size="xl" mb={2}>
+            DEX Swap Cost Calculator
+          </Heading>
+          <Text color="gray.600">
+            Swap fee plus gas for every DEX on a chain, and the swap size where gas stops dominating
+          </Text>
+          <Text fontSize="sm" mt={1}>
+            Trading on a centralized exchange?{' '}
+            <Link as={NextLink} href="/calculator" color="blue.500">
+              Use the CEX calculator
+            </Link>
+            {' • '}
+            <Link as={NextLink} href="/calculator/route" color="blue.500">
+              Compare CEX vs DEX routes
+            </Link>
+          </Text>
+        </Box>
+
+        <Box p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+          <HStack spacing={4} align="end" flexWrap="wrap">
+            <FormControl maxW={{ base: '100%', md: '200px' }}>
+              <FormLabel fontSize="sm">Swap size (USD)</FormLabel>
+              <NumberInput min={0} value={swapSize} onChange={setSwapSize}>
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+
+            <FormControl maxW={{ base: '100%', md: '220px' }}>
+              <FormLabel fontSize="sm">Chain</FormLabel>
+              <Select value={chain} onChange={(e) => setChain(e.target.value)}>
+                {chains.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <Button colorScheme="blue" onClick={handleCalculate} isLoading={isLoading}>
+              Calculate
+            </Button>
+          </HStack>
+          <Text fontSize="xs" color="gray.500" mt={3}>
+            Below the breakeven size, gas costs more than the swap fee - batch smaller swaps or use a cheaper chain.
+          </Text>
+        </Box>
+
+        {isError && (
+          <ErrorAlert title="Calculation failed" message={errorMessage || 'Please try again later.'} />
+        )}
+
+        {isLoading && !result && (
+          <Box textAlign="center" py={8}>
+            <Spinner />
+          </Box>
+        )}
+
+        {result && (
+          <VStack spacing={3} align="stretch">
+            <HStack spacing={2} flexWrap="wrap">
+              <Text fontSize="sm" color="gray.600">
+                {result.results.length} DEXes on {result.input.chain} ranked by average total cost
+                {result.excluded > 0 && ` • ${result.excluded} without swap fee data`}
+              </Text>
+              {result.cachedAt && (
+                <Badge colorScheme="green" fontSize="xs">
+                  Fee data updated {formatRelativeTime(result.cachedAt)}
+                </Badge>
+              )}
+            </HStack>
+            <DEXCostTable results={result.results} swapSize={result.input.swapSize} />
+          </VStack>
+        )}
+      </VStack>
+    </Layout>
+  );
+}
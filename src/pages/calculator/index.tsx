@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Button,
+  FormControl,
+  FormLabel,
+  NumberInput,
+  NumberInputField,
+  Select,
+  RadioGroup,
+  Radio,
+  Badge,
+  Link,
+  Spinner,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { Layout } from '@/components/layout/Layout';
+import { ErrorAlert } from '@/components/common/ErrorAlert';
+import { CEXCostTable } from '@/components/calculator/CEXCostTable';
+import { useCEXTradeCost } from '@/lib/hooks/useCalculator';
+import { CALCULATOR_ASSETS } from '@/config/constants';
+import { MAX_ROUND_TRIPS } from '@/lib/utils/fee-calculator';
+import { CEXTradeCostInput, OrderType } from '@/lib/types/calculator';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+
+export default function CEXCalculatorPage() {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const [tradeSize, setTradeSize] = useState('1');
+  const [asset, setAsset] = useState<string>(CALCULATOR_ASSETS[0]);
+  const [orderType, setOrderType] = useState<OrderType>('taker');
+  const [roundTrips, setRoundTrips] = useState('1');
+  const [submitted, setSubmitted] = useState<CEXTradeCostInput | null>(null);
+
+  const { result, isLoading, isError, errorMessage } = useCEXTradeCost(submitted);
+
+  const handleCalculate = () => {
+    setSubmitted({
+      tradeSize: parseFloat(tradeSize),
+      asset,
+      orderType,
+      roundTrips: parseInt(roundTrips, 10),
+    });
+  };
+
+  return (
+    <Layout>
+      <VStack spacing={6} align="stretch">
+        <Box>
+          <Heading size="xl" mb={2}>
+            CEX Trade Cost Calculator
+          </Heading>
+          <Text color="gray.600">
+            See what a trade really costs on each exchange - trading fees plus deposit and withdrawal fees
+          </Text>
+          <Text fontSize="sm" mt={1}>
+            Swapping on-chain?{' '}
+            <Link as={NextLink} href="/calculator/dex" color="blue.500">
+              Use the DEX swap calculator
+            </Link>
+            {' • '}
+            <Link as={NextLink} href="/calculator/route" color="blue.500">
+              Compare CEX vs DEX routes
+            </Link>
+            {' • '}
+            <Link as={NextLink} href="/calculator/withdrawal" color="blue.500">
+              Compare withdrawal fees
+            </Link>
+          </Text>
+        </Box>
+
+        <Box p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+          <HStack spacing={4} align="end" flexWrap="wrap">
+            <FormControl maxW={{ base: '100%', md: '200px' }}>
+              <FormLabel fontSize="sm">Trade size ({asset})</FormLabel>
+              <NumberInput min={0} value={tradeSize} onChange={setTradeSize}>
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+
+            <FormControl maxW={{ base: '100%', md: '140px' }}>
+              <FormLabel fontSize="sm">Asset</FormLabel>
+              <Select value={asset} onChange={(e) => setAsset(e.target.value)}>
+                {CALCULATOR_ASSETS.map(coin => (
+                  <option key={coin} value={coin}>{coin}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl maxW={{ base: '100%', md: '200px' }}>
+              <FormLabel fontSize="sm">Order type</FormLabel>
+              <RadioGroup value={orderType} onChange={(value) => setOrderType(value as OrderType)}>
+                <HStack spacing={4} h={10}>
+                  <Radio value="maker">Maker</Radio>
+                  <Radio value="taker">Taker</Radio>
+                </HStack>
+              </RadioGroup>
+            </FormControl>
+
+            <FormControl maxW={{ base: '100%', md: '140px' }}>
+              <FormLabel fontSize="sm">Round trips</FormLabel>
+              <NumberInput min={1} max={MAX_ROUND_TRIPS} step={1} value={roundTrips} onChange={setRoundTrips}>
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+
+            <Button colorScheme="blue" onClick={handleCalculate} isLoading={isLoading}>
+              Calculate
+            </Button>
+          </HStack>
+          <Text fontSize="xs" color="gray.500" mt={3}>
+            A round trip is one buy and one sell. Deposit and withdrawal fees are counted once.
+          </Text>
+        </Box>
+
+        {isError && (
+          <ErrorAlert title="Calculation failed" message={errorMessage || 'Please try again later.'} />
+        )}
+
+        {isLoading && !result && (
+          <Box textAlign="center" py={8}>
+            <Spinner />
+          </Box>
+        )}
+
+        {result && (
+          <VStack spacing={3} align="stretch">
+            <HStack spacing={2} flexWrap="wrap">
+              <Text fontSize="sm" color="gray.600">
+                {result.results.length} exchanges ranked by total cost
+                {result.excluded > 0 && ` • ${result.excluded} without ${result.input.orderType} fee data`}
+              </Text>
+              {result.cachedAt && (
+                <Badge colorScheme="green" fontSize="xs">
+                  Fee data updated {formatRelativeTime(result.cachedAt)}
+                </Badge>
+              )}
+            </HStack>
+            <CEXCostTable results={result.results} asset={result.input.asset} />
+          </VStack>
+        )}
+      </VStack>
+    </Layout>
+  );
+}
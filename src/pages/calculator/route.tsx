@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Badge,
+  Link,
+  Spinner,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { Layout } from '@/components/layout/Layout';
+import { ErrorAlert } from '@/components/common/ErrorAlert';
+import { RouteComparisonTable } from '@/components/calculator/RouteComparisonTable';
+import { useRouteComparison } from '@/lib/hooks/useCalculator';
+import { formatRelativeTime, formatUSD } from '@/lib/utils/formatters';
+
+const DEFAULT_INPUT = { pair: 'ETH/USDT', size: 1000, chain: 'Ethereum' };
+
+export default function RouteComparisonPage() {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const [pair, setPair] = useState(DEFAULT_INPUT.pair);
+  const [size, setSize] = useState(String(DEFAULT_INPUT.size));
+  const [chain, setChain] = useState(DEFAULT_INPUT.chain);
+  // Compare the defaults right away so the chain list comes from the cached data
+  const [submitted, setSubmitted] = useState(DEFAULT_INPUT);
+
+  const { result, isLoading, isError, errorMessage } = useRouteComparison(submitted);
+  const chains = result?.chains.length ? result.chains : [DEFAULT_INPUT.chain];
+
+  const handleCompare = () => {
+    setSubmitted({ pair: pair.trim(), size: parseFloat(size), chain });
+  };
+
+  return (
+    <Layout>
+      <VStack spacing={6} align="stretch">
+        <Box>
+          <Heading size="xl" mb={2}>
+            Cheapest Route: CEX vs DEX
+          </Heading>
+          <Text color="gray.600">
+            Buy on an exchange and withdraw, or swap on-chain - every venue ranked by what it costs to end up holding the asset on your chain
+          </Text>
+          <Text fontSize="sm" mt={1}>
+            <Link as={NextLink} href="/calculator" color="blue.500">
+              CEX calculator
+            </Link>
+            {' • '}
+            <Link as={NextLink} href="/calculator/dex" color="blue.500">
+              DEX calculator
+            </Link>
+          </Text>
+        </Box>
+
+        <Box p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+          <HStack spacing={4} align="end" flexWrap="wrap">
+            <FormControl maxW={{ base: '100%', md: '160px' }}>
+              <FormLabel fontSize="sm">Pair</FormLabel>
+              <Input value={pair} onChange={(e) => setPair(e.target.value)} placeholder="ETH/USDT" />
+            </FormControl>
+
+            <FormControl maxW={{ base: '100%', md: '200px' }}>
+              <FormLabel fontSize="sm">Size (USD)</FormLabel>
+              <NumberInput min={0} value={size} onChange={setSize}>
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+
+            <FormControl maxW={{ base: '100%', md: '220px' }}>
+              <FormLabel fontSize="sm">Your chain</FormLabel>
+              <Select value={chain} onChange={(e) => setChain(e.target.value)}>
+                {chains.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <Button colorScheme="blue" onClick={handleCompare} isLoading={isLoading}>
+              Compare
+            </Button>
+          </HStack>
+          <Text fontSize="xs" color="gray.500" mt={3}>
+            CEX routes: taker fee plus withdrawal of the base asset. DEX routes: swap fee plus average gas on your chain.
+            Whether each venue lists the pair is not checked.
+          </Text>
+        </Box>
+
+        {isError && (
+          <ErrorAlert title="Comparison failed" message={errorMessage || 'Please try again later.'} />
+        )}
+
+        {isLoading && !result && (
+          <Box textAlign="center" py={8}>
+            <Spinner />
+          </Box>
+        )}
+
+        {result && (
+          <VStack spacing={3} align="stretch">
+            <HStack spacing={2} flexWrap="wrap">
+              <Text fontSize="sm" color="gray.600">
+                {result.routes.length} routes for {result.input.pair} ranked by total cost
+                {(result.excluded.cex > 0 || result.excluded.dex > 0) &&
+                  ` • ${result.excluded.cex + result.excluded.dex} venues without fee data`}
+              </Text>
+              <Badge colorScheme={result.basePriceUSD !== null ? 'blue' : 'yellow'} fontSize="xs">
+                {result.basePriceUSD !== null
+                  ? `${result.input.base} ${formatUSD(result.basePriceUSD)}`
+                  : `No ${result.input.base} price - withdrawal fees unknown`}
+              </Badge>
+              {result.cachedAt.cex && (
+                <Badge colorScheme="green" fontSize="xs">
+                  CEX data updated {formatRelativeTime(result.cachedAt.cex)}
+                </Badge>
+              )}
+              {result.cachedAt.dex && (
+                <Badge colorScheme="green" fontSize="xs">
+                  DEX data updated {formatRelativeTime(result.cachedAt.dex)}
+                </Badge>
+              )}
+            </HStack>
+            <RouteComparisonTable routes={result.routes} />
+          </VStack>
+        )}
+      </VStack>
+    </Layout>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  FormControl,
+  FormLabel,
+  Select,
+  Badge,
+  Link,
+  Spinner,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { Layout } from '@/components/layout/Layout';
+import { ErrorAlert } from '@/components/common/ErrorAlert';
+import { WithdrawalFeeTable } from '@/components/calculator/WithdrawalFeeTable';
+import { useWithdrawalComparison } from '@/lib/hooks/useCalculator';
+import { WithdrawalComparisonInput } from '@/lib/types/calculator';
+import { CALCULATOR_ASSETS } from '@/config/constants';
+import { formatRelativeTime, formatUSD } from '@/lib/utils/formatters';
+
+export default function WithdrawalFeePage() {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  // Network null lets the API pick the most widely listed network for the coin
+  const [input, setInput] = useState<WithdrawalComparisonInput>({ coin: 'USDT', network: null });
+
+  const { result, isLoading, isError, errorMessage } = useWithdrawalComparison(input);
+  const coins = result?.coins.length ? result.coins : [...CALCULATOR_ASSETS];
+  const networks = result?.networks || [];
+  const network = input.network || result?.input.network || '';
+
+  return (
+    <Layout>
+      <VStack spacing={6} align="stretch">
+        <Box>
+          <Heading size="xl" mb={2}>
+            Withdrawal Fee Comparison
+          </Heading>
+          <Text color="gray.600">
+            Pick a coin and network to see every exchange ranked by what it costs to withdraw
+          </Text>
+          <Text fontSize="sm" mt={1}>
+            <Link as={NextLink} href="/calculator" color="blue.500">
+              CEX calculator
+            </Link>
+            {' • '}
+            <Link as={NextLink} href="/calculator/route" color="blue.500">
+              Compare CEX vs DEX routes
+            </Link>
+          </Text>
+        </Box>
+
+        <Box p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+          <HStack spacing={4} align="end" flexWrap="wrap">
+            <FormControl maxW={{ base: '100%', md: '160px' }}>
+              <FormLabel fontSize="sm">Coin</FormLabel>
+              <Select
+                value={input.coin}
+                onChange={(e) => setInput({ coin: e.target.value, network: null })}
+              >
+                {coins.map(coin => (
+                  <option key={coin} value={coin}>{coin}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl maxW={{ base: '100%', md: '220px' }}>
+              <FormLabel fontSize="sm">Network</FormLabel>
+              <Select
+                value={network}
+                onChange={(e) => setInput({ coin: input.coin, network: e.target.value })}
+                isDisabled={networks.length === 0}
+              >
+                {networks.length === 0 && <option value="">No networks with data</option>}
+                {networks.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </Select>
+            </FormControl>
+          </HStack>
+          <Text fontSize="xs" color="gray.500" mt={3}>
+            Fees are per withdrawal in the coin. Exchanges with suspended withdrawals on the network are listed last.
+          </Text>
+        </Box>
+
+        {isError && (
+          <ErrorAlert title="Comparison failed" message={errorMessage || 'Please try again later.'} />
+        )}
+
+        {isLoading && !result && (
+          <Box textAlign="center" py={8}>
+            <Spinner />
+          </Box>
+        )}
+
+        {result && (
+          <VStack spacing={3} align="stretch">
+            <HStack spacing={2} flexWrap="wrap">
+              <Text fontSize="sm" color="gray.600">
+                {result.results.length} exchanges ranked by withdrawal fee
+                {result.missing > 0 && ` • ${result.missing} without data for this network`}
+              </Text>
+              {result.coinPriceUSD !== null && (
+                <Badge colorScheme="blue" fontSize="xs">
+                  {result.input.coin} {formatUSD(result.coinPriceUSD)}
+                </Badge>
+              )}
+              {result.cachedAt && (
+                <Badge colorScheme="green" fontSize="xs">
+                  Fee data updated {formatRelativeTime(result.cachedAt)}
+                </Badge>
+              )}
+            </HStack>
+            <WithdrawalFeeTable
+              results={result.results}
+              coin={result.input.coin}
+              network={result.input.network}
+            />
+          </VStack>
+        )}
+      </VStack>
+    </Layout>
+  );
+}
@@ -0,0 +1,219 @@
+import NextLink from 'next/link';
+import { useRouter } from 'next/router';
+import {
+  Box,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Button,
+  Badge,
+  Link,
+  Spinner,
+  Alert,
+  AlertIcon,
+  useClipboard,
+} from '@chakra-ui/react';
+import { CheckIcon, CopyIcon } from '@chakra-ui/icons';
+import { Layout } from '@/components/layout/Layout';
+import { PageMeta } from '@/components/common/PageMeta';
+import { ErrorAlert } from '@/components/common/ErrorAlert';
+import { ComparisonColumn, ComparisonTable } from '@/components/exchange/ComparisonTable';
+import { useDEXFees, useExchangeFees } from '@/lib/hooks/useExchangeFees';
+import { COMPARE_MIN_ITEMS } from '@/config/constants';
+import { ComparisonRow, ComparisonType } from '@/lib/types/exchange';
+import {
+  buildCEXComparisonRows,
+  buildDEXComparisonRows,
+  getCompareHref,
+  parseCompareIds,
+} from '@/lib/utils/compare';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+
+interface ComparisonViewProps {
+  ids: string[];
+  onRemove: (id: string) => void;
+}
+
+interface ComparisonResultProps extends ComparisonViewProps {
+  columns: ComparisonColumn[];
+  rows: ComparisonRow[];
+  isLoading: boolean;
+  isError: boolean;
+  cachedAt?: string;
+  listHref: string;
+}
+
+function ComparisonResult({ ids, columns, rows, isLoading, isError, cachedAt, listHref, onRemove }: ComparisonResultProps) {
+  if (isError) {
+    return <ErrorAlert title="Failed to load fee data" message="Unable to fetch exchange data. Please try again later." />;
+  }
+
+  if (isLoading && columns.length === 0) {
+    return (
+      <Box textAlign="center" py={8}>
+        <Spinner />
+      </Box>
+    );
+  }
+
+  const missing = ids.filter(id => !columns.some(column => column.id === id));
+
+  return (
+    <VStack spacing={3} align="stretch">
+      {missing.length > 0 && (
+        <Alert status="warning" borderRadius="md">
+          <AlertIcon />
+          Not found: {missing.join(', ')}
+        </Alert>
+      )}
+      {columns.length > 0 ? (
+        <>
+          {cachedAt && (
+            <Badge colorScheme="green" fontSize="xs" alignSelf="start">
+              Fee data updated {formatRelativeTime(cachedAt)}
+            </Badge>
+          )}
+          <ComparisonTable columns={columns} rows={rows} onRemove={onRemove} />
+        </>
+      ) : (
+        <Text color="gray.500">
+          Nothing to compare.{' '}
+          <Link as={NextLink} href={listHref} color="blue.500">
+            Pick exchanges from the list
+          </Link>
+        </Text>
+      )}
+    </VStack>
+  );
+}
+
+function CEXComparison({ ids, onRemove }: ComparisonViewProps) {
+  const { exchanges, isLoading, isError, cachedAt } = useExchangeFees();
+
+  // Keep the URL order
+  const selected = ids
+    .map(id => exchanges.find(exchange => exchange.exchangeId === id))
+    .filter((exchange): exchange is NonNullable<typeof exchange> => Boolean(exchange));
+  const columns = selected.map(exchange => ({
+    id: exchange.exchangeId,
+    name: exchange.exchangeName,
+    logo: exchange.logo,
+    href: `/exchange/${encodeURIComponent(exchange.exchangeId)}`,
+  }));
+
+  return (
+    <ComparisonResult
+      ids={ids}
+      columns={columns}
+      rows={buildCEXComparisonRows(selected)}
+      isLoading={isLoading}
+      isError={Boolean(isError)}
+      cachedAt={cachedAt}
+      listHref="/"
+      onRemove={onRemove}
+    />
+  );
+}
+
+function DEXComparison({ ids, onRemove }: ComparisonViewProps) {
+  const { dexes, isLoading, isError, cachedAt } = useDEXFees();
+
+  const selected = ids
+    .map(id => dexes.find(dex => dex.dexId === id))
+    .filter((dex): dex is NonNullable<typeof dex> => Boolean(dex));
+  const columns = selected.map(dex => ({
+    id: dex.dexId,
+    name: dex.dexName,
+    logo: dex.logo,
+    href: `/dex/${encodeURIComponent(dex.dexId)}`,
+  }));
+
+  return (
+    <ComparisonResult
+      ids={ids}
+      columns={columns}
+      rows={buildDEXComparisonRows(selected)}
+      isLoading={isLoading}
+      isError={Boolean(isError)}
+      cachedAt={cachedAt}
+      listHref="/dex"
+      onRemove={onRemove}
+    />
+  );
+}
+
+/**
+ * Side-by-side comparison - /compare?ids=binance,kraken (CEX) or
+ * /compare?type=dex&ids=... (DEX). The URL holds the whole selection so it can be shared.
+ */
+export default function ComparePage() {
+  const router = useRouter();
+  const type: ComparisonType = router.query.type === 'dex' ? 'dex' : 'cex';
+  const ids = parseCompareIds(router.query.ids);
+  const listHref = type === 'dex' ? '/dex' : '/';
+  const { hasCopied, onCopy } = useClipboard('');
+
+  const handleRemove = (id: string) => {
+    router.replace(getCompareHref(type, ids.filter(selected => selected !== id)), undefined, { shallow: true });
+  };
+
+  return (
+    <Layout>
+      <PageMeta
+        title={type === 'dex' ? 'Compare DEX Fees Side by Side' : 'Compare Exchange Fees Side by Side'}
+        description="Compare trading, withdrawal and deposit fees of up to four exchanges side by side, with the cheapest value highlighted."
+        path="/compare"
+      />
+
+      <VStack spacing={6} align="stretch">
+        <Box>
+          <HStack justify="space-between" align="start" mb={2} flexWrap="wrap">
+            <Heading size="xl">
+              {type === 'dex' ? 'DEX' : 'Exchange'} Comparison
+            </Heading>
+            {ids.length > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                leftIcon={hasCopied ? <CheckIcon /> : <CopyIcon />}
+                onClick={() => onCopy(`${window.location.origin}${getCompareHref(type, ids)}`)}
+              >
+                {hasCopied ? 'Link copied' : 'Copy link'}
+              </Button>
+            )}
+          </HStack>
+          <Text color="gray.600">
+            Every fee side by side - the cheapest value in each row is highlighted
+          </Text>
+          <Text fontSize="sm" mt={1}>
+            <Link as={NextLink} href={listHref} color="blue.500">
+              ← Change selection
+            </Link>
+          </Text>
+        </Box>
+
+        {!router.isReady ? (
+          <Box textAlign="center" py={8}>
+            <Spinner />
+          </Box>
+        ) : ids.length < COMPARE_MIN_ITEMS ? (
+          <Alert status="info" borderRadius="md">
+            <AlertIcon />
+            <Text>
+              Select at least {COMPARE_MIN_ITEMS} {type === 'dex' ? 'DEXes' : 'exchanges'} to compare - tick them on the{' '}
+              <Link as={NextLink} href={listHref} color="blue.500">
+                {type === 'dex' ? 'DEX' : 'CEX'} list
+              </Link>
+              .
+            </Text>
+          </Alert>
+        ) : type === 'dex' ? (
+          <DEXComparison ids={ids} onRemove={handleRemove} />
+        ) : (
+          <CEXComparison ids={ids} onRemove={handleRemove} />
+        )}
+      </VStack>
+    </Layout>
+  );
+}
@@ -1,17 +1,34 @@
+import { GetServerSideProps } from 'next';
 import { Box, Heading, Text, VStack, Badge, HStack, useToast } from '@chakra-ui/react';
 import { Layout } from '@/components/layout/Layout';
 import { DEXGrid } from '@/components/exchange/DEXGrid';
 import { DEXFilters } from '@/components/exchange/DEXFilters';
+import { CompareBar } from '@/components/exchange/CompareBar';
+import { TableLayoutControls } from '@/components/common/TableLayoutControls';
 import { ErrorAlert } from '@/components/common/ErrorAlert';
 import { FeeDataStatus } from '@/components/common/FeeDataStatus';
 import { useDEXFees } from '@/lib/hooks/useExchangeFees';
 import { useDEXFilters } from '@/lib/hooks/useFilters';
+import { parseDEXFilterQuery } from '@/lib/utils/filter-params';
+import { DEXFilterState } from '@/lib/types/exchange';
+import { useCompareSelection } from '@/lib/hooks/useCompareSelection';
+import { useTableLayout } from '@/lib/hooks/useTableLayout';
+import { DEX_TABLE_COLUMNS, DEX_TABLE_LAYOUT_KEY } from '@/config/constants';
 import { formatRelativeTime } from '@/lib/utils/formatters';
 import { CacheMonitor } from '@/components/common/CacheMonitor';
 import { DevCacheManager } from '@/components/common/DevCacheManager';
 import { useEffect, useRef } from 'react';
 
-export default function DEXPage() {
+interface DEXListPageProps {
+  initialFilters: DEXFilterState;
+}
+
+// Rendered per request so filters in the query string (?q=...&sort=...) apply on first paint
+export const getServerSideProps: GetServerSideProps<DEXListPageProps> = async ({ query }) => ({
+  props: { initialFilters: parseDEXFilterQuery(query) },
+});
+
+export default function DEXPage({ initialFilters }: DEXListPageProps) {
   const toast = useToast();
   const prevShowFinalNotificationRef = useRef<boolean>(false);
 
@@ -31,12 +48,20 @@ export default function DEXPage() {
     setSearchQuery,
     sortBy,
     setSortBy,
+    sortDirection,
+    toggleSort,
+    advancedFilters,
+    setAdvancedFilters,
+    chainOptions,
     displayedDEXes,
     totalCount,
     hasMore,
     loadMore,
     reset,
-  } = useDEXFilters(dexes);
+  } = useDEXFilters(dexes, initialFilters);
+
+  const compare = useCompareSelection();
+  const tableLayout = useTableLayout(DEX_TABLE_LAYOUT_KEY, DEX_TABLE_COLUMNS);
 
   // Show toast notification ONLY when final AI processing completes
   useEffect(() => {
@@ -101,20 +126,47 @@ export default function DEXPage() {
             onSearchChange={setSearchQuery}
             sortBy={sortBy}
             onSortChange={setSortBy}
+            advancedFilters={advancedFilters}
+            onAdvancedFiltersChange={setAdvancedFilters}
+            chainOptions={chainOptions}
             onReset={reset}
             totalCount={totalCount}
             displayedCount={displayedDEXes.length}
           />
         )}
 
-        {/* DEX Grid with 10-item incremental loading */}
+        {/* Cards / table toggle and table columns */}
+        {!isError && dexes && dexes.length > 0 && (
+          <TableLayoutControls
+            columns={DEX_TABLE_COLUMNS}
+            view={tableLayout.view}
+            onViewChange={tableLayout.setView}
+            order={tableLayout.order}
+            hidden={tableLayout.hidden}
+            onToggleColumn={tableLayout.toggleColumn}
+            onMoveColumn={tableLayout.moveColumn}
+            onResetColumns={tableLayout.resetColumns}
+          />
+        )}
+
+        {/* DEX Grid (or table) with 10-item incremental loading */}
         <DEXGrid
           dexes={displayedDEXes}
           isLoading={isLoading}
           backgroundLoading={backgroundLoading}
           hasMore={hasMore}
           onLoadMore={loadMore}
+          selectedIds={compare.selectedIds}
+          compareFull={compare.isFull}
+          onToggleCompare={compare.toggle}
+          view={tableLayout.view}
+          columns={tableLayout.visibleColumns}
+          sortBy={sortBy}
+          sortDirection={sortDirection}
+          onSort={toggleSort}
         />
+
+        <CompareBar type="dex" selectedIds={compare.selectedIds} onClear={compare.clear} />
       </VStack>
     </Layout>
   );
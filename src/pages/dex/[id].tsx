@@ -0,0 +1,234 @@
+import { GetStaticPaths, GetStaticProps } from 'next';
+import NextLink from 'next/link';
+import {
+  Box,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Image,
+  Badge,
+  Link,
+  Button,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { ExternalLinkIcon } from '@chakra-ui/icons';
+import { Layout } from '@/components/layout/Layout';
+import { PageMeta } from '@/components/common/PageMeta';
+import { FeeProvenanceTable } from '@/components/exchange/FeeProvenanceTable';
+import { FeeHistoryTable } from '@/components/exchange/FeeHistoryTable';
+import { getProtocolColor } from '@/components/exchange/DEXCard';
+import {
+  DETAIL_PAGE_HISTORY_LIMIT,
+  DETAIL_PAGE_PRERENDER_COUNT,
+  DETAIL_PAGE_REVALIDATE_SECONDS,
+} from '@/config/constants';
+import { DEXFees, DEXFeeSnapshot } from '@/lib/types/exchange';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { applyDEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import { getDEXFeeHistory } from '@/lib/utils/fee-history';
+import { findGasEstimate } from '@/lib/utils/fee-calculator';
+import { formatDate, formatFee, formatUSD } from '@/lib/utils/formatters';
+
+interface DEXPageProps {
+  dex: DEXFees;
+  history: DEXFeeSnapshot[];
+}
+
+const PROVENANCE_LABELS = {
+  swapFee: 'Swap fee',
+  gasFeeEstimate: 'Gas estimates',
+};
+
+const HISTORY_COLUMNS = [
+  { label: 'Swap Fee', value: (snapshot: DEXFeeSnapshot) => snapshot.swapFee },
+];
+
+const DEFILLAMA_DEXS_URL = 'https://defillama.com/dexs';
+
+/**
+ * DEX Detail Page (ISR)
+ *
+ * Built from the cached /api/dex-fees data with overrides applied - same
+ * prerender/revalidate strategy as the exchange detail pages.
+ */
+export const getStaticPaths: GetStaticPaths = async () => {
+  const cacheState = await getCacheState('dex');
+  const dexes: DEXFees[] = cacheState?.data || [];
+
+  return {
+    paths: dexes
+      .slice(0, DETAIL_PAGE_PRERENDER_COUNT)
+      .map(dex => ({ params: { id: dex.dexId } })),
+    fallback: 'blocking',
+  };
+};
+
+export const getStaticProps: GetStaticProps<DEXPageProps> = async ({ params }) => {
+  const id = String(params?.id || '');
+  const cacheState = await getCacheState('dex');
+  const cached = (cacheState?.data as DEXFees[] | undefined)?.find(dex => dex.dexId === id);
+
+  // Unknown id or cache not loaded yet - retry soon rather than caching the 404 for an hour
+  if (!cached) {
+    return { notFound: true, revalidate: 60 };
+  }
+
+  const [dex] = await applyDEXFeeOverrides([cached]);
+  const history = (await getDEXFeeHistory(id)).slice(-DETAIL_PAGE_HISTORY_LIMIT);
+
+  return {
+    // Round-trip through JSON - getStaticProps props can't contain undefined values
+    props: JSON.parse(JSON.stringify({ dex, history })),
+    revalidate: DETAIL_PAGE_REVALIDATE_SECONDS,
+  };
+};
+
+export default function DEXPage({ dex, history }: DEXPageProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  // Every listed chain, plus chains that only appear in the gas estimates (keys vary in case)
+  const chains = [...dex.blockchain];
+  Object.keys(dex.gasFeeEstimate || {}).forEach(chain => {
+    if (!chains.some(name => name.toLowerCase() === chain.toLowerCase())) {
+      chains.push(chain);
+    }
+  });
+  const chainSummary = chains.length > 3
+    ? `${chains.slice(0, 3).join(', ')} and ${chains.length - 3} more chains`
+    : chains.join(', ');
+
+  return (
+    <Layout>
+      <PageMeta
+        title={`${dex.dexName} Swap Fees & Gas Costs`}
+        description={`${dex.dexName} swap fee (${formatFee(dex.swapFee)}), gas estimates per chain, TVL and 24h volume${chainSummary ? ` on ${chainSummary}` : ''}.`}
+        path={`/dex/${dex.dexId}`}
+      />
+
+      <VStack spacing={8} align="stretch">
+        {/* Header */}
+        <HStack spacing={4} align="center" flexWrap="wrap">
+          <Image
+            src={dex.logo}
+            alt={dex.dexName}
+            boxSize="64px"
+            objectFit="contain"
+            fallbackSrc="/logos/default.svg"
+          />
+          <Box flex={1}>
+            <Heading size="xl">{dex.dexName} Fees</Heading>
+            <HStack spacing={2} mt={2} flexWrap="wrap">
+              <Badge colorScheme={getProtocolColor(dex.protocol)}>{dex.protocol}</Badge>
+              <Badge colorScheme="gray">{chains.length} {chains.length === 1 ? 'chain' : 'chains'}</Badge>
+            </HStack>
+          </Box>
+          {dex.url && (
+            <Button as="a" href={dex.url} target="_blank" rel="noopener noreferrer" rightIcon={<ExternalLinkIcon />}>
+              Visit {dex.dexName}
+            </Button>
+          )}
+        </HStack>
+
+        {/* Key numbers */}
+        <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4} p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+          <Stat>
+            <StatLabel>Swap Fee</StatLabel>
+            <StatNumber color={dex.swapFee === null ? 'gray.500' : undefined}>{formatFee(dex.swapFee)}</StatNumber>
+            <StatHelpText>Per swap, paid to liquidity providers</StatHelpText>
+          </Stat>
+          <Stat>
+            <StatLabel>TVL</StatLabel>
+            <StatNumber>{dex.liquidityUSD > 0 ? formatUSD(dex.liquidityUSD) : 'N/A'}</StatNumber>
+            <StatHelpText>Total value locked</StatHelpText>
+          </Stat>
+          <Stat>
+            <StatLabel>24h Volume</StatLabel>
+            <StatNumber>{dex.volume24h > 0 ? formatUSD(dex.volume24h) : 'N/A'}</StatNumber>
+            <StatHelpText>
+              <Link href={dex.defiLlamaUrl || DEFILLAMA_DEXS_URL} isExternal color="blue.500">
+                Source: DeFiLlama <ExternalLinkIcon mx="2px" />
+              </Link>
+            </StatHelpText>
+          </Stat>
+        </SimpleGrid>
+
+        {/* Chains and gas */}
+        <Box>
+          <Heading size="md" mb={4}>Supported Chains & Gas Estimates</Heading>
+          {chains.length > 0 ? (
+            <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Chain</Th>
+                    <Th isNumeric>Gas (low)</Th>
+                    <Th isNumeric>Gas (average)</Th>
+                    <Th isNumeric>Gas (high)</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {chains.map(chain => {
+                    const gas = findGasEstimate(dex, chain);
+                    return (
+                      <Tr key={chain}>
+                        <Td fontWeight="semibold">{chain}</Td>
+                        {gas ? (
+                          <>
+                            <Td isNumeric>{formatUSD(gas.low)}</Td>
+                            <Td isNumeric>{formatUSD(gas.average)}</Td>
+                            <Td isNumeric>{formatUSD(gas.high)}</Td>
+                          </>
+                        ) : (
+                          <Td colSpan={3} isNumeric color="gray.500">No gas estimate yet</Td>
+                        )}
+                      </Tr>
+                    );
+                  })}
+                </Tbody>
+              </Table>
+            </Box>
+          ) : (
+            <Text color="gray.500" fontSize="sm">No chain data available.</Text>
+          )}
+        </Box>
+
+        {/* Provenance */}
+        <Box>
+          <Heading size="md" mb={4}>Where This Data Comes From</Heading>
+          <FeeProvenanceTable sources={dex.feeSources} labels={PROVENANCE_LABELS} />
+          <Text fontSize="xs" color="gray.500" mt={2}>
+            Chains, TVL and volume come from{' '}
+            <Link href={dex.defiLlamaUrl || DEFILLAMA_DEXS_URL} isExternal color="blue.500">
+              DeFiLlama
+            </Link>.
+          </Text>
+        </Box>
+
+        {/* History */}
+        <Box>
+          <Heading size="md" mb={4}>Fee History</Heading>
+          <FeeHistoryTable snapshots={history} columns={HISTORY_COLUMNS} />
+        </Box>
+
+        <HStack spacing={4} fontSize="sm" color="gray.500" flexWrap="wrap">
+          <Text suppressHydrationWarning>Last updated {formatDate(dex.lastUpdated)}</Text>
+          <Link as={NextLink} href="/dex" color="blue.500">
+            ← All DEXes
+          </Link>
+        </HStack>
+      </VStack>
+    </Layout>
+  );
+}
@@ -0,0 +1,289 @@
+import { GetStaticPaths, GetStaticProps } from 'next';
+import NextLink from 'next/link';
+import {
+  Box,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Image,
+  Badge,
+  Link,
+  Button,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { ExternalLinkIcon } from '@chakra-ui/icons';
+import { Layout } from '@/components/layout/Layout';
+import { PageMeta } from '@/components/common/PageMeta';
+import { FeeProvenanceTable } from '@/components/exchange/FeeProvenanceTable';
+import { FeeHistoryTable } from '@/components/exchange/FeeHistoryTable';
+import {
+  DETAIL_PAGE_HISTORY_LIMIT,
+  DETAIL_PAGE_PRERENDER_COUNT,
+  DETAIL_PAGE_REVALIDATE_SECONDS,
+} from '@/config/constants';
+import { CEXFees, CEXFeeSnapshot } from '@/lib/types/exchange';
+import { getCacheState } from '@/lib/utils/cache-optimizer';
+import { applyCEXFeeOverrides } from '@/lib/utils/fee-overrides';
+import { getCEXFeeHistory } from '@/lib/utils/fee-history';
+import { formatAmount, formatDate, formatFee, formatVolume } from '@/lib/utils/formatters';
+
+interface ExchangePageProps {
+  exchange: CEXFees;
+  history: CEXFeeSnapshot[];
+}
+
+const PROVENANCE_LABELS = {
+  makerFee: 'Maker fee',
+  takerFee: 'Taker fee',
+  feeTiers: 'Volume tiers',
+  futuresMakerFee: 'Futures maker fee',
+  futuresTakerFee: 'Futures taker fee',
+  withdrawalFees: 'Withdrawal fees',
+  depositFees: 'Deposit fees',
+};
+
+const HISTORY_COLUMNS = [
+  { label: 'Maker', value: (snapshot: CEXFeeSnapshot) => snapshot.makerFee },
+  { label: 'Taker', value: (snapshot: CEXFeeSnapshot) => snapshot.takerFee },
+];
+
+/**
+ * Exchange Detail Page (ISR)
+ *
+ * Built from the cached /api/cex-fees data with overrides applied.
+ * The top exchanges are prerendered at build time when the cache is warm; others
+ * render on first request and regenerate every DETAIL_PAGE_REVALIDATE_SECONDS.
+ */
+export const getStaticPaths: GetStaticPaths = async () => {
+  const cacheState = await getCacheState('cex');
+  const exchanges: CEXFees[] = cacheState?.data || [];
+
+  return {
+    paths: exchanges
+      .slice(0, DETAIL_PAGE_PRERENDER_COUNT)
+      .map(exchange => ({ params: { id: exchange.exchangeId } })),
+    fallback: 'blocking',
+  };
+};
+
+export const getStaticProps: GetStaticProps<ExchangePageProps> = async ({ params }) => {
+  const id = String(params?.id || '');
+  const cacheState = await getCacheState('cex');
+  const cached = (cacheState?.data as CEXFees[] | undefined)?.find(exchange => exchange.exchangeId === id);
+
+  // Unknown id or cache not loaded yet - retry soon rather than caching the 404 for an hour
+  if (!cached) {
+    return { notFound: true, revalidate: 60 };
+  }
+
+  const [exchange] = await applyCEXFeeOverrides([cached]);
+  const history = (await getCEXFeeHistory(id)).slice(-DETAIL_PAGE_HISTORY_LIMIT);
+
+  return {
+    // Round-trip through JSON - getStaticProps props can't contain undefined values
+    props: JSON.parse(JSON.stringify({ exchange, history })),
+    revalidate: DETAIL_PAGE_REVALIDATE_SECONDS,
+  };
+};
+
+function FeeStat({ label, value, help }: { label: string; value: number | null; help?: string }) {
+  return (
+    <Stat>
+      <StatLabel>{label}</StatLabel>
+      <StatNumber color={value === null ? 'gray.500' : undefined}>{formatFee(value)}</StatNumber>
+      {help && <StatHelpText>{help}</StatHelpText>}
+    </Stat>
+  );
+}
+
+export default function ExchangePage({ exchange, history }: ExchangePageProps) {
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const withdrawalRows = Object.entries(exchange.withdrawalFees || {}).flatMap(([coin, networks]) =>
+    Object.entries(networks || {}).map(([network, fee]) => ({ coin, network, ...fee }))
+  );
+  const depositRows = Object.entries(exchange.depositFees || {});
+  const feeTiers = exchange.feeTiers || [];
+
+  const feeSummary = exchange.makerFee !== null || exchange.takerFee !== null
+    ? `maker ${formatFee(exchange.makerFee)}, taker ${formatFee(exchange.takerFee)}`
+    : 'fee data pending';
+
+  return (
+    <Layout>
+      <PageMeta
+        title={`${exchange.exchangeName} Fees - Trading, Withdrawal & Deposit`}
+        description={`${exchange.exchangeName} spot trading fees (${feeSummary}), withdrawal and deposit fees per network, trust score and fee history.`}
+        path={`/exchange/${exchange.exchangeId}`}
+      />
+
+      <VStack spacing={8} align="stretch">
+        {/* Header */}
+        <HStack spacing={4} align="center" flexWrap="wrap">
+          <Image
+            src={exchange.logo}
+            alt={exchange.exchangeName}
+            boxSize="64px"
+            objectFit="contain"
+            fallbackSrc="/logos/default.svg"
+          />
+          <Box flex={1}>
+            <Heading size="xl">{exchange.exchangeName} Fees</Heading>
+            <HStack spacing={2} mt={2} flexWrap="wrap">
+              <Badge colorScheme="purple">Trust: {exchange.trustScore}/10</Badge>
+              {exchange.country && exchange.country !== 'Unknown' && (
+                <Badge colorScheme="gray">{exchange.country}</Badge>
+              )}
+              {exchange.yearEstablished && (
+                <Badge colorScheme="gray">Est. {exchange.yearEstablished}</Badge>
+              )}
+              {exchange.volume24h > 0 && (
+                <Badge colorScheme="cyan">24h Volume {formatVolume(exchange.volume24h)}</Badge>
+              )}
+            </HStack>
+          </Box>
+          {exchange.url && (
+            <Button as="a" href={exchange.url} target="_blank" rel="noopener noreferrer" rightIcon={<ExternalLinkIcon />}>
+              Visit {exchange.exchangeName}
+            </Button>
+          )}
+        </HStack>
+
+        {/* Trading fees */}
+        <Box>
+          <Heading size="md" mb={4}>Trading Fees</Heading>
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4} p={4} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+            <FeeStat label="Spot Maker" value={exchange.makerFee} help="Lowest tier" />
+            <FeeStat label="Spot Taker" value={exchange.takerFee} help="Lowest tier" />
+            <FeeStat label="Futures Maker" value={exchange.futuresMakerFee ?? null} help="Perpetuals" />
+            <FeeStat label="Futures Taker" value={exchange.futuresTakerFee ?? null} help="Perpetuals" />
+          </SimpleGrid>
+        </Box>
+
+        {/* Volume tiers */}
+        {feeTiers.length > 0 && (
+          <Box>
+            <Heading size="md" mb={4}>Volume Tiers</Heading>
+            <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Tier</Th>
+                    <Th isNumeric>30d Volume (USD)</Th>
+                    <Th isNumeric>Maker</Th>
+                    <Th isNumeric>Taker</Th>
+                    <Th isNumeric>Token Discount</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {feeTiers.map((tier, index) => (
+                    <Tr key={tier.minVolume30d}>
+                      <Td>{tier.name || `Tier ${index + 1}`}</Td>
+                      <Td isNumeric>{formatAmount(tier.minVolume30d)}</Td>
+                      <Td isNumeric>{formatFee(tier.makerFee)}</Td>
+                      <Td isNumeric>{formatFee(tier.takerFee)}</Td>
+                      <Td isNumeric>{tier.tokenDiscount !== null ? `${tier.tokenDiscount}%` : '-'}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          </Box>
+        )}
+
+        {/* Withdrawal and deposit fees */}
+        <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+          <Box>
+            <Heading size="md" mb={4}>Withdrawal Fees</Heading>
+            {withdrawalRows.length > 0 ? (
+              <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Coin</Th>
+                      <Th>Network</Th>
+                      <Th isNumeric>Fee</Th>
+                      <Th isNumeric>Minimum</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {withdrawalRows.map(row => (
+                      <Tr key={`${row.coin}-${row.network}`} opacity={row.enabled ? 1 : 0.6}>
+                        <Td fontWeight="semibold">{row.coin}</Td>
+                        <Td>
+                          {row.network}
+                          {!row.enabled && <Badge ml={2} colorScheme="red" fontSize="xs">Suspended</Badge>}
+                        </Td>
+                        <Td isNumeric>{formatAmount(row.fee)} {row.coin}</Td>
+                        <Td isNumeric>{row.minWithdrawal !== null ? `${formatAmount(row.minWithdrawal)} ${row.coin}` : '-'}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+            ) : (
+              <Text color="gray.500" fontSize="sm">No withdrawal fee data available yet.</Text>
+            )}
+          </Box>
+
+          <Box>
+            <Heading size="md" mb={4}>Deposit Fees</Heading>
+            {depositRows.length > 0 ? (
+              <Box overflowX="auto" borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Coin</Th>
+                      <Th isNumeric>Fee</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {depositRows.map(([coin, fee]) => (
+                      <Tr key={coin}>
+                        <Td fontWeight="semibold">{coin}</Td>
+                        <Td isNumeric>{formatAmount(fee)} {coin}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+            ) : (
+              <Text color="gray.500" fontSize="sm">No deposit fee data available yet.</Text>
+            )}
+          </Box>
+        </SimpleGrid>
+
+        {/* Provenance */}
+        <Box>
+          <Heading size="md" mb={4}>Where This Data Comes From</Heading>
+          <FeeProvenanceTable sources={exchange.feeSources} labels={PROVENANCE_LABELS} />
+        </Box>
+
+        {/* History */}
+        <Box>
+          <Heading size="md" mb={4}>Fee History</Heading>
+          <FeeHistoryTable snapshots={history} columns={HISTORY_COLUMNS} />
+        </Box>
+
+        <HStack spacing={4} fontSize="sm" color="gray.500" flexWrap="wrap">
+          <Text suppressHydrationWarning>Last updated {formatDate(exchange.lastUpdated)}</Text>
+          <Link as={NextLink} href="/" color="blue.500">
+            ← All exchanges
+          </Link>
+        </HStack>
+      </VStack>
+    </Layout>
+  );
+}
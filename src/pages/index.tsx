@@ -1,18 +1,35 @@
+import { GetServerSideProps } from 'next';
 import { Box, Heading, Text, VStack, Badge, HStack, Button, useToast, Flex } from '@chakra-ui/react';
 import { RepeatIcon } from '@chakra-ui/icons';
 import { Layout } from '@/components/layout/Layout';
 import { ExchangeGrid } from '@/components/exchange/ExchangeGrid';
 import { ExchangeFilters } from '@/components/exchange/ExchangeFilters';
+import { CompareBar } from '@/components/exchange/CompareBar';
+import { TableLayoutControls } from '@/components/common/TableLayoutControls';
 import { ErrorAlert } from '@/components/common/ErrorAlert';
 import { FeeDataStatus } from '@/components/common/FeeDataStatus';
 import { useExchangeFees } from '@/lib/hooks/useExchangeFees';
 import { useCEXFilters } from '@/lib/hooks/useFilters';
+import { parseCEXFilterQuery } from '@/lib/utils/filter-params';
+import { FilterState } from '@/lib/types/exchange';
+import { useCompareSelection } from '@/lib/hooks/useCompareSelection';
+import { useTableLayout } from '@/lib/hooks/useTableLayout';
+import { CEX_TABLE_COLUMNS, CEX_TABLE_LAYOUT_KEY } from '@/config/constants';
 import { formatRelativeTime } from '@/lib/utils/formatters';
 import { CacheMonitor } from '@/components/common/CacheMonitor';
 import { DevCacheManager } from '@/components/common/DevCacheManager';
 import { useState, useEffect, useRef } from 'react';
 
-export default function HomePage() {
+interface HomePageProps {
+  initialFilters: FilterState;
+}
+
+// Rendered per request so filters in the query string (?q=...&sort=...) apply on first paint
+export const getServerSideProps: GetServerSideProps<HomePageProps> = async ({ query }) => ({
+  props: { initialFilters: parseCEXFilterQuery(query) },
+});
+
+export default function HomePage({ initialFilters }: HomePageProps) {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const toast = useToast();
   const prevShowFinalNotificationRef = useRef<boolean>(false);
@@ -33,12 +50,26 @@ export default function HomePage() {
     setSearchQuery,
     sortBy,
     setSortBy,
+    sortDirection,
+    toggleSort,
+    marketType,
+    setMarketType,
+    monthlyVolume,
+    setMonthlyVolume,
+    useTokenDiscount,
+    setUseTokenDiscount,
+    advancedFilters,
+    setAdvancedFilters,
+    countryOptions,
     displayedExchanges,
     totalCount,
     hasMore,
     loadMore,
     reset,
-  } = useCEXFilters(exchanges);
+  } = useCEXFilters(exchanges, initialFilters);
+
+  const compare = useCompareSelection();
+  const tableLayout = useTableLayout(CEX_TABLE_LAYOUT_KEY, CEX_TABLE_COLUMNS);
 
   // Show toast notification ONLY when final AI processing completes
   useEffect(() => {
@@ -140,20 +171,56 @@ export default function HomePage() {
             onSearchChange={setSearchQuery}
             sortBy={sortBy}
             onSortChange={setSortBy}
+            marketType={marketType}
+            onMarketTypeChange={setMarketType}
+            monthlyVolume={monthlyVolume}
+            onMonthlyVolumeChange={setMonthlyVolume}
+            useTokenDiscount={useTokenDiscount}
+            onUseTokenDiscountChange={setUseTokenDiscount}
+            advancedFilters={advancedFilters}
+            onAdvancedFiltersChange={setAdvancedFilters}
+            countryOptions={countryOptions}
             onReset={reset}
             totalCount={totalCount}
             displayedCount={displayedExchanges.length}
           />
         )}
 
-        {/* Exchange Grid with 10-item incremental loading */}
+        {/* Cards / table toggle and table columns */}
+        {!isError && exchanges && exchanges.length > 0 && (
+          <TableLayoutControls
+            columns={CEX_TABLE_COLUMNS}
+            view={tableLayout.view}
+            onViewChange={tableLayout.setView}
+            order={tableLayout.order}
+            hidden={tableLayout.hidden}
+            onToggleColumn={tableLayout.toggleColumn}
+            onMoveColumn={tableLayout.moveColumn}
+            onResetColumns={tableLayout.resetColumns}
+          />
+        )}
+
+        {/* Exchange Grid (or table) with 10-item incremental loading */}
         <ExchangeGrid
           exchanges={displayedExchanges}
+          marketType={marketType}
+          monthlyVolume={monthlyVolume}
+          useTokenDiscount={useTokenDiscount}
           isLoading={isLoading}
           backgroundLoading={backgroundLoading}
           hasMore={hasMore}
           onLoadMore={loadMore}
+          selectedIds={compare.selectedIds}
+          compareFull={compare.isFull}
+          onToggleCompare={compare.toggle}
+          view={tableLayout.view}
+          columns={tableLayout.visibleColumns}
+          sortBy={sortBy}
+          sortDirection={sortDirection}
+          onSort={toggleSort}
         />
+
+        <CompareBar type="cex" selectedIds={compare.selectedIds} onClear={compare.clear} />
       </VStack>
     </Layout>
   );